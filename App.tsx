@@ -12,7 +12,21 @@ import {
   generateStyledVideo,
   generateMemeImage,
   generateScenarios,
+  DEFAULT_SCENARIO_COUNT,
 } from './services/geminiService';
+import type {
+  ApiErrorKind,
+  CallOptions,
+  ImageCandidate,
+  LikenessResult,
+  PromptProvenance,
+  VideoOptions,
+} from './services/geminiService';
+import { renderPrompt } from './services/promptTemplates';
+import { preprocessUploads } from './lib/imagePreprocessing';
+import { BUILTIN_MEME_LIBRARY } from './lib/memeLibrary';
+import type { MemeScript } from './lib/memeLibrary';
+import type { ImageRefinement, ImageVersion } from './lib/imageVersions';
 
 
 // Types
@@ -23,70 +37,67 @@ interface GeneratedImage {
   status: ImageStatus;
   url?: string;
   error?: string;
-  isQuotaError?: boolean;
+  errorKind?: ApiErrorKind;
+  retryAfterMs?: number;
+  /** The template that produced this image's scenario. */
+  promptTemplate?: PromptProvenance | null;
+  /** Every image generated for this slot; `url` is the selected candidate's. */
+  candidates?: ImageCandidate[];
+  selectedCandidate?: number;
+  /** The region-edit history; `url` is the active version's. */
+  versions?: ImageVersion[];
+  activeVersion?: number;
+  /** The conversation refining this image, if one has started. */
+  refinement?: ImageRefinement;
+  /** The image's likeness to the person, when the identity check scored it. */
+  likeness?: LikenessResult;
 }
 
 interface MediaState {
   status: 'idle' | 'pending' | 'done' | 'error';
   url?: string;
   error?: string;
-  isQuotaError?: boolean;
+  errorKind?: ApiErrorKind;
+  retryAfterMs?: number;
+  /** Set when the video is a job resumed from an earlier page session. */
+  resumed?: boolean;
+  /** Every video generated by the request; `url` is the one being shown. */
+  urls?: string[];
+  /** The template that produced the result, where one was used. */
+  promptTemplate?: PromptProvenance | null;
 }
 
 interface VideoConfig {
   imageIndex: number;
   prompt: string;
+  options: VideoOptions;
 }
 
+/** 'classic' draws the captions locally; 'stylized' asks the image model to draw the line. */
+type MemeMode = 'classic' | 'stylized';
+
 interface MemeConfig {
   imageIndex: number;
+  /** The bottom caption: a preset line in the chosen script, or the user's own text. */
   scenario: string;
+  /** Optional text for the top of a classic meme. */
+  topText: string;
+  mode: MemeMode;
+  script: MemeScript;
+  /** One of the `MEME_FONTS` ids. */
+  fontId: string;
 }
 
 // Enhanced Constants - UPGRADED SCENARIOS
-const IMAGE_COUNT = 5;
-const STYLES = ["Variation 1", "Variation 2", "Variation 3", "Variation 4", "Variation 5"] as const;
+const IMAGE_COUNT = DEFAULT_SCENARIO_COUNT;
+// Placeholder labels until the generated scenarios' own titles arrive.
+const STYLES = Array.from({ length: IMAGE_COUNT }, (_, i) => `Variation ${i + 1}`);
 
 // UPGRADED: Top Bollywood Meme Scenarios - Most Iconic Dialogues
-const BOLLYWOOD_MEME_SCENARIOS = [
-  "Mogambo khush hua!",
-  "Kitne aadmi the?",
-  "Rishte mein to hum tumhare baap lagte hain... Naam hai Shahenshah!",
-  "Pushpa, I hate tears...",
-  "Don ko pakadna mushkil hi nahi... namumkin hai!",
-  "Aata majhi satakli!",
-  "Bade bade deshon mein aisi choti choti baatein hoti rehti hai...",
-  "Mere paas maa hai!",
-  "Palat... Palat... Palat!",
-  "Thappad se darr nahi lagta sahab... pyaar se lagta hai!",
-  "Apun ka naam Hera Pheri!",
-  "Kya aapke toothpaste mein namak hai?",
-  "All izz well!",
-  "Zindagi badi honi chahiye... lambi nahi!",
-  "Picture abhi baaki hai mere dost!",
-  "Bhaiyya... main aapka fan hoon!",
-  "Itna sannata kyun hai bhai?",
-  "Yeh dosti hum nahi todenge!",
-  "Khamosh!",
-  "Jaa Simran jaa... jee le apni zindagi!",
-  "Mere khwabon mein aana mat!",
-  "Tension lene ka nahi... dene ka!",
-  "Mumbai ka king kaun? Bhai!"
-];
+const BOLLYWOOD_MEME_SCENARIOS = BUILTIN_MEME_LIBRARY.filter(entry => entry.kind === 'line').map(entry => entry.text);
 
 // Enhanced Video Prompts
-const VIDEO_PROMPTS = [
-  "a subtle, confident smirk turning into a mysterious smile.",
-  "a slow dramatic turn towards camera with intense eye contact.",
-  "a thoughtful gaze breaking into genuine laughter.",
-  "eyes slowly closing and opening with renewed focus.",
-  "a slight head tilt with playful eyebrow raise.",
-  "a dramatic hair flip with cinematic slow motion.",
-  "a pensive look turning into determined expression.",
-  "a soft smile gradually building into full laughter.",
-  "a mysterious glance over the shoulder.",
-  "a cinematic slow-motion walk towards camera."
-];
+const VIDEO_PROMPTS = BUILTIN_MEME_LIBRARY.filter(entry => entry.kind === 'video-prompt').map(entry => entry.text);
 
 const VIDEO_LOADING_MESSAGES = [
   "Warming up the cameras...",
@@ -102,35 +113,43 @@ const useImageAnalysis = () => {
   const [personDescription, setPersonDescription] = useState('');
   const [objectDescription, setObjectDescription] = useState('');
   const [styleDescription, setStyleDescription] = useState('');
+  const [analysisPrompts, setAnalysisPrompts] = useState<PromptProvenance[]>([]);
+
+  const analyzeImages = async (personImages: string[], productImages: string[], styleImages: string[], options: CallOptions = {}) => {
+    const personPrompt = renderPrompt('analysis.person');
+    const objectPrompt = renderPrompt('analysis.object');
+    const stylePrompt = renderPrompt('analysis.style');
 
-  const analyzeImages = async (personImages: string[], productImages: string[], styleImages: string[]) => {
     const [personDesc, objectDesc, styleDesc] = await Promise.all([
-      analyzeImageContent(personImages, "Describe the person in this portrait, including their key features, clothing, and expression."),
-      analyzeImageContent(productImages, "Describe the primary object in this image, including its color, shape, and type."),
-      analyzeImageContent(styleImages, "Describe the artistic style of this image, including its mood, lighting, color palette, and composition.")
+      analyzeImageContent(personImages, personPrompt.text, options),
+      analyzeImageContent(productImages, objectPrompt.text, options),
+      analyzeImageContent(styleImages, stylePrompt.text, options)
     ]);
     
     setPersonDescription(personDesc);
     setObjectDescription(objectDesc);
     setStyleDescription(styleDesc);
+    setAnalysisPrompts([personPrompt.provenance, objectPrompt.provenance, stylePrompt.provenance]);
     
     return { personDesc, objectDesc, styleDesc };
   };
 
-  return { personDescription, objectDescription, styleDescription, analyzeImages };
+  return { personDescription, objectDescription, styleDescription, analysisPrompts, analyzeImages };
 };
 
 const useMediaGeneration = () => {
   const [isPending, startTransition] = useTransition();
 
-  const generateMedia = async <T,>(
-    generator: () => Promise<T>,
+  // Starts a generation and returns a function that cancels it.
+  const generateMedia = <T,>(
+    generator: (signal: AbortSignal) => Promise<T>,
     onSuccess: (result: T) => void,
     onError: (error: Error) => void
-  ) => {
+  ): (() => void) => {
+    const controller = new AbortController();
     startTransition(async () => {
       try {
-        const result = await generator();
+        const result = await generator(controller.signal);
         onSuccess(result);
       } catch (error) {
         // Ensure we always pass an Error object
@@ -138,6 +157,7 @@ const useMediaGeneration = () => {
         onError(safeError);
       }
     });
+    return () => controller.abort();
   };
 
   return { generateMedia, isPending };
@@ -154,31 +174,14 @@ const ImageUploadBox: React.FC<{
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(event.target.files || []);
+    const files = Array.from<File>(event.target.files || []);
     if (files.length === 0) return;
     
-    const newImageUrls: string[] = [];
-    let filesProcessed = 0;
-
-    files.forEach((file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            if (typeof reader.result === 'string') {
-                newImageUrls.push(reader.result);
-            }
-            filesProcessed++;
-            if (filesProcessed === files.length) {
-                onImagesChange([...uploadedImages, ...newImageUrls]);
-            }
-        };
-        reader.onerror = () => {
-            console.error(`Failed to read file: ${file.name}`);
-            filesProcessed++;
-             if (filesProcessed === files.length) {
-                onImagesChange([...uploadedImages, ...newImageUrls]);
-            }
+    // Orient, downscale and strip metadata (e.g. GPS) before the images are kept or uploaded.
+    preprocessUploads(files).then(newImageUrls => {
+        if (newImageUrls.length > 0) {
+            onImagesChange([...uploadedImages, ...newImageUrls]);
         }
-        reader.readAsDataURL(file);
     });
     
     if(event.target) {
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { clearResultCache, getResultCacheStats } from '../services/geminiService';
+import type { ResultCacheStats } from '../services/geminiService';
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Shows what the result cache holds and lets the user empty it.
+ */
+const CacheSettings: React.FC = () => {
+    const [stats, setStats] = useState<ResultCacheStats | null>(null);
+    const [isClearing, setIsClearing] = useState(false);
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        getResultCacheStats().then(setStats);
+    }, []);
+
+    const handleClear = async () => {
+        setIsClearing(true);
+        try {
+            await clearResultCache();
+            setStats({ entries: 0, bytes: 0 });
+            setMessage('Cache cleared. The next run will call the model again.');
+        } catch (error) {
+            console.error("Failed to clear the result cache:", error);
+            setMessage('Could not clear the cache. Please try again.');
+        } finally {
+            setIsClearing(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <p className="text-sm text-muted">
+                Image descriptions and scene ideas are saved in this browser, keyed by your images and the exact prompt.
+                Running again with the same inputs reuses them instead of calling the model.
+            </p>
+            <div className="text-sm text-text">
+                {stats
+                    ? `${stats.entries} cached result${stats.entries === 1 ? '' : 's'} (${formatBytes(stats.bytes)})`
+                    : 'Reading cache...'}
+            </div>
+            {message && <p className="text-xs text-accent-2">{message}</p>}
+            <div className="flex justify-end">
+                <button
+                    onClick={handleClear}
+                    disabled={isClearing || stats?.entries === 0}
+                    className="font-heading text-sm font-semibold text-center py-2 px-4 rounded transition-all duration-200 text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isClearing ? 'Clearing...' : 'Clear Cache'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default CacheSettings;
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { API_ERROR_KINDS, API_KEY_HELP_URL } from '../services/errors';
+import type { ApiErrorKind } from '../services/errors';
+
+type ErrorDisplayVariant = 'polaroid' | 'thumbnail' | 'card';
+
+interface ErrorDisplayProps {
+    kind?: ApiErrorKind;
+    message?: string;
+    retryAfterMs?: number;
+    onRetry?: () => void;
+    /** Picks sizing and colours to match the surface the error is shown on. */
+    variant: ErrorDisplayVariant;
+}
+
+const VARIANT_CLASSES: Record<ErrorDisplayVariant, { container: string; icon: string; title: string; message: string; button: string; link: string }> = {
+    polaroid: {
+        container: "flex flex-col items-center justify-center h-full text-center p-4 gap-2",
+        icon: "h-10 w-10 text-red-400",
+        title: "text-sm font-bold text-neutral-700",
+        message: "text-xs text-neutral-500 line-clamp-4 break-words",
+        button: "text-xs bg-neutral-600 text-white rounded px-3 py-1 hover:bg-neutral-700 transition-colors disabled:opacity-50",
+        link: "text-xs bg-blue-500 text-white rounded px-3 py-1 hover:bg-blue-600 transition-colors",
+    },
+    thumbnail: {
+        container: "flex flex-col items-center justify-center h-full text-center p-2 gap-2 bg-surface rounded-lg",
+        icon: "h-8 w-8 text-red-400",
+        title: "text-xs font-bold text-muted",
+        message: "text-[10px] text-muted line-clamp-3 break-words",
+        button: "text-xs bg-muted text-background rounded px-2 py-0.5 hover:opacity-80 transition-opacity disabled:opacity-50",
+        link: "text-xs bg-accent text-white rounded px-2 py-0.5 hover:opacity-80 transition-opacity",
+    },
+    card: {
+        container: "flex flex-col items-center justify-center gap-4",
+        icon: "h-10 w-10 text-red-400",
+        title: "font-heading font-semibold text-text",
+        message: "text-sm text-red-300 max-w-xs",
+        button: "font-heading font-semibold text-lg text-center text-black bg-accent-2 py-2 px-6 rounded shadow transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed",
+        link: "font-heading font-semibold text-lg text-center bg-blue-500 hover:bg-blue-400 text-white py-2 px-6 rounded shadow",
+    },
+};
+
+/**
+ * Counts down the seconds left until `retryAfterMs` has elapsed since the error was shown.
+ */
+const useRetryCountdown = (retryAfterMs: number | undefined, active: boolean) => {
+    const [secondsLeft, setSecondsLeft] = useState(0);
+
+    useEffect(() => {
+        if (!active || !retryAfterMs) {
+            setSecondsLeft(0);
+            return;
+        }
+        const readyAt = Date.now() + retryAfterMs;
+        const update = () => setSecondsLeft(Math.max(0, Math.ceil((readyAt - Date.now()) / 1000)));
+        update();
+        const interval = setInterval(update, 1000);
+        return () => clearInterval(interval);
+    }, [retryAfterMs, active]);
+
+    return secondsLeft;
+};
+
+/**
+ * Shows a failed generation with a recovery action suited to the kind of error:
+ * a retry button, a countdown for quota limits, or a link to fix the API key.
+ */
+const ErrorDisplay: React.FC<ErrorDisplayProps> = ({ kind = 'unknown', message, retryAfterMs, onRetry, variant }) => {
+    const info = API_ERROR_KINDS[kind];
+    const classes = VARIANT_CLASSES[variant];
+    const secondsLeft = useRetryCountdown(retryAfterMs, info.action === 'wait');
+    const canRetry = onRetry && (info.action === 'retry' || info.action === 'wait');
+
+    return (
+        <div className={classes.container}>
+            <svg xmlns="http://www.w3.org/2000/svg" className={classes.icon} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={variant === 'thumbnail' ? 1.5 : 2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className={classes.title}>{info.title}</p>
+            {/* Small surfaces clamp the text; the full message is in the tooltip. */}
+            <p className={classes.message} title={message || info.message}>{message || info.message}</p>
+            {canRetry && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); onRetry(); }}
+                    className={classes.button}
+                    disabled={secondsLeft > 0}
+                >
+                    {secondsLeft > 0 ? `Retry in ${secondsLeft}s` : 'Retry'}
+                </button>
+            )}
+            {(kind === 'quota' || kind === 'auth') && (
+                <a
+                    href={API_KEY_HELP_URL}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className={classes.link}
+                >
+                    {kind === 'quota' ? 'Check Quota' : 'Check API Key'}
+                </a>
+            )}
+        </div>
+    );
+};
+
+export default ErrorDisplay;
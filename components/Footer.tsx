@@ -4,6 +4,7 @@
 */
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import SettingsModal from './SettingsModal';
 
 // Enhanced remix ideas with more creative prompts
 const REMIX_IDEAS = [
@@ -127,6 +128,7 @@ const Footer = () => {
     const [index, setIndex] = useState(0);
     const [isVisible, setIsVisible] = useState(true);
     const [lastScrollY, setLastScrollY] = useState(0);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
     // Handle scroll to hide/show footer
     useEffect(() => {
@@ -164,6 +166,17 @@ const Footer = () => {
                 {/* Left Side - Theme & Creator */}
                 <div className="flex items-center gap-4 text-muted whitespace-nowrap order-2 sm:order-1">
                     <ThemeSwitcher />
+
+                    <motion.button
+                        onClick={() => setIsSettingsOpen(true)}
+                        className="text-sm text-text bg-glass border border-glass-border px-3 py-1.5 rounded-full transition-all duration-300 hover:bg-surface/80 shadow-sm backdrop-blur-sm"
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                        aria-label="Open settings"
+                    >
+                        <span className="text-xs">⚙️</span>
+                        <span className="hidden sm:inline ml-2">Settings</span>
+                    </motion.button>
                     
                     <motion.div 
                         className="hidden md:flex items-center gap-3"
@@ -285,6 +298,8 @@ const Footer = () => {
                     </a>
                 </div>
             </motion.div>
+
+            {isSettingsOpen && <SettingsModal onClose={() => setIsSettingsOpen(false)} />}
         </motion.footer>
     );
 };
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { DEFAULT_IDENTITY_CHECK_SETTINGS, MAX_IDENTITY_RETRIES, getIdentityCheckSettings, setIdentityCheckSettings } from '../services/geminiService';
+import type { IdentityCheckSettings } from '../services/geminiService';
+
+/**
+ * Turns the identity check on or off and sets how strict it is and how often it may retry.
+ * Changes apply to the next generation.
+ */
+const IdentitySettings: React.FC = () => {
+    const [settings, setSettings] = useState<IdentityCheckSettings>(getIdentityCheckSettings);
+    const [message, setMessage] = useState('');
+
+    const update = (changes: Partial<IdentityCheckSettings>) => {
+        const next = { ...settings, ...changes };
+        setSettings(next);
+        setIdentityCheckSettings(next);
+        setMessage('Saved. The next generation uses these settings.');
+    };
+
+    const handleReset = () => {
+        setSettings(DEFAULT_IDENTITY_CHECK_SETTINGS);
+        setIdentityCheckSettings(DEFAULT_IDENTITY_CHECK_SETTINGS);
+        setMessage('Restored the default identity check settings.');
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <p className="text-sm text-muted">
+                After each portrait is generated, the vision model compares it with your person photos and scores the likeness.
+                Portraits scoring below the threshold are regenerated, up to the retry limit, and the best-scoring one is kept.
+                Each check and retry is an extra model request.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-text">
+                <input
+                    type="checkbox"
+                    checked={settings.enabled}
+                    onChange={(e) => update({ enabled: e.target.checked })}
+                />
+                Check that portraits still look like the person
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+                <label className="flex flex-col text-xs text-muted gap-1">
+                    Minimum likeness: {Math.round(settings.threshold * 100)}
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={Math.round(settings.threshold * 100)}
+                        onChange={(e) => update({ threshold: Number(e.target.value) / 100 })}
+                        disabled={!settings.enabled}
+                    />
+                </label>
+                <label className="flex flex-col text-xs text-muted gap-1">
+                    Retries per portrait
+                    <select
+                        value={settings.maxRetries}
+                        onChange={(e) => update({ maxRetries: Number(e.target.value) })}
+                        disabled={!settings.enabled}
+                        className="bg-surface border border-glass-border rounded p-1 text-sm text-text focus:ring-accent-2 focus:border-accent-2"
+                    >
+                        {Array.from({ length: MAX_IDENTITY_RETRIES + 1 }, (_, i) => i).map(count =>
+                            <option key={count} value={count}>{count}</option>)}
+                    </select>
+                </label>
+            </div>
+            {message && <p className="text-xs text-accent-2">{message}</p>}
+            <div className="flex justify-end">
+                <button
+                    onClick={handleReset}
+                    className="font-heading text-sm font-semibold text-center py-2 px-4 rounded transition-all duration-200 text-text bg-glass border border-glass-border hover:bg-surface"
+                >
+                    Reset
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default IdentitySettings;
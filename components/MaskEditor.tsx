@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef } from 'react';
+
+interface MaskEditorProps {
+    imageUrl: string;
+    alt: string;
+    /** Applies the edit; rejects with an error whose message is shown in the editor. */
+    onApply: (maskDataUrl: string, instruction: string) => Promise<void>;
+    onClose: () => void;
+}
+
+const MIN_BRUSH = 8;
+const MAX_BRUSH = 96;
+
+/**
+ * Lets the user paint a mask over a region of an image and describe how to change it.
+ * The mask is drawn at the image's full resolution, white over the painted region.
+ */
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, alt, onApply, onClose }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPoint = useRef<{ x: number; y: number } | null>(null);
+    const [brushSize, setBrushSize] = useState(32);
+    const [instruction, setInstruction] = useState('');
+    const [hasPaint, setHasPaint] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+    const [error, setError] = useState('');
+
+    // Matches the canvas to the image's natural size so the mask lines up pixel for pixel.
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        canvas.width = e.currentTarget.naturalWidth;
+        canvas.height = e.currentTarget.naturalHeight;
+        setHasPaint(false);
+    };
+
+    // Converts a pointer position to canvas pixels, along with the brush width in canvas pixels.
+    const toCanvas = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        const scale = canvas.width / rect.width;
+        return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, width: brushSize * scale };
+    };
+
+    const paintTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = e.currentTarget.getContext('2d');
+        if (!ctx) return;
+        const { x, y, width } = toCanvas(e);
+        const from = lastPoint.current ?? { x, y };
+        ctx.strokeStyle = '#fff';
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = width;
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(x, y);
+        ctx.stroke();
+        lastPoint.current = { x, y };
+        setHasPaint(true);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (isApplying) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPoint.current = null;
+        paintTo(e);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) paintTo(e);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        lastPoint.current = null;
+    };
+
+    const handleClear = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasPaint(false);
+    };
+
+    const handleApply = async () => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        // The painted strokes are white on transparent; the mask is white on black.
+        const mask = document.createElement('canvas');
+        mask.width = canvas.width;
+        mask.height = canvas.height;
+        const ctx = mask.getContext('2d');
+        if (!ctx) return;
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, mask.width, mask.height);
+        ctx.drawImage(canvas, 0, 0);
+
+        setIsApplying(true);
+        setError('');
+        try {
+            await onApply(mask.toDataURL('image/png'), instruction.trim());
+            handleClear();
+            setInstruction('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    const secondaryButtonClasses = "px-4 py-2 rounded bg-white/20 text-sm font-bold hover:bg-white/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+        // Touches are kept from the lightbox, which would otherwise treat a brush stroke as a swipe.
+        <div
+            className="flex flex-col items-center gap-3 text-white"
+            onTouchStart={(e) => e.stopPropagation()}
+            onTouchEnd={(e) => e.stopPropagation()}
+        >
+            <div className="relative">
+                <img
+                    src={imageUrl}
+                    alt={alt}
+                    onLoad={handleImageLoad}
+                    className="max-h-[65vh] w-auto max-w-full rounded shadow-lg object-contain select-none"
+                    draggable={false}
+                />
+                <canvas
+                    ref={canvasRef}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    className={`absolute inset-0 w-full h-full rounded opacity-50 touch-none ${isApplying ? 'cursor-wait' : 'cursor-crosshair'}`}
+                    aria-label="Paint over the region to change"
+                />
+                {isApplying && (
+                    <div className="absolute inset-0 flex items-center justify-center bg-black/40 rounded">
+                        <svg className="animate-spin h-8 w-8 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                        </svg>
+                    </div>
+                )}
+            </div>
+
+            <div className="w-full max-w-lg flex flex-col gap-2">
+                <div className="flex items-center gap-3 text-sm">
+                    <label htmlFor="mask-brush-size" className="text-white/70 whitespace-nowrap">Brush</label>
+                    <input
+                        id="mask-brush-size"
+                        type="range"
+                        min={MIN_BRUSH}
+                        max={MAX_BRUSH}
+                        value={brushSize}
+                        onChange={(e) => setBrushSize(Number(e.target.value))}
+                        className="flex-1"
+                    />
+                    <button onClick={handleClear} disabled={!hasPaint || isApplying} className={secondaryButtonClasses}>
+                        Clear
+                    </button>
+                </div>
+                <input
+                    type="text"
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && hasPaint && instruction.trim() && !isApplying) handleApply(); }}
+                    placeholder="Describe the change, e.g. 'make the jacket red leather'"
+                    aria-label="Edit instruction"
+                    disabled={isApplying}
+                    className="bg-surface border border-glass-border rounded p-2 w-full text-sm text-text focus:ring-accent-2 focus:border-accent-2"
+                />
+                {error && <p className="text-xs text-red-300">{error}</p>}
+                <div className="flex justify-center gap-2">
+                    <button
+                        onClick={handleApply}
+                        disabled={!hasPaint || !instruction.trim() || isApplying}
+                        className="px-4 py-2 rounded bg-accent-2 text-black text-sm font-bold hover:brightness-110 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isApplying ? 'Applying...' : 'Apply Edit'}
+                    </button>
+                    <button onClick={onClose} disabled={isApplying} className={secondaryButtonClasses}>
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MaskEditor;
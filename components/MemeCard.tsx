@@ -2,28 +2,57 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useState } from 'react';
+import ErrorDisplay from './ErrorDisplay';
+import type { ApiErrorKind } from '../services/errors';
+import { containsDevanagari, findMemeLine, memeLineIn } from '../lib/memeLibrary';
+import type { MemeScript } from '../lib/memeLibrary';
+import { getMemeFont, MEME_FONTS } from '../lib/memeRenderer';
+import ToggleGroup from './ToggleGroup';
+import MemeLibraryPicker from './MemeLibraryPicker';
 
 interface MemeState {
     status: 'idle' | 'pending' | 'done' | 'error';
     url?: string;
     error?: string;
-    isQuotaError?: boolean;
+    errorKind?: ApiErrorKind;
+    retryAfterMs?: number;
 }
 
+/** 'classic' draws the captions locally; 'stylized' asks the image model to draw the line. */
+type MemeMode = 'classic' | 'stylized';
+
 interface MemeConfig {
     imageIndex: number;
+    /** The bottom caption: a preset line in the chosen script, or the user's own text. */
     scenario: string;
+    /** Optional text for the top of a classic meme. */
+    topText: string;
+    mode: MemeMode;
+    /** The script preset lines are shown and drawn in. */
+    script: MemeScript;
+    /** One of the `MEME_FONTS` ids; classic mode only. */
+    fontId: string;
 }
 
+const MODES: { value: MemeMode; label: string; hint: string }[] = [
+    { value: 'classic', label: 'Classic', hint: 'Exact text drawn on your portrait, instantly and for free.' },
+    { value: 'stylized', label: 'Stylized (AI)', hint: 'The image model letters the line itself. Slower, uses a model call, may alter the image, and is less reliable with Devanagari.' },
+];
+
+const SCRIPTS: { value: MemeScript; label: string }[] = [
+    { value: 'roman', label: 'Roman' },
+    { value: 'devanagari', label: 'देवनागरी' },
+];
+
 interface MemeCardProps {
     memeState: MemeState;
     memeConfig: MemeConfig;
     onConfigChange: (config: MemeConfig) => void;
     onGenerate: () => void;
+    onCancel?: () => void;
     onDownload: () => void;
     imageOptions: { value: number; label: string }[];
-    scenarioOptions: string[];
 }
 
 const MemeCard: React.FC<MemeCardProps> = ({
@@ -31,10 +60,11 @@ const MemeCard: React.FC<MemeCardProps> = ({
     memeConfig,
     onConfigChange,
     onGenerate,
+    onCancel,
     onDownload,
     imageOptions,
-    scenarioOptions,
 }) => {
+    const [isPickerOpen, setIsPickerOpen] = useState(false);
 
     const handleDownloadClick = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -55,6 +85,11 @@ const MemeCard: React.FC<MemeCardProps> = ({
                             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                         </svg>
                          <p className="text-muted text-sm">Mixing in the masala...</p>
+                        {onCancel && (
+                            <button onClick={onCancel} className="text-sm text-muted underline hover:text-text transition-colors">
+                                Cancel
+                            </button>
+                        )}
                     </div>
                 );
             case 'done':
@@ -77,31 +112,24 @@ const MemeCard: React.FC<MemeCardProps> = ({
                     </>
                 );
             case 'error':
-                 return (
-                    <div className="flex flex-col items-center justify-center gap-4">
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                        <p className="text-sm text-red-300 max-w-xs">{memeState.error || 'An unknown error occurred.'}</p>
-                        {memeState.isQuotaError ? (
-                             <a
-                                href="https://aistudio.google.com/app/apikey"
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className={`${buttonClasses} bg-blue-500 hover:bg-blue-400 !text-white`}
-                            >
-                                Check API Key / Quota
-                            </a>
-                        ) : (
-                            <button onClick={onGenerate} className={buttonClasses}>Retry</button>
-                        )}
-                    </div>
+                return (
+                    <ErrorDisplay
+                        variant="card"
+                        kind={memeState.errorKind}
+                        message={memeState.error}
+                        retryAfterMs={memeState.retryAfterMs}
+                        onRetry={onGenerate}
+                    />
                 );
             case 'idle':
-            default:
+            default: {
+                const libraryLine = findMemeLine(memeConfig.scenario);
+                const isClassic = memeConfig.mode === 'classic';
+                const font = getMemeFont(memeConfig.fontId);
+                const needsFallback = isClassic && !font.devanagari && containsDevanagari(`${memeConfig.topText} ${memeConfig.scenario}`);
                 return (
-                    <div className="w-full max-w-sm flex flex-col gap-4">
-                        <div className="flex flex-col gap-4">
+                    <div className="w-full max-w-sm max-h-full overflow-y-auto flex flex-col gap-3">
+                        <div className="flex flex-col gap-3">
                              <div>
                                 <label htmlFor="meme-image-select" className="block text-xs text-muted mb-1">Image to Meme</label>
                                 <select
@@ -118,29 +146,92 @@ const MemeCard: React.FC<MemeCardProps> = ({
                                     )}
                                 </select>
                             </div>
+                            <ToggleGroup
+                                label="Script"
+                                options={SCRIPTS}
+                                value={memeConfig.script}
+                                onChange={(script) => onConfigChange({ ...memeConfig, script, scenario: memeLineIn(memeConfig.scenario, script) })}
+                            />
                             <div>
-                                <label htmlFor="meme-scenario-select" className="block text-xs text-muted mb-1">Bollywood Line</label>
-                                <select
-                                    id="meme-scenario-select"
+                                <button onClick={() => setIsPickerOpen(true)} className={`${selectClasses} text-left text-muted hover:text-text transition-colors`}>
+                                    Browse Bollywood lines...
+                                </button>
+                                {libraryLine && (libraryLine.film || libraryLine.speaker) && (
+                                    <p className="text-xs text-muted mt-1 text-left">{[libraryLine.film, libraryLine.speaker].filter(Boolean).join(' · ')}</p>
+                                )}
+                            </div>
+                            {isClassic && (
+                                <div>
+                                    <label htmlFor="meme-top-text" className="block text-xs text-muted mb-1">Top Text (optional)</label>
+                                    <input
+                                        id="meme-top-text"
+                                        type="text"
+                                        value={memeConfig.topText}
+                                        onChange={(e) => onConfigChange({ ...memeConfig, topText: e.target.value })}
+                                        placeholder="e.g. When the boss says Monday"
+                                        className={selectClasses}
+                                    />
+                                </div>
+                            )}
+                            <div>
+                                <label htmlFor="meme-bottom-text" className="block text-xs text-muted mb-1">{isClassic ? 'Bottom Text' : 'Caption'}</label>
+                                <input
+                                    id="meme-bottom-text"
+                                    type="text"
                                     value={memeConfig.scenario}
                                     onChange={(e) => onConfigChange({ ...memeConfig, scenario: e.target.value })}
+                                    placeholder="Pick a line above or type your own"
                                     className={selectClasses}
-                                >
-                                    {scenarioOptions.map(opt => <option key={opt} value={opt}>{opt.length > 30 ? opt.slice(0, 27) + "..." : opt}</option>)}
-                                </select>
+                                />
+                            </div>
+                            {isClassic && (
+                                <div>
+                                    <label htmlFor="meme-font-select" className="block text-xs text-muted mb-1">Font</label>
+                                    <select
+                                        id="meme-font-select"
+                                        value={font.id}
+                                        onChange={(e) => onConfigChange({ ...memeConfig, fontId: e.target.value })}
+                                        className={selectClasses}
+                                    >
+                                        {MEME_FONTS.map(option => (
+                                            <option key={option.id} value={option.id}>
+                                                {option.devanagari ? `${option.label} · हिन्दी` : option.label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    {needsFallback && (
+                                        <p className="text-xs text-muted mt-1 text-left">{font.label} has no Devanagari letters, so Hindi text is drawn in Noto Sans Devanagari.</p>
+                                    )}
+                                </div>
+                            )}
+                            <div className="text-left">
+                                <ToggleGroup label="Meme style" options={MODES} value={memeConfig.mode} onChange={(mode) => onConfigChange({ ...memeConfig, mode })} />
+                                <p className="text-xs text-muted mt-1">{MODES.find(mode => mode.value === memeConfig.mode)?.hint}</p>
                             </div>
                         </div>
-                        <button onClick={onGenerate} className={buttonClasses} disabled={imageOptions.length === 0}>
+                        <button onClick={onGenerate} className={buttonClasses} disabled={imageOptions.length === 0 || (!memeConfig.scenario.trim() && !(isClassic && memeConfig.topText.trim()))}>
                             Generate Meme
                         </button>
                     </div>
                 );
+            }
         }
     };
 
     return (
         <div className={commonClasses}>
             {renderContent()}
+            {isPickerOpen && (
+                <MemeLibraryPicker
+                    kind="line"
+                    script={memeConfig.script}
+                    onPick={(entry) => {
+                        onConfigChange({ ...memeConfig, scenario: memeLineIn(entry.text, memeConfig.script) });
+                        setIsPickerOpen(false);
+                    }}
+                    onClose={() => setIsPickerOpen(false)}
+                />
+            )}
         </div>
     );
 };
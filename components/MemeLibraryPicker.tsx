@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import {
+    addMemeEntry,
+    exportMemePack,
+    getMemeLibrary,
+    importMemePack,
+    memeLibraryTags,
+    removeMemeEntry,
+    searchMemeLibrary,
+} from '../lib/memeLibrary';
+import type { MemeLibraryEntry, MemeLibraryKind, MemeScript } from '../lib/memeLibrary';
+
+interface MemeLibraryPickerProps {
+    kind: MemeLibraryKind;
+    /** The script lines are listed in; ignored for video prompts. */
+    script?: MemeScript;
+    onPick: (entry: MemeLibraryEntry) => void;
+    onClose: () => void;
+}
+
+const EMPTY_DRAFT = { text: '', devanagari: '', film: '', speaker: '', language: '', tags: '' };
+
+const TITLES: Record<MemeLibraryKind, string> = {
+    'line': "Meme Lines",
+    'video-prompt': "Video Actions",
+};
+
+/**
+ * Browses the meme library: search, filter by tag, add your own entries and share them as packs.
+ */
+const MemeLibraryPicker: React.FC<MemeLibraryPickerProps> = ({ kind, script = 'roman', onPick, onClose }) => {
+    const backdropRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [entries, setEntries] = useState(() => getMemeLibrary(kind));
+    const [query, setQuery] = useState('');
+    const [tag, setTag] = useState<string | undefined>();
+    const [isAdding, setIsAdding] = useState(false);
+    const [draft, setDraft] = useState(EMPTY_DRAFT);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+
+    const tags = useMemo(() => memeLibraryTags(entries), [entries]);
+    const results = useMemo(() => searchMemeLibrary(entries, query, tag), [entries, query, tag]);
+
+    const reload = () => setEntries(getMemeLibrary(kind));
+
+    const report = (text: string, isError = false) => {
+        setMessage(isError ? '' : text);
+        setError(isError ? text : '');
+    };
+
+    const handleAdd = () => {
+        try {
+            const entry = addMemeEntry({
+                kind,
+                text: draft.text,
+                devanagari: draft.devanagari,
+                film: draft.film,
+                speaker: draft.speaker,
+                language: draft.language || (kind === 'video-prompt' ? 'en' : 'hi'),
+                tags: draft.tags.split(','),
+            });
+            reload();
+            setDraft(EMPTY_DRAFT);
+            setIsAdding(false);
+            report(`Added "${entry.text}".`);
+        } catch (err) {
+            report(err instanceof Error ? err.message : String(err), true);
+        }
+    };
+
+    const handleRemove = (entry: MemeLibraryEntry) => {
+        removeMemeEntry(entry.id);
+        reload();
+        report(`Removed "${entry.text}".`);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const { name, added, skipped } = importMemePack(await file.text());
+            reload();
+            report(`Imported ${added} entr${added === 1 ? 'y' : 'ies'} from "${name}"${skipped > 0 ? `; ${skipped} already in the library` : ''}.`);
+        } catch (err) {
+            report(err instanceof Error ? err.message : String(err), true);
+        }
+    };
+
+    // Exports the user's own entries of every kind, so a pack can mix lines and video actions.
+    const handleExport = () => {
+        const blob = new Blob([exportMemePack("My meme pack", getMemeLibrary().filter(entry => entry.source === 'user'))], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `past-forward-meme-pack-${new Date().toISOString().slice(0, 10)}.json`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    };
+
+    const inputClasses = "bg-surface border border-glass-border rounded p-2 w-full text-sm text-text focus:ring-accent-2 focus:border-accent-2";
+    const buttonClasses = "font-heading text-sm font-semibold text-center py-2 px-4 rounded transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed";
+    const secondaryButtonClasses = `${buttonClasses} text-text bg-glass border border-glass-border hover:bg-surface`;
+
+    // Portalled so the card's transforms don't become the containing block for `fixed`.
+    return createPortal(
+        <div
+            ref={backdropRef}
+            className="fixed inset-0 z-[70] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            role="dialog"
+            aria-modal="true"
+            aria-label={TITLES[kind]}
+            onClick={(e) => { if (e.target === backdropRef.current) onClose(); }}
+        >
+            <div className="glass-card w-full max-w-2xl max-h-[90vh] flex flex-col bg-surface text-text">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-heading text-accent-2">{TITLES[kind]}</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-full text-muted hover:text-text hover:bg-surface/50 transition-colors"
+                        aria-label="Close"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search by words, film, speaker or tag"
+                    className={inputClasses}
+                    autoFocus
+                />
+                {tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2" role="group" aria-label="Filter by tag">
+                        {tags.map(name => (
+                            <button
+                                key={name}
+                                onClick={() => setTag(tag === name ? undefined : name)}
+                                aria-pressed={tag === name}
+                                className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+                                    tag === name ? 'bg-accent-2 text-black' : 'bg-glass text-muted hover:text-text'
+                                }`}
+                            >
+                                #{name}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <ul className="flex-1 min-h-[8rem] overflow-y-auto mt-3 divide-y divide-glass-border">
+                    {results.map(entry => (
+                        <li key={entry.id} className="flex items-start gap-2 py-2">
+                            <button onClick={() => onPick(entry)} className="flex-1 text-left rounded px-2 py-1 hover:bg-glass transition-colors">
+                                <span className="block text-sm text-text">
+                                    {script === 'devanagari' && entry.devanagari ? entry.devanagari : entry.text}
+                                </span>
+                                <span className="block text-xs text-muted">
+                                    {[entry.film, entry.speaker, entry.language.toUpperCase(), entry.pack && `from ${entry.pack}`].filter(Boolean).join(' · ')}
+                                    {entry.tags.length > 0 && ` · ${entry.tags.map(name => `#${name}`).join(' ')}`}
+                                </span>
+                            </button>
+                            {entry.source === 'user' && (
+                                <button
+                                    onClick={() => handleRemove(entry)}
+                                    className="text-xs text-muted underline hover:text-text transition-colors py-1"
+                                    aria-label={`Remove "${entry.text}"`}
+                                >
+                                    Remove
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                    {results.length === 0 && <li className="py-4 text-sm text-muted text-center">Nothing matches your search.</li>}
+                </ul>
+                {isAdding && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-3">
+                        <input value={draft.text} onChange={(e) => setDraft({ ...draft, text: e.target.value })} placeholder={kind === 'line' ? "Line (romanized)" : "Action"} className={`${inputClasses} sm:col-span-2`} />
+                        {kind === 'line' && (
+                            <>
+                                <input value={draft.devanagari} onChange={(e) => setDraft({ ...draft, devanagari: e.target.value })} placeholder="In Devanagari (optional)" className={`${inputClasses} sm:col-span-2`} />
+                                <input value={draft.film} onChange={(e) => setDraft({ ...draft, film: e.target.value })} placeholder="Film (optional)" className={inputClasses} />
+                                <input value={draft.speaker} onChange={(e) => setDraft({ ...draft, speaker: e.target.value })} placeholder="Speaker (optional)" className={inputClasses} />
+                            </>
+                        )}
+                        <input value={draft.language} onChange={(e) => setDraft({ ...draft, language: e.target.value })} placeholder={`Language code, e.g. ${kind === 'line' ? 'hi or te' : 'en'}`} className={inputClasses} />
+                        <input value={draft.tags} onChange={(e) => setDraft({ ...draft, tags: e.target.value })} placeholder="Tags, comma separated" className={inputClasses} />
+                    </div>
+                )}
+                {message && <p className="text-xs text-accent-2 mt-2">{message}</p>}
+                {error && <p className="text-xs text-red-400 mt-2" role="alert">{error}</p>}
+                <div className="flex flex-wrap justify-end gap-3 mt-3">
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                    <button onClick={() => fileInputRef.current?.click()} className={secondaryButtonClasses}>
+                        Import Pack
+                    </button>
+                    <button onClick={handleExport} disabled={getMemeLibrary().every(entry => entry.source === 'builtin')} className={secondaryButtonClasses}>
+                        Export My Entries
+                    </button>
+                    {isAdding ? (
+                        <>
+                            <button onClick={() => { setIsAdding(false); setDraft(EMPTY_DRAFT); }} className={secondaryButtonClasses}>
+                                Cancel
+                            </button>
+                            <button onClick={handleAdd} disabled={!draft.text.trim()} className={`${buttonClasses} text-black bg-accent-2 hover:bg-accent`}>
+                                Save Entry
+                            </button>
+                        </>
+                    ) : (
+                        <button onClick={() => setIsAdding(true)} className={`${buttonClasses} text-black bg-accent-2 hover:bg-accent`}>
+                            Add Your Own
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default MemeLibraryPicker;
@@ -3,6 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useRef, ChangeEvent } from 'react';
+import { preprocessUploads } from '../lib/imagePreprocessing';
 
 interface MultiImageUploadBoxProps {
     title: string;
@@ -15,23 +16,14 @@ const MultiImageUploadBox: React.FC<MultiImageUploadBoxProps> = ({ title, onImag
 
     const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
         if (e.target.files) {
-            const files = Array.from(e.target.files);
-            const newImageUrls: string[] = [];
-            let filesProcessed = 0;
-
+            const files = Array.from<File>(e.target.files);
             if (files.length === 0) return;
 
-            // FIX: Explicitly type 'file' as 'File' to resolve TypeScript inference error.
-            files.forEach((file: File) => {
-                const reader = new FileReader();
-                reader.onloadend = () => {
-                    newImageUrls.push(reader.result as string);
-                    filesProcessed++;
-                    if (filesProcessed === files.length) {
-                        onImagesChange([...uploadedImages, ...newImageUrls]);
-                    }
-                };
-                reader.readAsDataURL(file);
+            // Orient, downscale and strip metadata (e.g. GPS) before the images are kept or uploaded.
+            preprocessUploads(files).then(newImageUrls => {
+                if (newImageUrls.length > 0) {
+                    onImagesChange([...uploadedImages, ...newImageUrls]);
+                }
             });
             // Reset file input value to allow re-uploading the same file
             e.target.value = '';
@@ -5,6 +5,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { DraggableCardContainer, DraggableCardBody } from './ui/draggable-card';
 import { cn } from '../lib/utils';
+import ErrorDisplay from './ErrorDisplay';
+import type { ApiErrorKind } from '../services/errors';
 import type { PanInfo } from 'framer-motion';
 
 type ImageStatus = 'pending' | 'done' | 'error';
@@ -14,47 +16,29 @@ interface PolaroidCardProps {
     caption: string;
     status: ImageStatus;
     error?: string;
-    isQuotaError?: boolean;
+    errorKind?: ApiErrorKind;
+    retryAfterMs?: number;
     dragConstraintsRef?: React.RefObject<HTMLElement>;
     onShake?: () => void;
+    onCancel?: () => void;
     onDownload?: () => void;
     isMobile?: boolean;
 }
 
-const LoadingSpinner = () => (
-    <div className="flex items-center justify-center h-full">
+const LoadingSpinner = ({ onCancel }: { onCancel?: () => void }) => (
+    <div className="flex flex-col items-center justify-center h-full gap-3">
         <svg className="animate-spin h-8 w-8 text-neutral-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
         </svg>
-    </div>
-);
-
-const ErrorDisplay = ({ onRetry, isQuotaError }: { onRetry?: () => void, isQuotaError?: boolean }) => (
-    <div className="flex flex-col items-center justify-center h-full text-center p-4 gap-2">
-         <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-        </svg>
-        <p className="text-sm font-bold text-neutral-700">{isQuotaError ? "Quota Limit Reached" : "Generation Failed"}</p>
-        {!isQuotaError && onRetry && (
-            <button 
-                onClick={(e) => { e.stopPropagation(); onRetry(); }}
+        {onCancel && (
+            <button
+                onClick={(e) => { e.stopPropagation(); onCancel(); }}
                 className="text-xs bg-neutral-600 text-white rounded px-3 py-1 hover:bg-neutral-700 transition-colors"
             >
-                Retry
+                Cancel
             </button>
         )}
-        {isQuotaError && (
-             <a
-                href="https://aistudio.google.com/app/apikey"
-                target="_blank"
-                rel="noopener noreferrer"
-                onClick={(e) => e.stopPropagation()}
-                className="text-xs bg-blue-500 text-white rounded px-3 py-1 hover:bg-blue-600 transition-colors"
-            >
-                Check Quota
-            </a>
-        )}
     </div>
 );
 
@@ -69,7 +53,7 @@ const Placeholder = () => (
 );
 
 
-const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, isQuotaError, dragConstraintsRef, onShake, onDownload, isMobile }) => {
+const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, errorKind, retryAfterMs, dragConstraintsRef, onShake, onCancel, onDownload, isMobile }) => {
     const [isDeveloped, setIsDeveloped] = useState(false);
     const [isImageLoaded, setIsImageLoaded] = useState(false);
     const lastShakeTime = useRef(0);
@@ -129,8 +113,10 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
     const cardInnerContent = (
         <>
             <div className="w-full bg-neutral-900 shadow-inner flex-grow relative overflow-hidden group">
-                {status === 'pending' && <LoadingSpinner />}
-                {status === 'error' && <ErrorDisplay onRetry={onShake} isQuotaError={isQuotaError} />}
+                {status === 'pending' && <LoadingSpinner onCancel={onCancel} />}
+                {status === 'error' && (
+                    <ErrorDisplay variant="polaroid" kind={errorKind} message={error} retryAfterMs={retryAfterMs} onRetry={onShake} />
+                )}
                 {status === 'done' && imageUrl && (
                     <>
                         <div className="absolute top-2 right-2 z-20 flex flex-col gap-2">
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import {
+    PROMPT_TEMPLATES,
+    clearPromptOverride,
+    getPromptOverride,
+    setPromptOverride,
+    validatePromptOverride,
+} from '../services/promptTemplates';
+import type { PromptTemplateId } from '../services/promptTemplates';
+
+const TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
+
+/**
+ * Lets power users view and override the prompt templates sent to the models.
+ */
+const PromptSettings: React.FC = () => {
+    const [selectedId, setSelectedId] = useState<PromptTemplateId>(TEMPLATE_IDS[0]);
+    const [draft, setDraft] = useState('');
+    const [override, setOverride] = useState(() => getPromptOverride(TEMPLATE_IDS[0]));
+    const [savedMessage, setSavedMessage] = useState('');
+
+    const template = PROMPT_TEMPLATES[selectedId];
+    const problems = validatePromptOverride(selectedId, draft);
+    const isDirty = draft !== (override?.template ?? template.template);
+
+    useEffect(() => {
+        const current = getPromptOverride(selectedId);
+        setOverride(current);
+        setDraft(current?.template ?? PROMPT_TEMPLATES[selectedId].template);
+        setSavedMessage('');
+    }, [selectedId]);
+
+    const handleSave = () => {
+        setPromptOverride(selectedId, draft);
+        setOverride(getPromptOverride(selectedId));
+        setSavedMessage('Saved. New generations will use this template.');
+    };
+
+    const handleReset = () => {
+        clearPromptOverride(selectedId);
+        setOverride(undefined);
+        setDraft(template.template);
+        setSavedMessage('Restored the built-in template.');
+    };
+
+    const buttonClasses = "font-heading text-sm font-semibold text-center py-2 px-4 rounded transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div>
+                <label htmlFor="prompt-template-select" className="block text-xs text-muted mb-1">Template</label>
+                <select
+                    id="prompt-template-select"
+                    value={selectedId}
+                    onChange={(e) => setSelectedId(e.target.value as PromptTemplateId)}
+                    className="bg-surface border border-glass-border rounded p-2 w-full text-sm focus:ring-accent-2 focus:border-accent-2"
+                >
+                    {TEMPLATE_IDS.map(id => (
+                        <option key={id} value={id}>
+                            {PROMPT_TEMPLATES[id].label}{getPromptOverride(id) ? ' (custom)' : ''}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="text-xs text-muted flex flex-wrap gap-x-4 gap-y-1">
+                <span>{template.description}</span>
+                <span>
+                    {override
+                        ? `Custom #${override.revision}, based on built-in v${override.basedOnVersion}`
+                        : `Built-in v${template.version}`}
+                </span>
+            </div>
+            {override && override.basedOnVersion < template.version && (
+                <p className="text-xs text-amber-400">
+                    The built-in template has been updated to v{template.version} since you customised it.
+                </p>
+            )}
+
+            <textarea
+                value={draft}
+                onChange={(e) => { setDraft(e.target.value); setSavedMessage(''); }}
+                rows={12}
+                spellCheck={false}
+                className="w-full bg-surface border border-glass-border rounded p-3 font-mono text-xs text-text focus:ring-accent-2 focus:border-accent-2"
+                aria-label={`${template.label} template`}
+            />
+
+            {template.variables.length > 0 && (
+                <ul className="text-xs text-muted space-y-1">
+                    {template.variables.map(variable => (
+                        <li key={variable.name}>
+                            <code className="text-accent-2">{`{{${variable.name}}}`}</code> {variable.description}
+                            {variable.required ? ' (required)' : ''}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {problems.length > 0 && (
+                <ul className="text-xs text-red-400 space-y-1">
+                    {problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+            )}
+            {savedMessage && <p className="text-xs text-accent-2">{savedMessage}</p>}
+
+            <div className="flex justify-end gap-3">
+                <button
+                    onClick={handleReset}
+                    className={`${buttonClasses} text-text bg-glass border border-glass-border hover:bg-surface`}
+                    disabled={!override}
+                >
+                    Reset to Built-in
+                </button>
+                <button
+                    onClick={handleSave}
+                    className={`${buttonClasses} text-black bg-accent-2 hover:bg-accent`}
+                    disabled={!isDirty || problems.length > 0}
+                >
+                    Save Template
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default PromptSettings;
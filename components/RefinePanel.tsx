@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import type { ImageRefinement } from '../lib/imageVersions';
+
+interface RefinePanelProps {
+    /** The image shown in the gallery slot; the conversation starts from it. */
+    imageUrl: string;
+    alt: string;
+    refinement?: ImageRefinement;
+    /** Sends the next instruction; rejects with an error whose message is shown in the panel. */
+    onSend: (instruction: string) => Promise<void>;
+    /** Puts a step's image in the gallery slot. */
+    onPromote: (stepIndex: number) => void;
+    onClose: () => void;
+}
+
+/**
+ * A conversation about one portrait: each instruction refines the latest result, and every
+ * result stays on a timeline from which it can be put in the gallery.
+ */
+const RefinePanel: React.FC<RefinePanelProps> = ({ imageUrl, alt, refinement, onSend, onPromote, onClose }) => {
+    const steps = refinement?.steps ?? [];
+    // -1 is the image the conversation started from.
+    const [viewedStep, setViewedStep] = useState(steps.length - 1);
+    const [instruction, setInstruction] = useState('');
+    const [isSending, setIsSending] = useState(false);
+    const [error, setError] = useState('');
+    const historyRef = useRef<HTMLOListElement>(null);
+
+    // Shows each new result as soon as it arrives.
+    useEffect(() => {
+        setViewedStep(steps.length - 1);
+        historyRef.current?.scrollTo({ top: historyRef.current.scrollHeight });
+    }, [steps.length]);
+
+    const handleSend = async () => {
+        const trimmed = instruction.trim();
+        if (!trimmed || isSending) return;
+        setIsSending(true);
+        setError('');
+        try {
+            await onSend(trimmed);
+            setInstruction('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const baseUrl = refinement?.baseUrl ?? imageUrl;
+    const viewedUrl = viewedStep >= 0 ? steps[viewedStep].url : baseUrl;
+    const isInGallery = viewedUrl === imageUrl;
+    const secondaryButtonClasses = "px-4 py-2 rounded bg-white/20 text-sm font-bold hover:bg-white/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+        // Touches are kept from the lightbox, so scrolling the timeline does not switch images.
+        <div
+            className="flex flex-col md:flex-row items-center md:items-stretch gap-4 text-white w-full"
+            onTouchStart={(e) => e.stopPropagation()}
+            onTouchEnd={(e) => e.stopPropagation()}
+        >
+            <div className="flex flex-col items-center gap-3">
+                <div className="relative">
+                    <img
+                        src={viewedUrl}
+                        alt={viewedStep >= 0 ? `${alt}, refinement ${viewedStep + 1}` : alt}
+                        className="max-h-[60vh] w-auto max-w-full rounded shadow-lg object-contain"
+                        draggable={false}
+                    />
+                    {isSending && (
+                        <div className="absolute inset-0 flex items-center justify-center bg-black/40 rounded">
+                            <svg className="animate-spin h-8 w-8 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                            </svg>
+                        </div>
+                    )}
+                </div>
+
+                {/* Version timeline */}
+                <div className="flex gap-2 overflow-x-auto max-w-full pb-1" role="radiogroup" aria-label="Refinement timeline">
+                    {[baseUrl, ...steps.map(step => step.url)].map((url, i) => {
+                        const step = i - 1;
+                        const isViewed = step === viewedStep;
+                        return (
+                            <button
+                                key={i}
+                                onClick={() => setViewedStep(step)}
+                                role="radio"
+                                aria-checked={isViewed}
+                                title={step >= 0 ? steps[step].instruction : 'Where the conversation started'}
+                                className={`relative flex-none w-12 h-16 rounded overflow-hidden border-2 transition-all ${isViewed ? 'border-accent-2 scale-105' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                            >
+                                <img src={url} alt={step >= 0 ? `Refinement ${step + 1}` : 'Start'} className="w-full h-full object-cover" draggable={false} />
+                                <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[10px] font-bold">
+                                    {step >= 0 ? step + 1 : 'Start'}
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-3 w-full md:w-80">
+                <ol ref={historyRef} className="flex-1 min-h-[6rem] max-h-[40vh] overflow-y-auto flex flex-col gap-2 text-sm" aria-label="Refinement history">
+                    {steps.length === 0 && (
+                        <li className="text-white/60">
+                            Describe a change, like "warmer light" or "remove the hat". Each message builds on the latest result.
+                        </li>
+                    )}
+                    {steps.map((step, i) => (
+                        <li key={i}>
+                            <button
+                                onClick={() => setViewedStep(i)}
+                                className={`w-full text-left rounded px-3 py-2 transition-colors ${i === viewedStep ? 'bg-accent-2 text-black' : 'bg-white/10 hover:bg-white/20'}`}
+                            >
+                                <span className="font-bold mr-2">{i + 1}.</span>{step.instruction}
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+                <input
+                    type="text"
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSend(); }}
+                    placeholder="Same shot, but..."
+                    aria-label="Refinement instruction"
+                    disabled={isSending}
+                    className="bg-surface border border-glass-border rounded p-2 w-full text-sm text-text focus:ring-accent-2 focus:border-accent-2"
+                />
+                {error && <p className="text-xs text-red-300">{error}</p>}
+                <div className="flex flex-wrap justify-center gap-2">
+                    <button
+                        onClick={handleSend}
+                        disabled={!instruction.trim() || isSending}
+                        className="px-4 py-2 rounded bg-accent-2 text-black text-sm font-bold hover:brightness-110 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isSending ? 'Refining...' : 'Send'}
+                    </button>
+                    <button
+                        onClick={() => onPromote(viewedStep)}
+                        disabled={viewedStep < 0 || isInGallery || isSending}
+                        className={secondaryButtonClasses}
+                    >
+                        {isInGallery ? 'In Gallery' : 'Use in Gallery'}
+                    </button>
+                    <button onClick={onClose} disabled={isSending} className={secondaryButtonClasses}>
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RefinePanel;
@@ -3,64 +3,112 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useRef } from 'react';
+import ErrorDisplay from './ErrorDisplay';
+import MaskEditor from './MaskEditor';
+import RefinePanel from './RefinePanel';
+import type { ApiErrorKind } from '../services/errors';
+import { formatPromptProvenance } from '../services/promptTemplates';
+import type { PromptProvenance } from '../services/promptTemplates';
+import type { ImageCandidate } from '../services/generationProvider';
+import type { LikenessResult } from '../services/identityCheck';
+import type { ImageRefinement, ImageVersion } from '../lib/imageVersions';
+import { createAlbumPdf } from '../lib/albumPdf';
+import type { AlbumPhoto } from '../lib/albumUtils';
 
 // --- Re-using components from PolaroidCard for consistency ---
-const LoadingSpinner = () => (
-    <div className="flex items-center justify-center h-full">
+const LoadingSpinner = ({ onCancel }: { onCancel?: () => void }) => (
+    <div className="flex flex-col items-center justify-center h-full gap-2">
         <svg className="animate-spin h-8 w-8 text-muted" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
         </svg>
-    </div>
-);
-
-const ErrorDisplay = ({ onRetry, isQuotaError }: { onRetry?: () => void, isQuotaError?: boolean }) => (
-    <div className="flex flex-col items-center justify-center h-full text-center p-2 gap-2 bg-surface rounded-lg">
-         <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-        </svg>
-        <p className="text-xs font-bold text-muted">{isQuotaError ? "Quota Limit Reached" : "Generation Failed"}</p>
-        {!isQuotaError && onRetry && (
-            <button 
-                onClick={(e) => { e.stopPropagation(); onRetry(); }}
+        {onCancel && (
+            <button
+                onClick={(e) => { e.stopPropagation(); onCancel(); }}
                 className="text-xs bg-muted text-background rounded px-2 py-0.5 hover:opacity-80 transition-opacity"
             >
-                Retry
+                Cancel
             </button>
         )}
-        {isQuotaError && (
-             <a
-                href="https://aistudio.google.com/app/apikey"
-                target="_blank"
-                rel="noopener noreferrer"
-                onClick={(e) => e.stopPropagation()}
-                className="text-xs bg-accent text-white rounded px-2 py-0.5 hover:opacity-80 transition-opacity"
-            >
-                Check Quota
-            </a>
-        )}
     </div>
 );
 
-
 // --- Main Component ---
 interface GeneratedImage {
     status: 'pending' | 'done' | 'error';
     url?: string;
     error?: string;
-    isQuotaError?: boolean;
+    errorKind?: ApiErrorKind;
+    retryAfterMs?: number;
+    promptTemplate?: PromptProvenance | null;
+    /** Alternative images generated for this slot; `url` is the selected one's. */
+    candidates?: ImageCandidate[];
+    selectedCandidate?: number;
+    /** The image's region-edit history; `url` is the active version's. */
+    versions?: ImageVersion[];
+    activeVersion?: number;
+    /** The conversation refining this image, if one has started. */
+    refinement?: ImageRefinement;
+    /** How much the image resembles the person, when the identity check scored it. */
+    likeness?: LikenessResult;
 }
 
 interface ResponsiveImageGalleryProps {
   items: GeneratedImage[];
   styles: string[];
   onRegenerate?: (index: number) => void;
+  onCancel?: (index: number) => void;
   onRegenerateAll?: () => void;
   onDownload?: (index: number) => void;
+  /** Called when the user picks a different candidate for a slot. */
+  onSelectCandidate?: (index: number, candidateIndex: number) => void;
+  /** Edits the painted region of an image; rejects if the edit fails. */
+  onEditRegion?: (index: number, maskDataUrl: string, instruction: string) => Promise<void>;
+  /** Called when the user switches to another version of an edited image. */
+  onSelectVersion?: (index: number, versionIndex: number) => void;
+  /** Sends the next message of an image's refinement conversation; rejects if it fails. */
+  onRefine?: (index: number, instruction: string) => Promise<void>;
+  /** Puts a step of an image's refinement conversation in its gallery slot. */
+  onPromoteRefinement?: (index: number, stepIndex: number) => void;
+  /** Other pictures, such as memes, to add to the PDF album after the portraits. */
+  albumExtras?: AlbumPhoto[];
 }
 
-export default function ResponsiveImageGallery({ items = [], styles = [], onRegenerate, onRegenerateAll, onDownload }: ResponsiveImageGalleryProps) {
+// The editing tool open in the lightbox, if any.
+type LightboxTool = 'mask' | 'refine' | null;
+
+// Summarises a candidate's metadata for its tooltip, listing only the noteworthy safety ratings.
+const describeCandidate = (candidate: ImageCandidate): string => {
+    const notable = candidate.safetyRatings
+        .filter(rating => rating.blocked || !/NEGLIGIBLE|UNSPECIFIED/.test(rating.probability))
+        .map(rating => `${rating.category.replace('HARM_CATEGORY_', '')}: ${rating.probability}${rating.blocked ? ' (blocked)' : ''}`);
+    const likeness = candidate.likeness ? [`Likeness: ${Math.round(candidate.likeness.score * 100)}`] : [];
+    return [`Finish reason: ${candidate.finishReason ?? 'unknown'}`, ...likeness, ...notable].join('\n');
+};
+
+// Explains a likeness score for its tooltip.
+const describeLikeness = (likeness: LikenessResult): string => {
+    const outcome = likeness.passed ? 'Passed the identity check' : 'Below the identity threshold; best of the attempts kept';
+    const attempts = likeness.attempts > 1 ? ` after ${likeness.attempts} attempts` : '';
+    return [`${outcome}${attempts}.`, likeness.reason].filter(Boolean).join('\n');
+};
+
+// A small badge showing an image's likeness score out of 100.
+const LikenessBadge = ({ likeness, className }: { likeness: LikenessResult; className: string }) => (
+    <span
+        className={`${className} text-[10px] font-bold rounded px-1.5 py-0.5 ${likeness.passed ? 'bg-black/60 text-white' : 'bg-red-600/80 text-white'}`}
+        title={describeLikeness(likeness)}
+    >
+        {Math.round(likeness.score * 100)}% match
+    </span>
+);
+
+export default function ResponsiveImageGallery({ items = [], styles = [], onRegenerate, onCancel, onRegenerateAll, onDownload, onSelectCandidate, onEditRegion, onSelectVersion, onRefine, onPromoteRefinement, albumExtras = [] }: ResponsiveImageGalleryProps) {
   const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [pdfProgress, setPdfProgress] = useState<number | null>(null);
+  const [pdfError, setPdfError] = useState('');
+  const [pdfNotice, setPdfNotice] = useState('');
+  const [tool, setTool] = useState<LightboxTool>(null);
   const lightboxRef = useRef<HTMLDivElement>(null);
 
   const openAt = (i: number) => {
@@ -71,6 +119,7 @@ export default function ResponsiveImageGallery({ items = [], styles = [], onRege
 
   const closeLightbox = () => {
     setOpenIndex(null);
+    setTool(null);
     document.body.style.overflow = '';
   };
 
@@ -93,28 +142,84 @@ export default function ResponsiveImageGallery({ items = [], styles = [], onRege
       }
     });
   };
+
+  const albumPhotos: AlbumPhoto[] = [
+    ...items.flatMap((item, idx) => (item.status === 'done' && item.url ? [{ caption: styles[idx] || `Image ${idx + 1}`, url: item.url }] : [])),
+    ...albumExtras,
+  ];
+
+  const downloadPdf = async () => {
+    setPdfProgress(0);
+    setPdfError('');
+    setPdfNotice('');
+    try {
+      const blob = await createAlbumPdf(albumPhotos, { onProgress: setPdfProgress, onTextRasterized: setPdfNotice });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `past-forward-album-${new Date().toISOString().slice(0, 10)}.pdf`;
+      link.click();
+      // Revoking straight away can cancel the download in some browsers.
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error("Failed to create the PDF album:", err);
+      setPdfError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPdfProgress(null);
+    }
+  };
   
   const renderThumbnailContent = (item: GeneratedImage, index: number) => {
     switch (item.status) {
         case 'pending':
-            return <LoadingSpinner />;
+            return <LoadingSpinner onCancel={onCancel ? () => onCancel(index) : undefined} />;
         case 'error':
-            return <ErrorDisplay onRetry={() => onRegenerate?.(index)} isQuotaError={item.isQuotaError} />;
-        case 'done':
             return (
-                <img
-                    src={item.url}
-                    alt={styles[index] || `Image ${index + 1}`}
-                    className="w-full h-full object-cover object-center transform transition-transform duration-200 hover:scale-105"
-                    loading="lazy"
-                    draggable={false}
+                <ErrorDisplay
+                    variant="thumbnail"
+                    kind={item.errorKind}
+                    message={item.error}
+                    retryAfterMs={item.retryAfterMs}
+                    onRetry={onRegenerate ? () => onRegenerate(index) : undefined}
                 />
             );
+        case 'done':
+            return (
+                <>
+                    <img
+                        src={item.url}
+                        alt={styles[index] || `Image ${index + 1}`}
+                        className="w-full h-full object-cover object-center transform transition-transform duration-200 hover:scale-105"
+                        loading="lazy"
+                        draggable={false}
+                    />
+                    {item.candidates && item.candidates.length > 1 && (
+                        <span className="absolute top-1 right-1 text-[10px] font-bold bg-black/60 text-white rounded px-1.5 py-0.5">
+                            {(item.selectedCandidate ?? 0) + 1}/{item.candidates.length}
+                        </span>
+                    )}
+                    {item.likeness && <LikenessBadge likeness={item.likeness} className="absolute bottom-1 left-1" />}
+                </>
+            );
         default:
             return null;
     }
   };
 
+  // Only finished images open the lightbox. Pending and failed items are rendered outside a
+  // button so their own Cancel and Retry controls stay clickable.
+  const renderThumbnail = (item: GeneratedImage, index: number, className: string) => (
+    item.status === 'done' ? (
+        <button onClick={() => openAt(index)} className={`${className} relative cursor-pointer`}>
+            {renderThumbnailContent(item, index)}
+        </button>
+    ) : (
+        <div className={className}>
+            {renderThumbnailContent(item, index)}
+        </div>
+    )
+  );
+
   const secondaryButtonClasses = "font-heading text-sm font-semibold text-center text-text bg-glass border border-glass-border py-2 px-4 rounded transform transition-transform duration-200 hover:scale-105 hover:bg-surface disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap";
 
   return (
@@ -136,20 +241,25 @@ export default function ResponsiveImageGallery({ items = [], styles = [], onRege
             >
                 Download All
             </button>
+            <button
+                onClick={downloadPdf}
+                disabled={pdfProgress !== null || albumPhotos.length === 0}
+                className={secondaryButtonClasses}
+                aria-label="Download the album as a PDF"
+            >
+                {pdfProgress !== null ? `Building PDF ${Math.round(pdfProgress * 100)}%` : 'Download PDF'}
+            </button>
         </div>
       </div>
+      {pdfError && <p className="text-xs text-red-400 -mt-2 mb-4 text-right" role="alert">{pdfError}</p>}
+      {pdfNotice && <p className="text-xs text-muted -mt-2 mb-4 text-right" role="status">{pdfNotice}</p>}
 
       {/* Desktop Grid */}
       <div className="hidden sm:grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
         {items.map((item, i) => (
-          <button
-            key={i}
-            onClick={() => openAt(i)}
-            className="block w-full aspect-[9/16] overflow-hidden rounded bg-surface border-2 border-transparent focus:outline-none focus:border-accent-2 cursor-pointer disabled:cursor-default"
-            disabled={item.status !== 'done'}
-          >
-           {renderThumbnailContent(item, i)}
-          </button>
+          <React.Fragment key={i}>
+            {renderThumbnail(item, i, "block w-full aspect-[9/16] overflow-hidden rounded bg-surface border-2 border-transparent focus:outline-none focus:border-accent-2")}
+          </React.Fragment>
         ))}
       </div>
 
@@ -158,9 +268,7 @@ export default function ResponsiveImageGallery({ items = [], styles = [], onRege
         <div className="flex gap-3 overflow-x-auto pb-2 px-4 touch-pan-x" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
           {items.map((item, i) => (
             <div key={i} className="flex-none w-48 h-64 rounded overflow-hidden bg-surface">
-              <button onClick={() => openAt(i)} className="w-full h-full focus:outline-none" disabled={item.status !== 'done'}>
-                {renderThumbnailContent(item, i)}
-              </button>
+              {renderThumbnail(item, i, "w-full h-full focus:outline-none")}
             </div>
           ))}
         </div>
@@ -182,6 +290,24 @@ export default function ResponsiveImageGallery({ items = [], styles = [], onRege
             onTouchEnd={onTouchEnd}
           >
             {/* Main image content */}
+            {tool === 'mask' && onEditRegion ? (
+                <MaskEditor
+                    key={items[openIndex].url}
+                    imageUrl={items[openIndex].url!}
+                    alt={styles[openIndex] || `Image ${openIndex + 1}`}
+                    onApply={(maskDataUrl, instruction) => onEditRegion(openIndex, maskDataUrl, instruction)}
+                    onClose={() => setTool(null)}
+                />
+            ) : tool === 'refine' && onRefine ? (
+                <RefinePanel
+                    imageUrl={items[openIndex].url!}
+                    alt={styles[openIndex] || `Image ${openIndex + 1}`}
+                    refinement={items[openIndex].refinement}
+                    onSend={(instruction) => onRefine(openIndex, instruction)}
+                    onPromote={(stepIndex) => onPromoteRefinement?.(openIndex, stepIndex)}
+                    onClose={() => setTool(null)}
+                />
+            ) : (
             <div className="relative">
                 <img
                     src={items[openIndex].url}
@@ -190,10 +316,18 @@ export default function ResponsiveImageGallery({ items = [], styles = [], onRege
                     draggable={false}
                 />
             </div>
+            )}
 
             {/* Controls */}
+             {!tool && (
              <div className="mt-4 flex flex-wrap items-center justify-center gap-3 text-white">
                 <span className="font-bold text-lg">{styles[openIndex] || `Image ${openIndex + 1}`}</span>
+                {items[openIndex].likeness && <LikenessBadge likeness={items[openIndex].likeness!} className="" />}
+                {items[openIndex].promptTemplate && (
+                    <span className="text-xs text-white/60" title="Prompt template that produced this scene">
+                        {formatPromptProvenance(items[openIndex].promptTemplate!)}
+                    </span>
+                )}
                  <div className="flex items-center gap-2">
                     {onDownload && (
                         <button
@@ -203,6 +337,22 @@ export default function ResponsiveImageGallery({ items = [], styles = [], onRege
                           Download
                         </button>
                     )}
+                    {onEditRegion && (
+                        <button
+                          onClick={() => setTool('mask')}
+                          className="px-4 py-2 rounded bg-white/20 text-sm font-bold hover:bg-white/30 transition-colors"
+                        >
+                          Edit Region
+                        </button>
+                    )}
+                    {onRefine && (
+                        <button
+                          onClick={() => setTool('refine')}
+                          className="px-4 py-2 rounded bg-white/20 text-sm font-bold hover:bg-white/30 transition-colors"
+                        >
+                          Refine
+                        </button>
+                    )}
                     {onRegenerate && (
                         <button
                           onClick={() => { closeLightbox(); onRegenerate(openIndex); }}
@@ -219,9 +369,63 @@ export default function ResponsiveImageGallery({ items = [], styles = [], onRege
                     </button>
                  </div>
             </div>
+             )}
+
+            {/* Version history */}
+            {(items[openIndex].versions?.length ?? 0) > 1 && (
+                <div className="mt-3 flex flex-wrap items-center justify-center gap-2" role="radiogroup" aria-label="Choose a version">
+                    {items[openIndex].versions!.map((version, v) => {
+                        const isActive = (items[openIndex].activeVersion ?? 0) === v;
+                        return (
+                            <button
+                                key={v}
+                                onClick={() => onSelectVersion?.(openIndex, v)}
+                                disabled={!onSelectVersion}
+                                role="radio"
+                                aria-checked={isActive}
+                                title={version.instruction ?? 'The image before any edits'}
+                                className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${isActive ? 'bg-accent-2 text-black' : 'bg-white/20 text-white hover:bg-white/30'}`}
+                            >
+                                {v === 0 ? 'Original' : `Edit ${v}`}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
 
+            {/* Candidate picker */}
+            {!tool && (items[openIndex].candidates?.length ?? 0) > 1 && (
+                <div className="mt-3 flex items-center justify-center gap-2" role="radiogroup" aria-label="Choose a candidate">
+                    {items[openIndex].candidates!.map((candidate, c) => {
+                        const isSelected = (items[openIndex].selectedCandidate ?? 0) === c;
+                        return candidate.url ? (
+                            <button
+                                key={c}
+                                onClick={() => onSelectCandidate?.(openIndex, c)}
+                                disabled={!onSelectCandidate}
+                                role="radio"
+                                aria-checked={isSelected}
+                                title={describeCandidate(candidate)}
+                                className={`w-14 h-20 rounded overflow-hidden border-2 transition-all ${isSelected ? 'border-accent-2 scale-105' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                            >
+                                <img src={candidate.url} alt={`Candidate ${c + 1}`} className="w-full h-full object-cover" draggable={false} />
+                            </button>
+                        ) : (
+                            <div
+                                key={c}
+                                title={describeCandidate(candidate)}
+                                className="w-14 h-20 rounded border-2 border-dashed border-white/30 flex items-center justify-center text-[10px] text-white/60 text-center p-1"
+                            >
+                                {candidate.finishReason ?? 'No image'}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
 
             {/* Prev/Next buttons */}
+            {!tool && (
+            <>
             <button
               onClick={prev}
               className="absolute left-0 -translate-x-4 sm:translate-x-0 sm:-left-12 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/30 hover:bg-black/50 text-white text-3xl font-thin transition-all"
@@ -236,6 +440,8 @@ export default function ResponsiveImageGallery({ items = [], styles = [], onRege
             >
               &#x203A;
             </button>
+            </>
+            )}
           </div>
         </div>
       )}
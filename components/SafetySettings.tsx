@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { getModerationSettings, resetModerationSettings, setModerationSettings } from '../services/geminiService';
+import type { ModerationSettings } from '../services/geminiService';
+
+// One term per line in the editor; blank lines are dropped on save.
+const parseTerms = (text: string): string[] => text.split('\n').map(term => term.trim()).filter(Boolean);
+
+/**
+ * Configures the check that runs on typed text (ideas, meme lines, edit instructions) before
+ * any request is made.
+ */
+const SafetySettings: React.FC = () => {
+    const [settings, setSettings] = useState<ModerationSettings>(getModerationSettings);
+    const [termsDraft, setTermsDraft] = useState(() => settings.blockedTerms.join('\n'));
+    const [message, setMessage] = useState('');
+
+    const isTermsDraftDirty = parseTerms(termsDraft).join('\n') !== settings.blockedTerms.join('\n');
+
+    const save = (next: ModerationSettings, confirmation: string) => {
+        setSettings(next);
+        setModerationSettings(next);
+        setMessage(confirmation);
+    };
+
+    const handleReset = () => {
+        resetModerationSettings();
+        const defaults = getModerationSettings();
+        setSettings(defaults);
+        setTermsDraft(defaults.blockedTerms.join('\n'));
+        setMessage('Restored the default content check.');
+    };
+
+    const buttonClasses = "font-heading text-sm font-semibold text-center py-2 px-4 rounded transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+        <div className="flex flex-col gap-4">
+            <p className="text-sm text-muted">
+                Text you type is checked in this browser before it is sent to the model, so a blocked request costs nothing.
+                Typed text is always quoted as data inside the prompt, whether or not the check is on.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-text">
+                <input
+                    type="checkbox"
+                    checked={settings.enabled}
+                    onChange={(e) => save({ ...settings, enabled: e.target.checked }, e.target.checked ? 'Content check turned on.' : 'Content check turned off.')}
+                />
+                Check typed text before sending it
+            </label>
+            <label className="flex items-center gap-2 text-sm text-text">
+                <input
+                    type="checkbox"
+                    checked={settings.blockInjection}
+                    disabled={!settings.enabled}
+                    onChange={(e) => save({ ...settings, blockInjection: e.target.checked }, 'Saved.')}
+                />
+                Block attempts to override the app's instructions
+            </label>
+            <label className="flex flex-col text-xs text-muted gap-1">
+                Blocked words and phrases, one per line
+                <textarea
+                    value={termsDraft}
+                    onChange={(e) => setTermsDraft(e.target.value)}
+                    disabled={!settings.enabled}
+                    rows={6}
+                    className="bg-surface border border-glass-border rounded p-2 text-sm text-text font-mono focus:ring-accent-2 focus:border-accent-2"
+                />
+            </label>
+            {message && <p className="text-xs text-accent-2">{message}</p>}
+            <div className="flex flex-wrap justify-end gap-3">
+                <button onClick={handleReset} className={`${buttonClasses} text-text bg-glass border border-glass-border hover:bg-surface`}>
+                    Reset
+                </button>
+                <button
+                    onClick={() => save({ ...settings, blockedTerms: parseTerms(termsDraft) }, 'Blocked terms saved.')}
+                    disabled={!isTermsDraftDirty}
+                    className={`${buttonClasses} text-black bg-accent-2 hover:bg-accent`}
+                >
+                    Save Terms
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SafetySettings;
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import PromptSettings from './PromptSettings';
+import CacheSettings from './CacheSettings';
+import UsageSettings from './UsageSettings';
+import IdentitySettings from './IdentitySettings';
+import SafetySettings from './SafetySettings';
+
+const TABS = [
+    { id: 'prompts', label: 'Prompts', render: () => <PromptSettings /> },
+    { id: 'cache', label: 'Cache', render: () => <CacheSettings /> },
+    { id: 'usage', label: 'Usage', render: () => <UsageSettings /> },
+    { id: 'identity', label: 'Identity', render: () => <IdentitySettings /> },
+    { id: 'safety', label: 'Safety', render: () => <SafetySettings /> },
+] as const;
+
+type TabId = typeof TABS[number]['id'];
+
+interface SettingsModalProps {
+    onClose: () => void;
+}
+
+/**
+ * A modal holding the app's advanced settings, one tab per area.
+ */
+const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
+    const [activeTab, setActiveTab] = useState<TabId>(TABS[0].id);
+    const backdropRef = useRef<HTMLDivElement>(null);
+    const tab = TABS.find(t => t.id === activeTab) ?? TABS[0];
+
+    // Portalled so the footer's transform doesn't become the containing block for `fixed`.
+    return createPortal(
+        <div
+            ref={backdropRef}
+            className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            role="dialog"
+            aria-modal="true"
+            aria-label="Settings"
+            onClick={(e) => { if (e.target === backdropRef.current) onClose(); }}
+        >
+            <div className="glass-card w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-surface text-text">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-heading text-accent-2">Settings</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-full text-muted hover:text-text hover:bg-surface/50 transition-colors"
+                        aria-label="Close settings"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                {TABS.length > 1 && (
+                    <div className="flex gap-2 mb-4 border-b border-glass-border">
+                        {TABS.map(t => (
+                            <button
+                                key={t.id}
+                                onClick={() => setActiveTab(t.id)}
+                                aria-pressed={activeTab === t.id}
+                                className={`text-sm px-3 py-2 -mb-px border-b-2 transition-colors ${
+                                    activeTab === t.id
+                                        ? 'border-accent-2 text-text'
+                                        : 'border-transparent text-muted hover:text-text'
+                                }`}
+                            >
+                                {t.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {tab.render()}
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default SettingsModal;
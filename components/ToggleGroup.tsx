@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+
+interface ToggleGroupProps<T extends string> {
+    label: string;
+    options: { value: T; label: string }[];
+    value: T;
+    onChange: (value: T) => void;
+    disabled?: boolean;
+}
+
+/**
+ * A row of buttons that behaves like a radio group.
+ */
+function ToggleGroup<T extends string>({ label, options, value, onChange, disabled }: ToggleGroupProps<T>) {
+    return (
+        <div className="flex rounded overflow-hidden border border-glass-border" role="radiogroup" aria-label={label}>
+            {options.map(option => (
+                <button
+                    key={option.value}
+                    onClick={() => onChange(option.value)}
+                    role="radio"
+                    aria-checked={value === option.value}
+                    disabled={disabled}
+                    className={`flex-1 py-1.5 text-xs font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                        value === option.value ? 'bg-accent-2 text-black' : 'bg-surface text-muted hover:text-text'
+                    }`}
+                >
+                    {option.label}
+                </button>
+            ))}
+        </div>
+    );
+}
+
+export default ToggleGroup;
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import {
+    clearUsage,
+    getPriceTable,
+    listUsage,
+    resetPriceTable,
+    setPriceTable,
+    summarizeUsage,
+    usageToCsv,
+} from '../services/usageLedger';
+import type { ModelPrice, PriceTable, UsageRecord, UsageTotals } from '../services/usageLedger';
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+    { key: 'inputPerMillionTokens', label: 'Input / 1M tokens' },
+    { key: 'outputPerMillionTokens', label: 'Output / 1M tokens' },
+    { key: 'perVideoSecond', label: 'Video / second' },
+];
+
+function formatCost(usd: number): string {
+    return usd > 0 && usd < 0.01 ? '< $0.01' : `$${usd.toFixed(2)}`;
+}
+
+function formatTotals(totals: UsageTotals): string {
+    const tokens = totals.promptTokens + totals.outputTokens;
+    const parts = [
+        `${totals.calls} call${totals.calls === 1 ? '' : 's'}`,
+        `${tokens.toLocaleString()} tokens`,
+    ];
+    if (totals.videoSeconds > 0) parts.push(`${totals.videoSeconds}s video`);
+    if (totals.failures > 0) parts.push(`${totals.failures} failed`);
+    return `${parts.join(', ')}: ${formatCost(totals.costUsd)}`;
+}
+
+/**
+ * Shows what the app's model requests have used and roughly cost, and lets the user
+ * adjust prices, export the ledger or clear it.
+ */
+const UsageSettings: React.FC = () => {
+    const [records, setRecords] = useState<UsageRecord[] | null>(null);
+    const [prices, setPrices] = useState<PriceTable>(getPriceTable);
+    const [draftPrices, setDraftPrices] = useState<PriceTable>(getPriceTable);
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        listUsage().then(setRecords);
+    }, []);
+
+    const summary = records ? summarizeUsage(records, prices) : null;
+    const isPriceDraftDirty = JSON.stringify(draftPrices) !== JSON.stringify(prices);
+
+    const handlePriceChange = (model: string, key: keyof ModelPrice, value: string) => {
+        const amount = Number(value);
+        if (!Number.isFinite(amount) || amount < 0) return;
+        setDraftPrices(current => ({ ...current, [model]: { ...current[model], [key]: amount } }));
+    };
+
+    const handleSavePrices = () => {
+        setPriceTable(draftPrices);
+        setPrices(getPriceTable());
+        setMessage('Prices saved. Estimates now use them.');
+    };
+
+    const handleResetPrices = () => {
+        resetPriceTable();
+        const defaults = getPriceTable();
+        setPrices(defaults);
+        setDraftPrices(defaults);
+        setMessage('Restored the default prices.');
+    };
+
+    const handleExport = () => {
+        if (!records) return;
+        const blob = new Blob([usageToCsv(records, prices)], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `past-forward-usage-${new Date().toISOString().slice(0, 10)}.csv`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    };
+
+    const handleClear = async () => {
+        try {
+            await clearUsage();
+            setRecords([]);
+            setMessage('Usage history cleared.');
+        } catch (error) {
+            console.error("Failed to clear the usage ledger:", error);
+            setMessage('Could not clear the usage history. Please try again.');
+        }
+    };
+
+    const buttonClasses = "font-heading text-sm font-semibold text-center py-2 px-4 rounded transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+        <div className="flex flex-col gap-4">
+            <p className="text-sm text-muted">
+                Every model request is logged in this browser with its token counts and latency.
+                Costs are estimates from the prices below, not your bill.
+            </p>
+
+            {summary ? (
+                <div className="flex flex-col gap-3 text-sm text-text">
+                    <div>
+                        <h3 className="text-xs text-muted mb-1">This session</h3>
+                        <p>{formatTotals(summary.session)}</p>
+                    </div>
+                    {summary.days.length > 0 && (
+                        <div>
+                            <h3 className="text-xs text-muted mb-1">By day</h3>
+                            <ul className="flex flex-col gap-1">
+                                {summary.days.map(({ day, totals }) => (
+                                    <li key={day}><span className="text-muted">{day}</span> {formatTotals(totals)}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {summary.models.length > 0 && (
+                        <div>
+                            <h3 className="text-xs text-muted mb-1">By model</h3>
+                            <ul className="flex flex-col gap-1">
+                                {summary.models.map(({ model, totals }) => (
+                                    <li key={model}><span className="text-muted">{model}</span> {formatTotals(totals)}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            ) : (
+                <div className="text-sm text-text">Reading usage...</div>
+            )}
+
+            <div>
+                <h3 className="text-xs text-muted mb-2">Prices (USD)</h3>
+                <div className="flex flex-col gap-3">
+                    {Object.keys(draftPrices).map(model => (
+                        <div key={model}>
+                            <div className="text-xs text-text mb-1">{model}</div>
+                            <div className="grid grid-cols-3 gap-2">
+                                {PRICE_FIELDS.map(({ key, label }) => (
+                                    <label key={key} className="flex flex-col text-xs text-muted gap-1">
+                                        {label}
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step="0.01"
+                                            value={draftPrices[model][key]}
+                                            onChange={(e) => handlePriceChange(model, key, e.target.value)}
+                                            className="bg-surface border border-glass-border rounded p-1 text-sm text-text focus:ring-accent-2 focus:border-accent-2"
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {message && <p className="text-xs text-accent-2">{message}</p>}
+            <div className="flex flex-wrap justify-end gap-3">
+                <button onClick={handleResetPrices} className={`${buttonClasses} text-text bg-glass border border-glass-border hover:bg-surface`}>
+                    Reset Prices
+                </button>
+                <button onClick={handleSavePrices} disabled={!isPriceDraftDirty} className={`${buttonClasses} text-black bg-accent-2 hover:bg-accent`}>
+                    Save Prices
+                </button>
+                <button onClick={handleExport} disabled={!records || records.length === 0} className={`${buttonClasses} text-text bg-glass border border-glass-border hover:bg-surface`}>
+                    Export CSV
+                </button>
+                <button onClick={handleClear} disabled={!records || records.length === 0} className={`${buttonClasses} text-white bg-red-600 hover:bg-red-700`}>
+                    Clear Usage
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default UsageSettings;
@@ -3,17 +3,29 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect } from 'react';
+import ErrorDisplay from './ErrorDisplay';
+import VideoMemePanel from './VideoMemePanel';
+import MemeLibraryPicker from './MemeLibraryPicker';
+import type { ApiErrorKind } from '../services/errors';
+import { MAX_NEGATIVE_PROMPT_LENGTH, MAX_VIDEO_COUNT, VIDEO_MODELS, videoOptionProblems } from '../services/videoOptions';
+import type { VideoAspectRatio, VideoModelTier, VideoOptions, VideoResolution } from '../services/videoOptions';
 
 interface VideoState {
     status: 'idle' | 'pending' | 'done' | 'error';
     url?: string;
     error?: string;
-    isQuotaError?: boolean;
+    errorKind?: ApiErrorKind;
+    retryAfterMs?: number;
+    /** Set when the video is a job resumed from an earlier page session. */
+    resumed?: boolean;
+    /** Every video generated by the request; `url` is the one being shown. */
+    urls?: string[];
 }
 
 interface VideoConfig {
     imageIndex: number;
     prompt: string;
+    options: VideoOptions;
 }
 
 interface VideoCardProps {
@@ -21,23 +33,30 @@ interface VideoCardProps {
     videoConfig: VideoConfig;
     onConfigChange: (config: VideoConfig) => void;
     onGenerate: () => void;
+    onCancel?: () => void;
     onDownload: () => void;
+    /** Shows another of the generated videos. */
+    onSelectVideo?: (index: number) => void;
     imageOptions: { value: number; label: string }[];
-    promptOptions: string[];
     loadingMessages: string[];
 }
 
+const TIERS = Object.keys(VIDEO_MODELS) as VideoModelTier[];
+
 const VideoCard: React.FC<VideoCardProps> = ({
     videoState,
     videoConfig,
     onConfigChange,
     onGenerate,
+    onCancel,
     onDownload,
+    onSelectVideo,
     imageOptions,
-    promptOptions,
     loadingMessages,
 }) => {
     const [currentLoadingMessage, setCurrentLoadingMessage] = useState(loadingMessages[0]);
+    const [isMemeOpen, setIsMemeOpen] = useState(false);
+    const [isPickerOpen, setIsPickerOpen] = useState(false);
 
     useEffect(() => {
         if (videoState.status === 'pending') {
@@ -57,7 +76,28 @@ const VideoCard: React.FC<VideoCardProps> = ({
         onDownload();
     };
 
-    const commonClasses = "relative aspect-[9/16] w-full max-w-xs rounded-lg bg-surface/50 backdrop-blur-sm border border-glass-border p-4 flex flex-col items-center justify-center text-center overflow-hidden transition-all duration-300";
+    const { options } = videoConfig;
+    const capabilities = VIDEO_MODELS[options.tier];
+    const optionProblems = videoOptionProblems(options);
+
+    // Keeps the aspect ratio and resolution valid when the model or aspect ratio changes underneath them.
+    const updateOptions = (changes: Partial<VideoOptions>) => {
+        const next = { ...options, ...changes };
+        const model = VIDEO_MODELS[next.tier];
+        if (!model.aspectRatios.includes(next.aspectRatio)) {
+            next.aspectRatio = model.aspectRatios[0];
+        }
+        if (!model.resolutions[next.aspectRatio].includes(next.resolution)) {
+            next.resolution = model.resolutions[next.aspectRatio][0];
+        }
+        onConfigChange({ ...videoConfig, options: next });
+    };
+
+    const videoUrls = videoState.urls ?? [];
+    // The settings form needs the portrait card's height; results take the shape of the video.
+    const isLandscape = options.aspectRatio === '16:9' && videoState.status !== 'idle';
+    const aspectClass = isLandscape ? 'aspect-[16/9] max-w-md' : 'aspect-[9/16] max-w-xs';
+    const commonClasses = `relative ${aspectClass} w-full rounded-lg bg-surface/50 backdrop-blur-sm border border-glass-border p-4 flex flex-col items-center justify-center text-center overflow-hidden transition-all duration-300`;
     const buttonClasses = "font-heading font-semibold text-lg text-center text-black bg-accent-2 py-2 px-6 rounded shadow transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed";
     const selectClasses = "bg-surface border border-glass-border rounded p-2 w-full text-sm focus:ring-accent-2 focus:border-accent-2";
 
@@ -66,13 +106,20 @@ const VideoCard: React.FC<VideoCardProps> = ({
             case 'pending':
                 return (
                     <>
-                        <div className="flex items-center justify-center h-full">
+                        <div className="flex flex-col items-center justify-center h-full gap-4">
                             <svg className="animate-spin h-8 w-8 text-muted" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                             </svg>
+                            {onCancel && (
+                                <button onClick={onCancel} className="text-sm text-muted underline hover:text-text transition-colors">
+                                    Cancel
+                                </button>
+                            )}
                         </div>
-                        <p className="absolute bottom-4 text-muted text-sm">{currentLoadingMessage}</p>
+                        <p className="absolute bottom-4 text-muted text-sm">
+                            {videoState.resumed ? "Picking up your video from last time..." : currentLoadingMessage}
+                        </p>
                     </>
                 );
             case 'done':
@@ -96,28 +143,42 @@ const VideoCard: React.FC<VideoCardProps> = ({
                                 <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                             </svg>
                         </button>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); setIsMemeOpen(true); }}
+                            className="absolute top-2 left-2 px-3 py-1.5 bg-black/50 rounded-full text-white text-xs font-semibold hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white z-10"
+                        >
+                            Make Meme
+                        </button>
+                        {isMemeOpen && videoState.url && (
+                            <VideoMemePanel videoUrl={videoState.url} onClose={() => setIsMemeOpen(false)} />
+                        )}
+                        {videoUrls.length > 1 && onSelectVideo && (
+                            <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex gap-1 z-10" role="group" aria-label="Choose a video">
+                                {videoUrls.map((url, index) => (
+                                    <button
+                                        key={url}
+                                        onClick={(e) => { e.stopPropagation(); onSelectVideo(index); }}
+                                        aria-pressed={url === videoState.url}
+                                        className={`w-7 h-7 rounded-full text-xs font-semibold transition-colors ${
+                                            url === videoState.url ? 'bg-accent-2 text-black' : 'bg-black/50 text-white hover:bg-black/75'
+                                        }`}
+                                    >
+                                        {index + 1}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
                     </>
                 );
             case 'error':
-                 return (
-                    <div className="flex flex-col items-center justify-center gap-4">
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                        <p className="text-sm text-red-300 max-w-xs">{videoState.error || 'An unknown error occurred.'}</p>
-                        {videoState.isQuotaError ? (
-                             <a
-                                href="https://aistudio.google.com/app/apikey"
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className={`${buttonClasses} bg-blue-500 hover:bg-blue-400 !text-white`}
-                            >
-                                Check API Key / Quota
-                            </a>
-                        ) : (
-                            <button onClick={onGenerate} className={buttonClasses}>Retry</button>
-                        )}
-                    </div>
+                return (
+                    <ErrorDisplay
+                        variant="card"
+                        kind={videoState.errorKind}
+                        message={videoState.error}
+                        retryAfterMs={videoState.retryAfterMs}
+                        onRetry={onGenerate}
+                    />
                 );
             case 'idle':
             default:
@@ -141,19 +202,88 @@ const VideoCard: React.FC<VideoCardProps> = ({
                                 </select>
                             </div>
                             <div className="flex-1">
-                                <label htmlFor="prompt-select" className="block text-xs text-muted mb-1">Action</label>
+                                <label htmlFor="prompt-picker" className="block text-xs text-muted mb-1">Action</label>
+                                <button
+                                    id="prompt-picker"
+                                    onClick={() => setIsPickerOpen(true)}
+                                    title={videoConfig.prompt}
+                                    className={`${selectClasses} text-left line-clamp-2`}
+                                >
+                                    {videoConfig.prompt ? videoConfig.prompt.charAt(0).toUpperCase() + videoConfig.prompt.slice(1) : 'Choose an action...'}
+                                </button>
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3 text-left">
+                            <div>
+                                <label htmlFor="video-tier-select" className="block text-xs text-muted mb-1">Model</label>
                                 <select
-                                    id="prompt-select"
-                                    value={videoConfig.prompt}
-                                    onChange={(e) => onConfigChange({ ...videoConfig, prompt: e.target.value })}
+                                    id="video-tier-select"
+                                    value={options.tier}
+                                    onChange={(e) => updateOptions({ tier: e.target.value as VideoModelTier })}
                                     className={selectClasses}
                                 >
-                                    {promptOptions.map(opt => <option key={opt} value={opt}>{opt.charAt(0).toUpperCase() + opt.slice(1, 30)}</option>)}
+                                    {TIERS.map(tier => <option key={tier} value={tier}>{VIDEO_MODELS[tier].label}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="video-count-select" className="block text-xs text-muted mb-1">Videos</label>
+                                <select
+                                    id="video-count-select"
+                                    value={options.numberOfVideos}
+                                    onChange={(e) => updateOptions({ numberOfVideos: Number(e.target.value) })}
+                                    className={selectClasses}
+                                >
+                                    {Array.from({ length: MAX_VIDEO_COUNT }, (_, i) => i + 1).map(count =>
+                                        <option key={count} value={count}>{count}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="video-aspect-select" className="block text-xs text-muted mb-1">Aspect Ratio</label>
+                                <select
+                                    id="video-aspect-select"
+                                    value={options.aspectRatio}
+                                    onChange={(e) => updateOptions({ aspectRatio: e.target.value as VideoAspectRatio })}
+                                    className={selectClasses}
+                                >
+                                    {capabilities.aspectRatios.map(ratio => (
+                                        <option key={ratio} value={ratio}>{ratio === '9:16' ? '9:16 Portrait' : '16:9 Landscape'}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="video-resolution-select" className="block text-xs text-muted mb-1">Resolution</label>
+                                <select
+                                    id="video-resolution-select"
+                                    value={options.resolution}
+                                    onChange={(e) => updateOptions({ resolution: e.target.value as VideoResolution })}
+                                    className={selectClasses}
+                                >
+                                    {capabilities.resolutions[options.aspectRatio].map(resolution =>
+                                        <option key={resolution} value={resolution}>{resolution}</option>)}
                                 </select>
                             </div>
                         </div>
-                        <button onClick={onGenerate} className={buttonClasses} disabled={imageOptions.length === 0}>
-                            Generate Video
+                        {capabilities.supportsNegativePrompt && (
+                            <div className="text-left">
+                                <label htmlFor="video-negative-prompt" className="block text-xs text-muted mb-1">Avoid (optional)</label>
+                                <input
+                                    id="video-negative-prompt"
+                                    type="text"
+                                    value={options.negativePrompt}
+                                    maxLength={MAX_NEGATIVE_PROMPT_LENGTH}
+                                    onChange={(e) => updateOptions({ negativePrompt: e.target.value })}
+                                    placeholder="e.g. text overlays, blurry motion"
+                                    className={selectClasses}
+                                />
+                            </div>
+                        )}
+                        {optionProblems.length > 0 && (
+                            <ul className="text-xs text-red-400 text-left space-y-1">
+                                {optionProblems.map(problem => <li key={problem}>{problem.charAt(0).toUpperCase() + problem.slice(1)}.</li>)}
+                            </ul>
+                        )}
+                        <button onClick={onGenerate} className={buttonClasses} disabled={imageOptions.length === 0 || optionProblems.length > 0}>
+                            {options.numberOfVideos > 1 ? `Generate ${options.numberOfVideos} Videos` : 'Generate Video'}
                         </button>
                     </div>
                 );
@@ -163,6 +293,16 @@ const VideoCard: React.FC<VideoCardProps> = ({
     return (
         <div className={commonClasses}>
             {renderContent()}
+            {isPickerOpen && (
+                <MemeLibraryPicker
+                    kind="video-prompt"
+                    onPick={(entry) => {
+                        onConfigChange({ ...videoConfig, prompt: entry.text });
+                        setIsPickerOpen(false);
+                    }}
+                    onClose={() => setIsPickerOpen(false)}
+                />
+            )}
         </div>
     );
 };
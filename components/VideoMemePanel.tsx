@@ -0,0 +1,283 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import ToggleGroup from './ToggleGroup';
+import MemeLibraryPicker from './MemeLibraryPicker';
+import { getMemeLibrary, memeLineIn } from '../lib/memeLibrary';
+import type { MemeScript } from '../lib/memeLibrary';
+import { DEFAULT_MEME_FONT_ID, getMemeFont, MEME_FONTS } from '../lib/memeRenderer';
+import { canRecordMp4, DEFAULT_VIDEO_MEME_OPTIONS, renderVideoMeme } from '../lib/videoMeme';
+import type { VideoMemeFormat } from '../lib/videoMeme';
+
+interface VideoMemePanelProps {
+    videoUrl: string;
+    onClose: () => void;
+}
+
+const SCRIPTS: { value: MemeScript; label: string }[] = [
+    { value: 'roman', label: 'Roman' },
+    { value: 'devanagari', label: 'देवनागरी' },
+];
+
+const FORMATS: { value: VideoMemeFormat; label: string }[] = [
+    { value: 'gif', label: 'GIF' },
+    { value: 'mp4', label: 'MP4' },
+];
+
+const WIDTHS = [320, 480, 720];
+const GIF_FPS = [8, 12, 15];
+const MAX_SIZE_MB = 50;
+
+/**
+ * Burns a caption into a generated video and exports a trimmed GIF or MP4. Everything is
+ * rendered in the browser; no model is called.
+ */
+const VideoMemePanel: React.FC<VideoMemePanelProps> = ({ videoUrl, onClose }) => {
+    const backdropRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const [script, setScript] = useState<MemeScript>('roman');
+    const [topText, setTopText] = useState('');
+    const [bottomText, setBottomText] = useState(() => getMemeLibrary('line')[0]?.text ?? '');
+    const [isPickerOpen, setIsPickerOpen] = useState(false);
+    const [fontId, setFontId] = useState(DEFAULT_MEME_FONT_ID);
+    const [format, setFormat] = useState<VideoMemeFormat>(DEFAULT_VIDEO_MEME_OPTIONS.format);
+    const [duration, setDuration] = useState(0);
+    const [startSec, setStartSec] = useState(0);
+    const [endSec, setEndSec] = useState(0);
+    const [maxWidth, setMaxWidth] = useState(DEFAULT_VIDEO_MEME_OPTIONS.maxWidth);
+    const [gifFps, setGifFps] = useState(DEFAULT_VIDEO_MEME_OPTIONS.gifFps);
+    const [maxSizeMb, setMaxSizeMb] = useState(DEFAULT_VIDEO_MEME_OPTIONS.maxBytes / (1024 * 1024));
+    const [progress, setProgress] = useState<number | null>(null);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+
+    // Stops an export in progress if the panel is closed.
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+        const length = e.currentTarget.duration;
+        setDuration(length);
+        setStartSec(0);
+        setEndSec(length);
+    };
+
+    const isExporting = progress !== null;
+    const clipLength = Math.max(0, endSec - startSec);
+    const hasCaption = Boolean(topText.trim() || bottomText.trim());
+
+    const handleExport = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setProgress(0);
+        setError('');
+        setMessage('');
+        try {
+            const font = getMemeFont(fontId);
+            const meme = await renderVideoMeme(
+                videoUrl,
+                { top: topText, bottom: bottomText },
+                {
+                    format,
+                    startSec,
+                    endSec,
+                    maxWidth,
+                    gifFps,
+                    maxBytes: maxSizeMb * 1024 * 1024,
+                    style: { fontFamily: font.fontFamily, fontWeight: font.fontWeight },
+                },
+                setProgress,
+                controller.signal
+            );
+            const url = URL.createObjectURL(meme.blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `past-forward-meme.${meme.extension}`;
+            link.click();
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+            setMessage(`Saved a ${meme.width}×${meme.height} ${meme.extension.toUpperCase()} (${(meme.blob.size / (1024 * 1024)).toFixed(1)} MB).`);
+        } catch (err) {
+            if (!controller.signal.aborted) {
+                setError(err instanceof Error ? err.message : String(err));
+            }
+        } finally {
+            abortRef.current = null;
+            setProgress(null);
+        }
+    };
+
+    const handleCancel = () => {
+        abortRef.current?.abort();
+        setMessage('Export cancelled.');
+    };
+
+    const inputClasses = "bg-surface border border-glass-border rounded p-2 w-full text-sm text-text focus:ring-accent-2 focus:border-accent-2";
+    const labelClasses = "flex flex-col text-xs text-muted gap-1";
+    const buttonClasses = "font-heading text-sm font-semibold text-center py-2 px-4 rounded transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed";
+
+    // Portalled so the card's transforms don't become the containing block for `fixed`.
+    return createPortal(
+        <div
+            ref={backdropRef}
+            className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            role="dialog"
+            aria-modal="true"
+            aria-label="Video meme"
+            onClick={(e) => { if (e.target === backdropRef.current && !isExporting) onClose(); }}
+        >
+            <div className="glass-card w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-surface text-text">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-heading text-accent-2">Video Meme</h2>
+                    <button
+                        onClick={onClose}
+                        disabled={isExporting}
+                        className="p-2 rounded-full text-muted hover:text-text hover:bg-surface/50 transition-colors disabled:opacity-50"
+                        aria-label="Close"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-6">
+                    <video
+                        src={videoUrl}
+                        onLoadedMetadata={handleLoadedMetadata}
+                        className="w-full sm:w-56 max-h-[60vh] rounded object-contain bg-black self-center"
+                        autoPlay
+                        loop
+                        muted
+                        playsInline
+                    />
+                    <div className="flex-1 flex flex-col gap-3">
+                        <ToggleGroup
+                            label="Script"
+                            options={SCRIPTS}
+                            value={script}
+                            onChange={(next) => { setScript(next); setBottomText(memeLineIn(bottomText, next)); }}
+                            disabled={isExporting}
+                        />
+                        <button
+                            onClick={() => setIsPickerOpen(true)}
+                            disabled={isExporting}
+                            className={`${inputClasses} text-left text-muted hover:text-text transition-colors disabled:opacity-50`}
+                        >
+                            Browse Bollywood lines...
+                        </button>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <label className={labelClasses}>
+                                Top Text (optional)
+                                <input type="text" value={topText} onChange={(e) => setTopText(e.target.value)} disabled={isExporting} className={inputClasses} />
+                            </label>
+                            <label className={labelClasses}>
+                                Bottom Text
+                                <input type="text" value={bottomText} onChange={(e) => setBottomText(e.target.value)} disabled={isExporting} className={inputClasses} />
+                            </label>
+                        </div>
+                        <label className={labelClasses}>
+                            Font
+                            <select value={fontId} onChange={(e) => setFontId(e.target.value)} disabled={isExporting} className={inputClasses}>
+                                {MEME_FONTS.map(font => <option key={font.id} value={font.id}>{font.devanagari ? `${font.label} · हिन्दी` : font.label}</option>)}
+                            </select>
+                        </label>
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className={labelClasses}>
+                                Start (seconds)
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={endSec}
+                                    step={0.1}
+                                    value={Number(startSec.toFixed(1))}
+                                    onChange={(e) => setStartSec(Math.min(Math.max(0, Number(e.target.value)), endSec))}
+                                    disabled={isExporting || duration === 0}
+                                    className={inputClasses}
+                                />
+                            </label>
+                            <label className={labelClasses}>
+                                End (seconds)
+                                <input
+                                    type="number"
+                                    min={startSec}
+                                    max={duration}
+                                    step={0.1}
+                                    value={Number(endSec.toFixed(1))}
+                                    onChange={(e) => setEndSec(Math.max(Math.min(duration, Number(e.target.value)), startSec))}
+                                    disabled={isExporting || duration === 0}
+                                    className={inputClasses}
+                                />
+                            </label>
+                        </div>
+                        <ToggleGroup label="Format" options={FORMATS} value={format} onChange={setFormat} disabled={isExporting} />
+                        {format === 'mp4' && !canRecordMp4() && (
+                            <p className="text-xs text-muted">This browser cannot record MP4, so the clip will be saved as WebM.</p>
+                        )}
+                        <div className="grid grid-cols-3 gap-3">
+                            <label className={labelClasses}>
+                                Max width
+                                <select value={maxWidth} onChange={(e) => setMaxWidth(Number(e.target.value))} disabled={isExporting} className={inputClasses}>
+                                    {WIDTHS.map(width => <option key={width} value={width}>{width}px</option>)}
+                                </select>
+                            </label>
+                            <label className={labelClasses}>
+                                Size limit (MB)
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={MAX_SIZE_MB}
+                                    value={maxSizeMb}
+                                    onChange={(e) => setMaxSizeMb(Math.min(MAX_SIZE_MB, Math.max(1, Number(e.target.value) || 1)))}
+                                    disabled={isExporting}
+                                    className={inputClasses}
+                                />
+                            </label>
+                            {format === 'gif' && (
+                                <label className={labelClasses}>
+                                    Frame rate
+                                    <select value={gifFps} onChange={(e) => setGifFps(Number(e.target.value))} disabled={isExporting} className={inputClasses}>
+                                        {GIF_FPS.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+                                    </select>
+                                </label>
+                            )}
+                        </div>
+                        {isExporting && (
+                            <div className="h-2 rounded bg-glass overflow-hidden" role="progressbar" aria-valuenow={Math.round(progress * 100)} aria-valuemin={0} aria-valuemax={100}>
+                                <div className="h-full bg-accent-2 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+                            </div>
+                        )}
+                        {message && <p className="text-xs text-accent-2">{message}</p>}
+                        {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+                        <div className="flex flex-wrap justify-end gap-3">
+                            {isExporting ? (
+                                <button onClick={handleCancel} className={`${buttonClasses} text-text bg-glass border border-glass-border hover:bg-surface`}>
+                                    Cancel
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={handleExport}
+                                    disabled={!hasCaption || duration === 0 || clipLength < 0.2}
+                                    className={`${buttonClasses} text-black bg-accent-2 hover:bg-accent`}
+                                >
+                                    {`Export ${format.toUpperCase()} (${clipLength.toFixed(1)}s)`}
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+            {isPickerOpen && (
+                <MemeLibraryPicker
+                    kind="line"
+                    script={script}
+                    onPick={(entry) => { setBottomText(memeLineIn(entry.text, script)); setIsPickerOpen(false); }}
+                    onClose={() => setIsPickerOpen(false)}
+                />
+            )}
+        </div>,
+        document.body
+    );
+};
+
+export default VideoMemePanel;
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ALBUM_TEMPLATES, DEFAULT_ALBUM_LAYOUT_OPTIONS, layoutAlbumPage, seededRandom } from './albumLayout';
+import type { AlbumSlot, Rect } from './albumLayout';
+
+// The axis-aligned box a slot covers once rotated about its centre.
+function rotatedBounds({ frame, rotation }: AlbumSlot): Rect {
+    const cos = Math.abs(Math.cos(rotation));
+    const sin = Math.abs(Math.sin(rotation));
+    const width = frame.width * cos + frame.height * sin;
+    const height = frame.width * sin + frame.height * cos;
+    return {
+        x: frame.x + (frame.width - width) / 2,
+        y: frame.y + (frame.height - height) / 2,
+        width,
+        height,
+    };
+}
+
+describe('layoutAlbumPage', () => {
+    // The cover uses a tall header; album pages use the default one.
+    for (const headerHeight of [DEFAULT_ALBUM_LAYOUT_OPTIONS.headerHeight, 1100]) {
+        for (const template of ALBUM_TEMPLATES) {
+            it(`keeps every rotated ${template} slot inside the content area under a ${headerHeight}px header`, () => {
+                const { width, height, padding } = DEFAULT_ALBUM_LAYOUT_OPTIONS;
+                const content = { x: padding, y: headerHeight, width: width - padding * 2, height: height - headerHeight - padding };
+                for (let count = 1; count <= 12; count++) {
+                    for (let seed = 0; seed < 20; seed++) {
+                        const layout = layoutAlbumPage(count, { template, headerHeight, random: seededRandom(seed) });
+                        assert.equal(layout.slots.length, count);
+                        for (const slot of layout.slots) {
+                            const bounds = rotatedBounds(slot);
+                            const where = `${count} photos, seed ${seed}, slot ${slot.index}`;
+                            assert.ok(bounds.x >= content.x - 1e-6, `${where} leaves the left edge`);
+                            assert.ok(bounds.y >= content.y - 1e-6, `${where} overlaps the header`);
+                            assert.ok(bounds.x + bounds.width <= content.x + content.width + 1e-6, `${where} leaves the right edge`);
+                            assert.ok(bounds.y + bounds.height <= content.y + content.height + 1e-6, `${where} leaves the bottom edge`);
+                        }
+                    }
+                }
+            });
+        }
+    }
+
+    it('lays out the same page for the same seed', () => {
+        const first = layoutAlbumPage(5, { template: 'scattered', random: seededRandom('album-1') });
+        const second = layoutAlbumPage(5, { template: 'scattered', random: seededRandom('album-1') });
+        assert.deepEqual(first, second);
+    });
+});
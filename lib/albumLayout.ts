@@ -0,0 +1,301 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Where every photo on an album page goes. This module only does arithmetic, with no canvas or
+// DOM, so layouts can be checked without drawing them; `albumUtils` does the drawing.
+
+export type AlbumTemplate = 'grid' | 'scattered' | 'hero' | 'filmstrip';
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * One photo's place on the page.
+ */
+export interface AlbumSlot {
+    /** Which image, in the order they were given. */
+    index: number;
+    /** The frame before rotation, in page pixels. */
+    frame: Rect;
+    /** Rotation about the frame's centre, in radians. */
+    rotation: number;
+    /** The photo and caption areas, relative to the frame's top-left corner. */
+    photo: Rect;
+    caption: Rect;
+    style: 'polaroid' | 'film';
+}
+
+export interface AlbumPageLayout {
+    template: AlbumTemplate;
+    width: number;
+    height: number;
+    title: { x: number; y: number; fontSize: number };
+    /** Dark film-strip bands drawn behind the frames; empty for other templates. */
+    bands: Rect[];
+    /** In drawing order, back to front. */
+    slots: AlbumSlot[];
+}
+
+export interface AlbumLayoutOptions {
+    /** A template, or 'auto' to pick one for the number of images. */
+    template: AlbumTemplate | 'auto';
+    width: number;
+    height: number;
+    /** The space at the top of the page kept for the title. */
+    headerHeight: number;
+    padding: number;
+    /** The source of randomness for rotations and scatter; pass a seeded one for repeatable pages. */
+    random: () => number;
+}
+
+export const DEFAULT_ALBUM_LAYOUT_OPTIONS: AlbumLayoutOptions = {
+    template: 'auto',
+    // A4 at 300 DPI.
+    width: 2480,
+    height: 3508,
+    headerHeight: 400,
+    padding: 120,
+    random: Math.random,
+};
+
+export const ALBUM_TEMPLATES: AlbumTemplate[] = ['grid', 'scattered', 'hero', 'filmstrip'];
+
+// A polaroid is 1.2 times as tall as it is wide: a square photo with a deep caption strip below.
+const POLAROID_ASPECT = 1.2;
+// A film frame is a square photo with a thin caption strip.
+const FILM_ASPECT = 1.15;
+// How much of its grid cell a frame fills, leaving room for rotation and shadow.
+const CELL_FILL = 0.9;
+// The largest random rotation, in radians, for each template.
+const MAX_ROTATION: Record<AlbumTemplate, number> = { grid: 0.05, scattered: 0.14, hero: 0.04, filmstrip: 0 };
+// The hero takes this share of the content height; thumbnails share the rest.
+const HERO_SHARE = 0.55;
+
+
+// --- Helper Functions ---
+
+function framePartsFor(width: number, style: AlbumSlot['style']): Pick<AlbumSlot, 'photo' | 'caption'> {
+    if (style === 'film') {
+        const inset = width * 0.04;
+        const photoSize = width - inset * 2;
+        return {
+            photo: { x: inset, y: inset, width: photoSize, height: photoSize },
+            caption: { x: inset, y: inset + photoSize, width: photoSize, height: width * FILM_ASPECT - photoSize - inset },
+        };
+    }
+    const inset = width * 0.05;
+    const photoSize = width - inset * 2;
+    return {
+        photo: { x: inset, y: inset, width: photoSize, height: photoSize },
+        caption: { x: inset, y: inset + photoSize, width: photoSize, height: width * POLAROID_ASPECT - photoSize - inset },
+    };
+}
+
+function jitter(random: () => number, amount: number): number {
+    return (random() - 0.5) * 2 * amount;
+}
+
+/**
+ * Picks the column count that makes frames of the given aspect ratio as large as possible
+ * when `count` of them share an area.
+ */
+export function bestGridFor(count: number, area: Rect, aspect: number, gap: number): { cols: number; rows: number; frameWidth: number } {
+    let best = { cols: 1, rows: Math.max(1, count), frameWidth: 0 };
+    for (let cols = 1; cols <= Math.max(1, count); cols++) {
+        const rows = Math.ceil(count / cols);
+        const cellWidth = (area.width - gap * (cols - 1)) / cols;
+        const cellHeight = (area.height - gap * (rows - 1)) / rows;
+        const frameWidth = Math.max(0, Math.min(cellWidth, cellHeight / aspect) * CELL_FILL);
+        if (frameWidth > best.frameWidth) {
+            best = { cols, rows, frameWidth };
+        }
+    }
+    return best;
+}
+
+/**
+ * Lays `count` frames out on a grid within an area, centring a short last row.
+ * @returns The frames in reading order.
+ */
+export function gridFrames(count: number, area: Rect, aspect: number, gap: number): Rect[] {
+    if (count <= 0) return [];
+    const { cols, rows, frameWidth } = bestGridFor(count, area, aspect, gap);
+    const frameHeight = frameWidth * aspect;
+    const cellWidth = (area.width - gap * (cols - 1)) / cols;
+    const cellHeight = (area.height - gap * (rows - 1)) / rows;
+    const lastRowCount = count - cols * (rows - 1);
+
+    return Array.from({ length: count }, (_, i) => {
+        const row = Math.floor(i / cols);
+        const col = i % cols;
+        const rowOffset = row === rows - 1 ? ((cols - lastRowCount) * (cellWidth + gap)) / 2 : 0;
+        return {
+            x: area.x + rowOffset + col * (cellWidth + gap) + (cellWidth - frameWidth) / 2,
+            y: area.y + row * (cellHeight + gap) + (cellHeight - frameHeight) / 2,
+            width: frameWidth,
+            height: frameHeight,
+        };
+    });
+}
+
+/**
+ * Keeps all of a rotated frame inside an area: shrinks it about its centre if it is too big to
+ * fit at all, then moves it the least distance needed.
+ */
+export function clampToArea(frame: Rect, rotation: number, area: Rect): Rect {
+    const cos = Math.abs(Math.cos(rotation));
+    const sin = Math.abs(Math.sin(rotation));
+    const scale = Math.min(
+        1,
+        area.width / (frame.width * cos + frame.height * sin),
+        area.height / (frame.width * sin + frame.height * cos)
+    );
+    const width = frame.width * scale;
+    const height = frame.height * scale;
+    const halfWidth = (width * cos + height * sin) / 2;
+    const halfHeight = (width * sin + height * cos) / 2;
+    const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+    const centerX = clamp(frame.x + frame.width / 2, area.x + halfWidth, area.x + area.width - halfWidth);
+    const centerY = clamp(frame.y + frame.height / 2, area.y + halfHeight, area.y + area.height - halfHeight);
+    return { x: centerX - width / 2, y: centerY - height / 2, width, height };
+}
+
+/**
+ * The template used for 'auto': a hero with a full grid of thumbnails when the count is odd,
+ * since an odd count leaves a gap in a plain grid, and a grid otherwise.
+ */
+export function chooseAlbumTemplate(count: number): AlbumTemplate {
+    return count >= 3 && count <= 9 && count % 2 === 1 ? 'hero' : 'grid';
+}
+
+
+// --- Templates ---
+
+function toSlots(frames: Rect[], style: AlbumSlot['style'], rotations: number[], indexOffset = 0): AlbumSlot[] {
+    return frames.map((frame, i) => ({
+        index: i + indexOffset,
+        frame,
+        rotation: rotations[i] ?? 0,
+        style,
+        ...framePartsFor(frame.width, style),
+    }));
+}
+
+function gridLayout(count: number, content: Rect, options: AlbumLayoutOptions): AlbumSlot[] {
+    const frames = gridFrames(count, content, POLAROID_ASPECT, options.padding);
+    // Bottom rows are drawn first so the rows above overlap them.
+    return toSlots(frames, 'polaroid', frames.map(() => jitter(options.random, MAX_ROTATION.grid))).reverse();
+}
+
+function scatteredLayout(count: number, content: Rect, options: AlbumLayoutOptions): AlbumSlot[] {
+    // Start from the grid, then enlarge and nudge each frame so neighbours overlap a little.
+    const frames = gridFrames(count, content, POLAROID_ASPECT, options.padding).map(frame => {
+        const width = frame.width * 1.12;
+        const height = frame.height * 1.12;
+        const x = frame.x - (width - frame.width) / 2 + jitter(options.random, frame.width * 0.12);
+        const y = frame.y - (height - frame.height) / 2 + jitter(options.random, frame.height * 0.08);
+        return { x, y, width, height };
+    });
+    const rotations = frames.map(() => jitter(options.random, MAX_ROTATION.scattered));
+    return toSlots(
+        // Kept inside the content area, clear of the title in the header.
+        frames.map((frame, i) => clampToArea(frame, rotations[i], content)),
+        'polaroid',
+        rotations
+    ).reverse();
+}
+
+function heroLayout(count: number, content: Rect, options: AlbumLayoutOptions): AlbumSlot[] {
+    if (count <= 1) {
+        return gridLayout(count, content, options);
+    }
+    const heroArea = { ...content, height: content.height * HERO_SHARE };
+    const thumbArea = {
+        ...content,
+        y: heroArea.y + heroArea.height + options.padding / 2,
+        height: content.height - heroArea.height - options.padding / 2,
+    };
+    const [hero] = gridFrames(1, heroArea, POLAROID_ASPECT, options.padding);
+    const thumbs = gridFrames(count - 1, thumbArea, POLAROID_ASPECT, options.padding / 2);
+    const rotation = () => jitter(options.random, MAX_ROTATION.hero);
+    // Thumbnails are drawn first so the hero's shadow falls over them.
+    return [
+        ...toSlots(thumbs, 'polaroid', thumbs.map(rotation), 1).reverse(),
+        ...toSlots([hero], 'polaroid', [rotation()]),
+    ];
+}
+
+function filmstripLayout(count: number, content: Rect, options: AlbumLayoutOptions): { slots: AlbumSlot[]; bands: Rect[] } {
+    const gap = options.padding / 2;
+    const frames = gridFrames(count, content, FILM_ASPECT, gap);
+    // One band per row of frames, running the full width of the page.
+    const rowTops = Array.from(new Set(frames.map(frame => Math.round(frame.y))));
+    const bands = rowTops.map(top => {
+        const row = frames.find(frame => Math.round(frame.y) === top) as Rect;
+        const margin = row.width * 0.12;
+        return { x: 0, y: row.y - margin, width: options.width, height: row.height + margin * 2 };
+    });
+    return { slots: toSlots(frames, 'film', []), bands };
+}
+
+
+// --- Randomness ---
+
+/**
+ * A small, fast pseudo-random generator (mulberry32) for `random` options. The same seed
+ * always yields the same sequence, in every browser, so a seeded album can be redrawn exactly.
+ * @param seed A number, or any string (such as an album or order ID), which is hashed to one.
+ * @returns A function returning numbers in [0, 1), like `Math.random`.
+ */
+export function seededRandom(seed: number | string): () => number {
+    let state = typeof seed === 'number' ? seed >>> 0 : 0x811c9dc5;
+    if (typeof seed === 'string') {
+        // FNV-1a, so similar strings still start far apart.
+        for (let i = 0; i < seed.length; i++) {
+            state ^= seed.charCodeAt(i);
+            state = Math.imul(state, 0x01000193);
+        }
+    }
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+
+// --- Layout ---
+
+/**
+ * Works out where each of `count` photos goes on an album page.
+ * @param count How many photos; any number is laid out on one page, smaller as it grows.
+ * @param options Page size, template and randomness; defaults to an A4 page with an automatic template.
+ */
+export function layoutAlbumPage(count: number, options: Partial<AlbumLayoutOptions> = {}): AlbumPageLayout {
+    const resolved: AlbumLayoutOptions = { ...DEFAULT_ALBUM_LAYOUT_OPTIONS, ...options };
+    const template = resolved.template === 'auto' ? chooseAlbumTemplate(count) : resolved.template;
+    const content: Rect = {
+        x: resolved.padding,
+        y: resolved.headerHeight,
+        width: resolved.width - resolved.padding * 2,
+        height: resolved.height - resolved.headerHeight - resolved.padding,
+    };
+    const title = { x: resolved.width / 2, y: resolved.headerHeight / 2, fontSize: resolved.headerHeight * 0.4 };
+
+    if (template === 'filmstrip') {
+        return { template, width: resolved.width, height: resolved.height, title, ...filmstripLayout(count, content, resolved) };
+    }
+    const slots = template === 'hero'
+        ? heroLayout(count, content, resolved)
+        : template === 'scattered'
+            ? scatteredLayout(count, content, resolved)
+            : gridLayout(count, content, resolved);
+    return { template, width: resolved.width, height: resolved.height, title, bands: [], slots };
+}
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { seededRandom } from './albumLayout';
+import { renderAlbumCanvas } from './albumUtils';
+import type { AlbumPhoto, AlbumTextSink } from './albumUtils';
+import type { AlbumTemplate } from './albumLayout';
+import { createImagePdf } from './pdfWriter';
+import type { PdfImagePage, PdfTextRun } from './pdfWriter';
+import { fontCovers, parseTrueTypeFont } from './trueTypeFont';
+import type { TrueTypeFont } from './trueTypeFont';
+
+export interface AlbumPdfOptions {
+    title: string;
+    /** The line under the title on the cover; defaults to the photo count and today's date. */
+    subtitle?: string;
+    /** How many photos go on each album page after the cover. */
+    photosPerPage: number;
+    /** The layout of the album pages; the cover is always scattered. */
+    template: AlbumTemplate | 'auto';
+    /** The source of randomness for the hand-placed look; pass a seeded one for repeatable albums. */
+    random: () => number;
+    /**
+     * Makes the whole album reproducible, together with `date`: the same seed, photos and
+     * options always give the same file. Takes the place of `random` when set.
+     */
+    seed?: number | string;
+    /** The date on the cover and in the document's properties; defaults to now. */
+    date?: Date;
+    /** Called after each page is drawn, with the fraction of pages done. */
+    onProgress?: (fraction: number) => void;
+    /**
+     * Called once the album is built if some of its text had to be drawn into the page images
+     * instead of written as real text, with a sentence explaining why.
+     */
+    onTextRasterized?: (message: string) => void;
+}
+
+export const DEFAULT_ALBUM_PDF_OPTIONS: AlbumPdfOptions = {
+    title: 'My Y2K India Stylebook',
+    photosPerPage: 6,
+    template: 'auto',
+    random: Math.random,
+};
+
+// The cover shows the first few photos beneath a large title.
+const COVER_PHOTO_COUNT = 3;
+const COVER_HEADER_HEIGHT = 1100;
+const JPEG_QUALITY = 0.9;
+
+// The TrueType fonts embedded for the album's text styles, keyed by family and weight. They ship
+// with the app in public/fonts, since Google Fonts only serves browsers WOFF2 files.
+const EMBEDDED_FONTS: Record<string, string> = {
+    'Caveat bold': 'Caveat-Bold',
+    'Caveat normal': 'Caveat-Regular',
+    'Permanent Marker normal': 'PermanentMarker-Regular',
+};
+
+const embeddedFontCache = new Map<string, Promise<TrueTypeFont | null>>();
+
+
+// --- Helper Functions ---
+
+async function canvasToJpegPage(canvas: HTMLCanvasElement): Promise<PdfImagePage> {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!blob) {
+        throw new Error('Could not encode an album page.');
+    }
+    return { jpeg: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+}
+
+/**
+ * Fetches and parses one of the album's fonts for embedding, once per session.
+ * @returns The font, or null if it could not be loaded, in which case its text stays in the page images.
+ */
+function loadEmbeddedFont(key: string): Promise<TrueTypeFont | null> {
+    const name = EMBEDDED_FONTS[key];
+    let font = embeddedFontCache.get(key);
+    if (!font) {
+        font = (async () => {
+            try {
+                const response = await fetch(`fonts/${name}.ttf`);
+                if (!response.ok) {
+                    throw new Error(`HTTP ${response.status}`);
+                }
+                return parseTrueTypeFont(new Uint8Array(await response.arrayBuffer()), name);
+            } catch (error) {
+                console.warn(`Could not load ${name} for the PDF; its text will be part of the page images.`, error);
+                embeddedFontCache.delete(key);
+                return null;
+            }
+        })();
+        embeddedFontCache.set(key, font);
+    }
+    return font;
+}
+
+function parseHexColor(color: string): [number, number, number] {
+    const match = color.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+    return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : [0, 0, 0];
+}
+
+/**
+ * A text sink that collects every line an embedded font can show as PDF text. The rest, such as
+ * Devanagari captions, is drawn into the page image and listed in `rasterized`.
+ */
+function pdfTextSink(fonts: Map<string, TrueTypeFont>, texts: PdfTextRun[], rasterized: string[]): AlbumTextSink {
+    return run => {
+        const font = fonts.get(`${run.fontFamily} ${run.fontWeight}`);
+        if (!font || !fontCovers(font, run.text)) {
+            rasterized.push(run.text);
+            return false;
+        }
+        const m = run.transform;
+        texts.push({
+            text: run.text,
+            font,
+            size: run.fontSize,
+            color: parseHexColor(run.color),
+            transform: [m.a, m.b, m.c, m.d, m.e, m.f],
+            centerX: run.centerX,
+            baselineY: run.baselineY,
+        });
+        return true;
+    };
+}
+
+/**
+ * Splits photos into pages of at most `perPage`, spreading them evenly so the last page is
+ * not left with a lone photo (e.g. 7 photos at 6 a page become pages of 4 and 3).
+ */
+export function paginatePhotos<T>(photos: T[], perPage: number): T[][] {
+    if (photos.length === 0) return [];
+    const pageCount = Math.ceil(photos.length / Math.max(1, perPage));
+    const pages: T[][] = [];
+    let start = 0;
+    for (let page = 0; page < pageCount; page++) {
+        const size = Math.ceil((photos.length - start) / (pageCount - page));
+        pages.push(photos.slice(start, start + size));
+        start += size;
+    }
+    return pages;
+}
+
+
+// --- Export ---
+
+/**
+ * Builds a multi-page PDF photo album entirely in the browser: a cover, then the photos
+ * spread over numbered album pages laid out exactly like `createAlbumPage`. The pictures on
+ * each page become one A4 image; the title, captions and page numbers are written over it as
+ * real, selectable text in the app's fonts, embedded in the file. Text those fonts cannot show,
+ * or all of it if the fonts cannot be loaded, is drawn into the image instead, and
+ * `onTextRasterized` says so.
+ * @param photos The portraits, memes and other pictures to include, in order.
+ * @param options The title, page size, layout, and randomness or a seed.
+ * @param signal Aborts the export between pages.
+ * @returns A promise that resolves to the PDF file.
+ */
+export async function createAlbumPdf(photos: AlbumPhoto[], options: Partial<AlbumPdfOptions> = {}, signal?: AbortSignal): Promise<Blob> {
+    if (photos.length === 0) {
+        throw new Error('There are no photos to put in the album.');
+    }
+    const resolved: AlbumPdfOptions = { ...DEFAULT_ALBUM_PDF_OPTIONS, ...options };
+    const albumPages = paginatePhotos(photos, resolved.photosPerPage);
+    const totalPages = albumPages.length + 1;
+    // One stream for the whole album, so pages with the same number of photos still differ.
+    const random = resolved.seed !== undefined ? seededRandom(resolved.seed) : resolved.random;
+    const date = resolved.date ?? new Date();
+    const subtitle = resolved.subtitle
+        ?? `${photos.length} photo${photos.length === 1 ? '' : 's'} · ${date.toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' })}`;
+
+    const fonts = new Map<string, TrueTypeFont>();
+    await Promise.all(Object.keys(EMBEDDED_FONTS).map(async key => {
+        const font = await loadEmbeddedFont(key);
+        if (font) fonts.set(key, font);
+    }));
+    signal?.throwIfAborted();
+
+    const rasterized: string[] = [];
+    const pages: PdfImagePage[] = [];
+    const coverTexts: PdfTextRun[] = [];
+    const cover = await renderAlbumCanvas(
+        photos.slice(0, COVER_PHOTO_COUNT),
+        { title: resolved.title, subtitle, template: 'scattered', random },
+        { headerHeight: COVER_HEADER_HEIGHT },
+        pdfTextSink(fonts, coverTexts, rasterized)
+    );
+    pages.push({ ...await canvasToJpegPage(cover), texts: coverTexts });
+    resolved.onProgress?.(1 / totalPages);
+
+    for (const [i, pagePhotos] of albumPages.entries()) {
+        signal?.throwIfAborted();
+        const texts: PdfTextRun[] = [];
+        const canvas = await renderAlbumCanvas(pagePhotos, {
+            title: resolved.title,
+            template: resolved.template,
+            random,
+            footer: `${i + 1} / ${albumPages.length}`,
+        }, {}, pdfTextSink(fonts, texts, rasterized));
+        pages.push({ ...await canvasToJpegPage(canvas), texts });
+        resolved.onProgress?.((i + 2) / totalPages);
+    }
+
+    if (rasterized.length > 0) {
+        resolved.onTextRasterized?.(fonts.size < Object.keys(EMBEDDED_FONTS).length
+            ? "The album fonts could not be loaded, so some text in the PDF is part of the page images and cannot be selected or searched."
+            : `Some text uses characters the album fonts lack, so it is part of the page images and cannot be selected or searched: ${rasterized.map(line => `"${line}"`).join(', ')}.`);
+    }
+    return new Blob([createImagePdf(pages, { title: resolved.title, creationDate: date })], { type: 'application/pdf' });
+}
@@ -2,6 +2,11 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import { layoutAlbumPage, seededRandom } from './albumLayout';
+import type { AlbumLayoutOptions, AlbumSlot, AlbumTemplate, Rect } from './albumLayout';
+import { DEFAULT_MEME_STYLE, fitCaption, loadCaptionFonts } from './memeRenderer';
+import type { MemeStyle } from './memeRenderer';
+
 // Helper function to load an image and return it as an HTMLImageElement
 function loadImage(src: string): Promise<HTMLImageElement> {
     return new Promise((resolve, reject) => {
@@ -15,18 +20,227 @@ function loadImage(src: string): Promise<HTMLImageElement> {
 }
 
 /**
- * Creates a single "photo album" page image from a collection of decade images.
- * @param imageData A record mapping style strings to their image data URLs.
- * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
+ * A photo on an album page and the caption written under it.
+ */
+export interface AlbumPhoto {
+    caption: string;
+    url: string;
+}
+
+/**
+ * Options for an album page.
+ */
+export interface AlbumPageOptions {
+    title: string;
+    /** A smaller line under the title, such as a date. */
+    subtitle?: string;
+    /** A layout template, or 'auto' to pick one for the number of images. */
+    template: AlbumTemplate | 'auto';
+    /** The source of randomness for the hand-placed look; pass a seeded one for repeatable pages. */
+    random: () => number;
+    /**
+     * Makes the page reproducible: the same seed, photos and options always draw the same
+     * pixels. Takes the place of `random` when set.
+     */
+    seed?: number | string;
+    /** Text centred at the foot of the page, such as a page number. */
+    footer?: string;
+}
+
+/**
+ * One line of album text, handed to a text sink instead of being drawn onto the page.
+ */
+export interface AlbumTextRun {
+    text: string;
+    /** The first family of the style's font stack, e.g. "Caveat". */
+    fontFamily: string;
+    fontWeight: string;
+    /** In page pixels, before `transform`. */
+    fontSize: number;
+    /** The canvas fill style, e.g. "#333333". */
+    color: string;
+    /** The canvas transform the line would be drawn under. */
+    transform: DOMMatrix;
+    /** Where the middle of the line's baseline goes, in the transformed coordinates. */
+    centerX: number;
+    baselineY: number;
+}
+
+/**
+ * Takes a line of text to draw some other way, e.g. as real PDF text. Returns false to have
+ * the line drawn onto the page after all.
  */
-export async function createAlbumPage(imageData: Record<string, string>): Promise<string> {
+export type AlbumTextSink = (run: AlbumTextRun) => boolean;
+
+const DEFAULT_ALBUM_PAGE_OPTIONS: AlbumPageOptions = {
+    title: 'My Y2K India Stylebook',
+    template: 'auto',
+    random: Math.random,
+};
+
+// The strip at the foot of the page where the footer goes; it sits inside the layout's bottom padding.
+const FOOTER_HEIGHT = 100;
+
+// Titles shrink to fit the header, down to 40% of the layout's title size, over at most two lines.
+const TITLE_STYLE: MemeStyle = {
+    ...DEFAULT_MEME_STYLE,
+    fontFamily: "'Caveat', cursive",
+    fontWeight: 'bold',
+    maxFontRatio: 1,
+    minFontRatio: 0.4,
+    maxLines: 2,
+    lineHeight: 1,
+    uppercase: false,
+};
+
+const SUBTITLE_STYLE: MemeStyle = { ...TITLE_STYLE, fontWeight: 'normal', maxLines: 1 };
+const FOOTER_STYLE: MemeStyle = { ...TITLE_STYLE, maxLines: 1 };
+
+// Captions shrink to fit their strip, wrap onto a second line, and only then are cut short.
+const CAPTION_STYLE: MemeStyle = {
+    ...DEFAULT_MEME_STYLE,
+    fontFamily: "'Permanent Marker', cursive",
+    fontWeight: 'normal',
+    maxFontRatio: 0.55,
+    minFontRatio: 0.2,
+    maxLines: 2,
+    lineHeight: 1.05,
+    uppercase: false,
+};
+
+function unquote(family: string): string {
+    return family.trim().replace(/^['"]|['"]$/g, '');
+}
+
+function primaryFamily(fontFamily: string): string {
+    return unquote(fontFamily.split(',')[0]);
+}
+
+/**
+ * Loads the web fonts each style draws with, so the canvas does not fall back to a default font.
+ * Only the parts of a font that cover `text` are fetched. Pages still render, in a fallback
+ * font, when the fonts are unavailable, e.g. offline or without the page's font stylesheet.
+ */
+async function loadFonts(uses: { style: MemeStyle; text: string }[]): Promise<void> {
+    for (const { style } of uses) {
+        const family = primaryFamily(style.fontFamily);
+        if (!Array.from(document.fonts).some(face => unquote(face.family) === family)) {
+            console.warn(`The album font "${family}" is not declared; the album will use a fallback font.`);
+        }
+    }
+    await loadCaptionFonts(uses);
+}
+
+function drawSlot(ctx: CanvasRenderingContext2D, slot: AlbumSlot, img: HTMLImageElement, caption: string, textSink?: AlbumTextSink) {
+    const { frame, photo } = slot;
+    ctx.save();
+
+    // Translate context to the center of the frame for rotation
+    ctx.translate(frame.x + frame.width / 2, frame.y + frame.height / 2);
+    ctx.rotate(slot.rotation);
+    ctx.translate(-frame.width / 2, -frame.height / 2);
+
+    // Draw the frame with a soft shadow, then remove the shadow for subsequent drawing
+    ctx.shadowColor = slot.style === 'film' ? 'transparent' : 'rgba(0, 0, 0, 0.3)';
+    ctx.shadowBlur = 35;
+    ctx.shadowOffsetX = 5;
+    ctx.shadowOffsetY = 10;
+    ctx.fillStyle = slot.style === 'film' ? '#111' : '#fff';
+    ctx.fillRect(0, 0, frame.width, frame.height);
+    ctx.shadowColor = 'transparent';
+
+    // Fit the image within the photo area while maintaining aspect ratio
+    const aspectRatio = img.naturalWidth / img.naturalHeight;
+    let drawWidth = photo.width;
+    let drawHeight = drawWidth / aspectRatio;
+    if (drawHeight > photo.height) {
+        drawHeight = photo.height;
+        drawWidth = drawHeight * aspectRatio;
+    }
+    ctx.drawImage(img, photo.x + (photo.width - drawWidth) / 2, photo.y + (photo.height - drawHeight) / 2, drawWidth, drawHeight);
+
+    // Draw the handwritten caption, fitted to its strip
+    const box = slot.caption;
+    ctx.fillStyle = slot.style === 'film' ? '#f5f5f5' : '#222';
+    drawFittedText(ctx, caption, box.x + box.width / 2, box.y + box.height / 2, { width: box.width, height: box.height * 0.9 }, box.height * CAPTION_STYLE.maxFontRatio, CAPTION_STYLE, textSink);
+
+    ctx.restore();
+}
+
+// Sprocket holes along both edges of a film-strip band.
+function drawBand(ctx: CanvasRenderingContext2D, band: Rect) {
+    ctx.fillStyle = '#111';
+    ctx.fillRect(band.x, band.y, band.width, band.height);
+    const hole = band.height * 0.04;
+    ctx.fillStyle = '#fdf5e6';
+    for (let x = band.x + hole; x < band.x + band.width - hole; x += hole * 3) {
+        ctx.fillRect(x, band.y + hole, hole * 1.5, hole);
+        ctx.fillRect(x, band.y + band.height - hole * 2, hole * 1.5, hole);
+    }
+}
+
+// Draws a block of text centred on a point, shrinking and wrapping it to fit the box. Lines the
+// sink takes are left off the page.
+function drawFittedText(ctx: CanvasRenderingContext2D, text: string, centerX: number, centerY: number, box: { width: number; height: number }, maxFontSize: number, style: MemeStyle, textSink?: AlbumTextSink) {
+    const { fontSize, lines } = fitCaption(ctx, text, box.width, box.height, maxFontSize / style.maxFontRatio, style);
+    const lineHeight = fontSize * style.lineHeight;
+    const roundedSize = Math.round(fontSize);
+    ctx.font = `${style.fontWeight} ${roundedSize}px ${style.fontFamily}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    const firstLineY = centerY - ((lines.length - 1) * lineHeight) / 2;
+    lines.forEach((line, i) => {
+        // Centre each line's font box on its place, from an explicit baseline that a sink can reuse.
+        const metrics = ctx.measureText(line);
+        const baselineY = firstLineY + i * lineHeight + (metrics.fontBoundingBoxAscent - metrics.fontBoundingBoxDescent) / 2;
+        const taken = textSink?.({
+            text: line,
+            fontFamily: primaryFamily(style.fontFamily),
+            fontWeight: style.fontWeight,
+            fontSize: roundedSize,
+            color: String(ctx.fillStyle),
+            transform: ctx.getTransform(),
+            centerX,
+            baselineY,
+        });
+        if (!taken) {
+            ctx.fillText(line, centerX, baselineY);
+        }
+    });
+}
+
+/**
+ * Draws one album page onto a new canvas: the title, then the photos in their layout.
+ * @param photos The photos and their captions, in page order.
+ * @param options The title, layout template, randomness or seed, and footer.
+ * @param layoutOptions Overrides for the page geometry, e.g. a taller header for a cover.
+ * @param textSink Takes the page's lines of text to draw elsewhere; by default all are drawn on the page.
+ * @returns A promise that resolves to the canvas holding the page.
+ */
+export async function renderAlbumCanvas(
+    photos: AlbumPhoto[],
+    options: Partial<AlbumPageOptions> = {},
+    layoutOptions: Partial<Pick<AlbumLayoutOptions, 'headerHeight' | 'padding'>> = {},
+    textSink?: AlbumTextSink
+): Promise<HTMLCanvasElement> {
+    const resolved = { ...DEFAULT_ALBUM_PAGE_OPTIONS, ...options };
+    const random = resolved.seed !== undefined ? seededRandom(resolved.seed) : resolved.random;
+    const layout = layoutAlbumPage(photos.length, { ...layoutOptions, template: resolved.template, random });
+
+    // Load all the images and fonts concurrently, before anything is drawn
+    const [loadedImages] = await Promise.all([
+        Promise.all(photos.map(photo => loadImage(photo.url))),
+        loadFonts([
+            { style: TITLE_STYLE, text: `${resolved.title}${resolved.footer ?? ''}` },
+            { style: SUBTITLE_STYLE, text: resolved.subtitle ?? '' },
+            { style: CAPTION_STYLE, text: photos.map(photo => photo.caption).join('') },
+        ].filter(use => use.text)),
+    ]);
+
     const canvas = document.createElement('canvas');
-    // High-resolution canvas for good quality (A4-like ratio)
-    const canvasWidth = 2480;
-    const canvasHeight = 3508;
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
-    
+    canvas.width = layout.width;
+    canvas.height = layout.height;
+
     const ctx = canvas.getContext('2d');
     if (!ctx) {
         throw new Error('Could not get 2D canvas context');
@@ -34,118 +248,41 @@ export async function createAlbumPage(imageData: Record<string, string>): Promis
 
     // 1. Draw the album page background
     ctx.fillStyle = '#fdf5e6'; // A warm, parchment-like color
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    ctx.fillRect(0, 0, layout.width, layout.height);
 
-    // 2. Draw the title
+    // 2. Draw the title, and the subtitle beneath it
     ctx.fillStyle = '#333';
-    ctx.textAlign = 'center';
+    const titleY = resolved.subtitle ? layout.title.y - layout.title.fontSize * 0.3 : layout.title.y;
+    drawFittedText(ctx, resolved.title, layout.title.x, titleY, { width: layout.width * 0.85, height: layout.title.fontSize * 1.6 }, layout.title.fontSize, TITLE_STYLE, textSink);
+    if (resolved.subtitle) {
+        ctx.fillStyle = '#666';
+        drawFittedText(ctx, resolved.subtitle, layout.title.x, layout.title.y + layout.title.fontSize * 0.75, { width: layout.width * 0.8, height: layout.title.fontSize * 0.4 }, layout.title.fontSize * 0.3, SUBTITLE_STYLE, textSink);
+    }
+
+    // 3. Draw the film-strip bands, if any, then each frame back to front
+    layout.bands.forEach(band => drawBand(ctx, band));
+    layout.slots.forEach(slot => drawSlot(ctx, slot, loadedImages[slot.index], photos[slot.index].caption, textSink));
 
-    ctx.font = `bold 160px 'Caveat', cursive`;
-    ctx.fillText('My Y2K India Stylebook', canvasWidth / 2, 200);
-
-    // 3. Load all the polaroid images concurrently
-    const styles = Object.keys(imageData);
-    const loadedImages = await Promise.all(
-        Object.values(imageData).map(url => loadImage(url))
-    );
-
-    const imagesWithStyles = styles.map((style, index) => ({
-        style,
-        img: loadedImages[index],
-    }));
-
-    // 4. Define grid layout and draw each polaroid
-    const grid = { cols: 2, rows: 2, padding: 120 };
-    const contentTopMargin = 400; // Space for the header
-    const contentHeight = canvasHeight - contentTopMargin;
-    const cellWidth = (canvasWidth - grid.padding * (grid.cols + 1)) / grid.cols;
-    const cellHeight = (contentHeight - grid.padding * (grid.rows + 1)) / grid.rows;
-
-    // Calculate polaroid dimensions to fit inside the grid cell with a margin
-    const polaroidAspectRatio = 1.2; // height is 1.2 times width
-    const maxPolaroidWidth = cellWidth * 0.9;
-    const maxPolaroidHeight = cellHeight * 0.9;
-
-    let polaroidWidth = maxPolaroidWidth;
-    let polaroidHeight = polaroidWidth * polaroidAspectRatio;
-
-    if (polaroidHeight > maxPolaroidHeight) {
-        polaroidHeight = maxPolaroidHeight;
-        polaroidWidth = polaroidHeight / polaroidAspectRatio;
+    // 4. Draw the footer, e.g. a page number
+    if (resolved.footer) {
+        ctx.fillStyle = '#666';
+        drawFittedText(ctx, resolved.footer, layout.width / 2, layout.height - FOOTER_HEIGHT / 2, { width: layout.width * 0.5, height: FOOTER_HEIGHT }, FOOTER_HEIGHT * 0.6, FOOTER_STYLE, textSink);
     }
 
-    const imageContainerWidth = polaroidWidth * 0.9;
-    const imageContainerHeight = imageContainerWidth; // Classic square-ish photo area
-
-    // Reverse the drawing order: draw bottom rows first so top rows are rendered on top
-    const reversedImages = [...imagesWithStyles].reverse();
-    reversedImages.forEach(({ style, img }, reversedIndex) => {
-        // Calculate the original index to determine grid position
-        const index = imagesWithStyles.length - 1 - reversedIndex;
-
-        const row = Math.floor(index / grid.cols);
-        const col = index % grid.cols;
-
-        // Calculate top-left corner of the polaroid within its grid cell
-        const x = grid.padding * (col + 1) + cellWidth * col + (cellWidth - polaroidWidth) / 2;
-        const y = contentTopMargin + grid.padding * (row + 1) + cellHeight * row + (cellHeight - polaroidHeight) / 2;
-        
-        ctx.save();
-        
-        // Translate context to the center of the polaroid for rotation
-        ctx.translate(x + polaroidWidth / 2, y + polaroidHeight / 2);
-        
-        // Apply a slight, random rotation for a hand-placed look
-        const rotation = (Math.random() - 0.5) * 0.1; // Radians (approx. +/- 2.8 degrees)
-        ctx.rotate(rotation);
-        
-        // Draw a soft shadow
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
-        ctx.shadowBlur = 35;
-        ctx.shadowOffsetX = 5;
-        ctx.shadowOffsetY = 10;
-        
-        // Draw the white polaroid frame (centered at the new origin)
-        ctx.fillStyle = '#fff';
-        ctx.fillRect(-polaroidWidth / 2, -polaroidHeight / 2, polaroidWidth, polaroidHeight);
-        
-        // Remove shadow for subsequent drawing
-        ctx.shadowColor = 'transparent';
-        
-        // Calculate image dimensions to fit while maintaining aspect ratio
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        let drawWidth = imageContainerWidth;
-        let drawHeight = drawWidth / aspectRatio;
-
-        if (drawHeight > imageContainerHeight) {
-            drawHeight = imageContainerHeight;
-            drawWidth = drawHeight * aspectRatio;
-        }
+    return canvas;
+}
 
-        // Calculate position to center the image within its container area
-        const imageAreaTopMargin = (polaroidWidth - imageContainerWidth) / 2;
-        const imageContainerY = -polaroidHeight / 2 + imageAreaTopMargin;
-        
-        const imgX = -drawWidth / 2; // Horizontally centered due to context translation
-        const imgY = imageContainerY + (imageContainerHeight - drawHeight) / 2;
-        
-        ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
-        
-        // Draw the handwritten caption
-        ctx.fillStyle = '#222';
-        ctx.font = `80px 'Permanent Marker', cursive`;
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-
-        const captionAreaTop = imageContainerY + imageContainerHeight;
-        const captionAreaBottom = polaroidHeight / 2;
-        const captionY = captionAreaTop + (captionAreaBottom - captionAreaTop) / 2;
-
-        ctx.fillText(style, 0, captionY);
-        
-        ctx.restore(); // Restore context to pre-transformation state
-    });
+/**
+ * Creates a single "photo album" page image from any number of images.
+ * @param imageData A record mapping captions to their image data URLs, in page order.
+ * @param options The title, layout template, and randomness or a seed; with a seed the same
+ * images always give the same page, byte for byte.
+ * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
+ */
+export async function createAlbumPage(imageData: Record<string, string>, options: Partial<AlbumPageOptions> = {}): Promise<string> {
+    const photos = Object.entries(imageData).map(([caption, url]) => ({ caption, url }));
+    const canvas = await renderAlbumCanvas(photos, options);
 
     // Convert canvas to a high-quality JPEG and return the data URL
     return canvas.toDataURL('image/jpeg', 0.9);
-}
\ No newline at end of file
+}
@@ -0,0 +1,297 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * One frame of an animated GIF.
+ */
+export interface GifFrame {
+    /** RGBA pixels, as returned by `getImageData`. Alpha is ignored. */
+    data: Uint8ClampedArray;
+}
+
+export interface GifEncodeOptions {
+    width: number;
+    height: number;
+    /** How long each frame is shown. GIFs store this in hundredths of a second. */
+    delayMs: number;
+    /** Whether the animation repeats forever. */
+    loop: boolean;
+    /** Called after each frame is written, with the fraction of frames done. */
+    onProgress?: (fraction: number) => void;
+}
+
+const MAX_COLORS = 256;
+const MAX_LZW_CODE = 4096;
+
+// Colours are bucketed to 5 bits per channel before quantizing, which keeps the histogram
+// small enough to build over every frame.
+const BUCKET_COUNT = 1 << 15;
+
+function bucketOf(data: Uint8ClampedArray, offset: number): number {
+    return ((data[offset] >> 3) << 10) | ((data[offset + 1] >> 3) << 5) | (data[offset + 2] >> 3);
+}
+
+function channelOf(bucket: number, channel: number): number {
+    return (bucket >> (10 - channel * 5)) & 31;
+}
+
+
+// --- Palette ---
+
+interface ColorBox {
+    buckets: number[];
+    count: number;
+}
+
+function boxRange(box: ColorBox): { channel: number; range: number } {
+    let best = { channel: 0, range: -1 };
+    for (let channel = 0; channel < 3; channel++) {
+        let min = 31;
+        let max = 0;
+        for (const bucket of box.buckets) {
+            const value = channelOf(bucket, channel);
+            if (value < min) min = value;
+            if (value > max) max = value;
+        }
+        if (max - min > best.range) best = { channel, range: max - min };
+    }
+    return best;
+}
+
+// Splits a box at the pixel-weighted median of its widest channel.
+function splitBox(box: ColorBox, channel: number, histogram: Uint32Array): [ColorBox, ColorBox] {
+    const sorted = [...box.buckets].sort((a, b) => channelOf(a, channel) - channelOf(b, channel));
+    let seen = 0;
+    let cut = 1;
+    for (; cut < sorted.length; cut++) {
+        seen += histogram[sorted[cut - 1]];
+        if (seen >= box.count / 2) break;
+    }
+    cut = Math.min(cut, sorted.length - 1);
+    const left = sorted.slice(0, cut);
+    const right = sorted.slice(cut);
+    const sum = (buckets: number[]) => buckets.reduce((total, bucket) => total + histogram[bucket], 0);
+    return [{ buckets: left, count: sum(left) }, { buckets: right, count: sum(right) }];
+}
+
+/**
+ * Picks up to 256 colours for a set of frames by median cut, so one palette serves the whole
+ * animation and colours do not flicker between frames.
+ * @returns The palette as RGB triples, and the palette index for every colour bucket.
+ */
+function buildPalette(frames: GifFrame[]): { palette: Uint8Array; indexOfBucket: Uint8Array } {
+    const histogram = new Uint32Array(BUCKET_COUNT);
+    for (const frame of frames) {
+        for (let offset = 0; offset < frame.data.length; offset += 4) {
+            histogram[bucketOf(frame.data, offset)]++;
+        }
+    }
+
+    const used: number[] = [];
+    let total = 0;
+    histogram.forEach((count, bucket) => {
+        if (count > 0) {
+            used.push(bucket);
+            total += count;
+        }
+    });
+
+    const boxes: ColorBox[] = [{ buckets: used, count: total }];
+    while (boxes.length < MAX_COLORS) {
+        let target = -1;
+        let targetScore = 0;
+        let targetChannel = 0;
+        boxes.forEach((box, index) => {
+            if (box.buckets.length < 2) return;
+            const { channel, range } = boxRange(box);
+            // Prefer splitting boxes that are both wide and busy.
+            const score = range * Math.sqrt(box.count);
+            if (score > targetScore) {
+                target = index;
+                targetScore = score;
+                targetChannel = channel;
+            }
+        });
+        if (target < 0) break;
+        boxes.splice(target, 1, ...splitBox(boxes[target], targetChannel, histogram));
+    }
+
+    const palette = new Uint8Array(MAX_COLORS * 3);
+    const indexOfBucket = new Uint8Array(BUCKET_COUNT);
+    boxes.forEach((box, index) => {
+        const sums = [0, 0, 0];
+        for (const bucket of box.buckets) {
+            for (let channel = 0; channel < 3; channel++) {
+                sums[channel] += channelOf(bucket, channel) * histogram[bucket];
+            }
+            indexOfBucket[bucket] = index;
+        }
+        for (let channel = 0; channel < 3; channel++) {
+            const value = box.count > 0 ? sums[channel] / box.count : 0;
+            // Spread the 5-bit average back over the full 8-bit range.
+            palette[index * 3 + channel] = Math.min(255, Math.round(value * 255 / 31));
+        }
+    });
+    return { palette, indexOfBucket };
+}
+
+
+// --- LZW ---
+
+class ByteWriter {
+    private bytes: number[] = [];
+
+    byte(value: number) {
+        this.bytes.push(value & 0xff);
+    }
+
+    short(value: number) {
+        this.byte(value);
+        this.byte(value >> 8);
+    }
+
+    ascii(text: string) {
+        for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+    }
+
+    append(values: ArrayLike<number>) {
+        for (let i = 0; i < values.length; i++) this.bytes.push(values[i]);
+    }
+
+    toUint8Array(): Uint8Array {
+        return Uint8Array.from(this.bytes);
+    }
+}
+
+/**
+ * Compresses palette indices with GIF's variable-width LZW and wraps the result in the
+ * 255-byte sub-blocks the format expects.
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number, out: ByteWriter): void {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    const table = new Map<number, number>();
+
+    const block: number[] = [];
+    let bitBuffer = 0;
+    let bitCount = 0;
+    const flushBlock = () => {
+        out.byte(block.length);
+        out.append(block);
+        block.length = 0;
+    };
+    const emit = (code: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            block.push(bitBuffer & 0xff);
+            if (block.length === 255) flushBlock();
+            bitBuffer >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    out.byte(minCodeSize);
+    emit(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const key = (prefix << 8) | indices[i];
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+        emit(prefix);
+        if (nextCode === MAX_LZW_CODE) {
+            emit(clearCode);
+            table.clear();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = indices[i];
+    }
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) {
+        block.push(bitBuffer & 0xff);
+    }
+    if (block.length > 0) flushBlock();
+    out.byte(0);
+}
+
+
+// --- Encoding ---
+
+/**
+ * Encodes frames as an animated GIF with a single shared palette.
+ * @param frames The frames, all `width` by `height`.
+ * @param options The frame size, timing and looping.
+ * @returns A promise that resolves to the GIF file's bytes. It yields between frames so a long
+ * clip does not freeze the page.
+ */
+export async function encodeGif(frames: GifFrame[], options: GifEncodeOptions): Promise<Uint8Array> {
+    if (frames.length === 0) {
+        throw new Error('A GIF needs at least one frame.');
+    }
+    const { width, height } = options;
+    const { palette, indexOfBucket } = buildPalette(frames);
+    const delay = Math.max(2, Math.round(options.delayMs / 10));
+
+    const out = new ByteWriter();
+    out.ascii('GIF89a');
+    out.short(width);
+    out.short(height);
+    out.byte(0xf7); // A global colour table of 256 entries, 8 bits per channel.
+    out.byte(0);
+    out.byte(0);
+    out.append(palette);
+
+    if (options.loop) {
+        out.byte(0x21);
+        out.byte(0xff);
+        out.byte(11);
+        out.ascii('NETSCAPE2.0');
+        out.byte(3);
+        out.byte(1);
+        out.short(0); // Repeat forever.
+        out.byte(0);
+    }
+
+    const indices = new Uint8Array(width * height);
+    for (let f = 0; f < frames.length; f++) {
+        const { data } = frames[f];
+        for (let pixel = 0, offset = 0; pixel < indices.length; pixel++, offset += 4) {
+            indices[pixel] = indexOfBucket[bucketOf(data, offset)];
+        }
+
+        // Graphic control: leave the frame in place, no transparency.
+        out.byte(0x21);
+        out.byte(0xf9);
+        out.byte(4);
+        out.byte(0x04);
+        out.short(delay);
+        out.byte(0);
+        out.byte(0);
+
+        out.byte(0x2c);
+        out.short(0);
+        out.short(0);
+        out.short(width);
+        out.short(height);
+        out.byte(0);
+        lzwEncode(indices, 8, out);
+
+        options.onProgress?.((f + 1) / frames.length);
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    out.byte(0x3b);
+    return out.toUint8Array();
+}
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A minimal promise-based key-value store backed by a single IndexedDB object store.
+ */
+export interface IdbStore<T> {
+    get(key: string): Promise<T | undefined>;
+    getAll(): Promise<T[]>;
+    put(key: string, value: T): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+// Wraps an IDBRequest in a promise that settles with its result.
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Opens (creating if needed) a database holding one object store with out-of-line keys.
+ * The connection is opened lazily on first use and then reused.
+ * @param dbName The IndexedDB database name.
+ * @param storeName The object store name within the database.
+ * @returns A store exposing get/put/delete over the object store.
+ */
+export function createIdbStore<T>(dbName: string, storeName: string): IdbStore<T> {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+
+    const getDb = (): Promise<IDBDatabase> => {
+        if (!dbPromise) {
+            dbPromise = new Promise((resolve, reject) => {
+                if (typeof indexedDB === 'undefined') {
+                    reject(new Error('IndexedDB is not available in this environment.'));
+                    return;
+                }
+                const request = indexedDB.open(dbName, 1);
+                request.onupgradeneeded = () => {
+                    if (!request.result.objectStoreNames.contains(storeName)) {
+                        request.result.createObjectStore(storeName);
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Allow a later call to retry if opening failed.
+            dbPromise.catch(() => { dbPromise = null; });
+        }
+        return dbPromise;
+    };
+
+    const withStore = async <R,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+        const db = await getDb();
+        const transaction = db.transaction(storeName, mode);
+        // Writes only count once the transaction has committed, not when the request succeeds.
+        const committed = new Promise<void>((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+        // A failed request also aborts the transaction; that error is reported by the request below.
+        committed.catch(() => {});
+        const result = await requestToPromise(action(transaction.objectStore(storeName)));
+        await committed;
+        return result;
+    };
+
+    return {
+        get: (key) => withStore('readonly', store => store.get(key) as IDBRequest<T | undefined>),
+        getAll: () => withStore('readonly', store => store.getAll() as IDBRequest<T[]>),
+        put: async (key, value) => { await withStore('readwrite', store => store.put(value, key)); },
+        delete: async (key) => { await withStore('readwrite', store => store.delete(key)); },
+        clear: async () => { await withStore('readwrite', store => store.clear()); },
+    };
+}
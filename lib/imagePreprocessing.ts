@@ -0,0 +1,256 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Image types the models accept and that every browser can encode from a canvas. */
+export type PreprocessMimeType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export const SUPPORTED_IMAGE_MIME_TYPES: readonly string[] = ['image/jpeg', 'image/png', 'image/webp'];
+
+export interface ImagePreprocessOptions {
+    /** The largest allowed width × height. Bigger images are scaled down, keeping their aspect ratio. */
+    maxPixels: number;
+    /** The largest allowed encoded size. Quality, then resolution, is reduced until the image fits. */
+    maxBytes: number;
+    /** The type images are re-encoded to. */
+    mimeType: PreprocessMimeType;
+    /** The starting encoder quality for lossy types, from 0 to 1. */
+    quality: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: ImagePreprocessOptions = {
+    maxPixels: 1536 * 1536,
+    maxBytes: 1_500_000,
+    mimeType: 'image/jpeg',
+    quality: 0.9,
+};
+
+export interface PreprocessedImage {
+    dataUrl: string;
+    mimeType: string;
+    width: number;
+    height: number;
+    bytes: number;
+}
+
+// Lossy re-encodes never go below this quality; resolution is reduced instead.
+const MIN_QUALITY = 0.6;
+const QUALITY_STEP = 0.1;
+const SCALE_STEP = 0.8;
+const MAX_ENCODE_ATTEMPTS = 10;
+
+
+// --- Helper Functions ---
+
+/**
+ * Decodes a data URL (base64 or percent-encoded) into a Blob of its bytes.
+ * @throws Error if the string is not a data URL.
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+    const match = dataUrl.match(/^data:([^;,]*)([^,]*),/);
+    if (!match) {
+        throw new Error("Expected an image data URL.");
+    }
+    const payload = dataUrl.substring(match[0].length);
+    const binary = match[2].endsWith(';base64') ? atob(payload) : decodeURIComponent(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: match[1] });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error("Failed to read image data."));
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Checks an encoded image for metadata segments that could carry EXIF (including GPS and orientation),
+ * XMP or free-form text.
+ */
+function hasMetadata(bytes: Uint8Array, mimeType: string): boolean {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const ascii = (offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+    if (mimeType === 'image/jpeg') {
+        // Walk the segments up to the start of the image data. APP1 holds EXIF and XMP, APP13 holds IPTC.
+        let offset = 2;
+        while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+            const marker = bytes[offset + 1];
+            if (marker === 0xDA) return false;
+            if (marker === 0xE1 || marker === 0xED) return true;
+            offset += 2 + view.getUint16(offset + 2);
+        }
+        return false;
+    }
+    if (mimeType === 'image/png') {
+        let offset = 8;
+        while (offset + 8 <= bytes.length) {
+            const type = ascii(offset + 4, 4);
+            if (type === 'eXIf' || type === 'tEXt' || type === 'iTXt' || type === 'zTXt') return true;
+            if (type === 'IDAT') return false;
+            offset += 12 + view.getUint32(offset);
+        }
+        return false;
+    }
+    if (mimeType === 'image/webp') {
+        let offset = 12;
+        while (offset + 8 <= bytes.length) {
+            const type = ascii(offset, 4);
+            if (type === 'EXIF' || type === 'XMP ') return true;
+            const size = view.getUint32(offset + 4, true);
+            offset += 8 + size + (size % 2);
+        }
+        return false;
+    }
+    return true;
+}
+
+// Decodes an image with its EXIF orientation applied, so the pixels are upright.
+async function decodeImage(blob: Blob): Promise<ImageBitmap | HTMLImageElement> {
+    try {
+        return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    } catch {
+        // Some formats (e.g. SVG) can only be decoded through an <img>, which also honours EXIF orientation.
+        const url = URL.createObjectURL(blob);
+        try {
+            return await new Promise<HTMLImageElement>((resolve, reject) => {
+                const img = new Image();
+                img.onload = () => resolve(img);
+                img.onerror = () => reject(new Error(`This image could not be decoded${blob.type ? ` (${blob.type})` : ''}.`));
+                img.src = url;
+            });
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+}
+
+function encodeCanvas(canvas: HTMLCanvasElement, mimeType: PreprocessMimeType, quality: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            blob => blob ? resolve(blob) : reject(new Error("Failed to encode the image.")),
+            mimeType,
+            quality
+        );
+    });
+}
+
+
+// --- Preprocessing ---
+
+/**
+ * Prepares an image for upload to a model: applies its EXIF orientation, scales it down to the pixel
+ * budget, re-encodes it to a supported type within the byte budget, and drops all metadata (such as
+ * GPS location) by redrawing it through a canvas. Images that are already within budget, of a
+ * supported type and free of metadata are returned unchanged, so preprocessing twice is cheap.
+ * @param source A file from an upload input, or an image data URL.
+ * @param options Overrides for `DEFAULT_PREPROCESS_OPTIONS`.
+ * @returns The prepared image as a data URL, with its final dimensions and size.
+ * @throws Error if the source is not an image or cannot be decoded.
+ */
+export async function preprocessImage(
+    source: Blob | string,
+    options: Partial<ImagePreprocessOptions> = {}
+): Promise<PreprocessedImage> {
+    const { maxPixels, maxBytes, mimeType, quality } = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+    const blob = typeof source === 'string' ? dataUrlToBlob(source) : source;
+    if (blob.type && !blob.type.startsWith('image/')) {
+        throw new Error(`Unsupported file type "${blob.type}". Please choose an image.`);
+    }
+
+    const image = await decodeImage(blob);
+    try {
+        const width = 'naturalWidth' in image ? image.naturalWidth : image.width;
+        const height = 'naturalHeight' in image ? image.naturalHeight : image.height;
+        if (width === 0 || height === 0) {
+            throw new Error("The image has no pixels.");
+        }
+
+        if (SUPPORTED_IMAGE_MIME_TYPES.includes(blob.type) && blob.size <= maxBytes && width * height <= maxPixels) {
+            const bytes = new Uint8Array(await blob.arrayBuffer());
+            let isClean = false;
+            try {
+                isClean = !hasMetadata(bytes, blob.type);
+            } catch {
+                // A truncated or malformed header; re-encoding below produces a clean copy.
+            }
+            if (isClean) {
+                const dataUrl = typeof source === 'string' ? source : await blobToDataUrl(blob);
+                return { dataUrl, mimeType: blob.type, width, height, bytes: blob.size };
+            }
+        }
+
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Could not get 2D canvas context');
+        }
+
+        let scale = Math.min(1, Math.sqrt(maxPixels / (width * height)));
+        let currentQuality = quality;
+        let encoded: Blob | null = null;
+
+        for (let attempt = 0; attempt < MAX_ENCODE_ATTEMPTS; attempt++) {
+            canvas.width = Math.max(1, Math.round(width * scale));
+            canvas.height = Math.max(1, Math.round(height * scale));
+            if (mimeType === 'image/jpeg') {
+                // JPEG has no alpha channel; flatten transparency onto white rather than black.
+                ctx.fillStyle = '#fff';
+                ctx.fillRect(0, 0, canvas.width, canvas.height);
+            } else {
+                ctx.clearRect(0, 0, canvas.width, canvas.height);
+            }
+            ctx.imageSmoothingQuality = 'high';
+            ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+            encoded = await encodeCanvas(canvas, mimeType, currentQuality);
+            if (encoded.size <= maxBytes) break;
+
+            if (mimeType !== 'image/png' && currentQuality - QUALITY_STEP >= MIN_QUALITY) {
+                currentQuality -= QUALITY_STEP;
+            } else {
+                scale *= SCALE_STEP;
+            }
+        }
+
+        if (encoded!.size > maxBytes) {
+            console.warn(`Image is still ${encoded!.size} bytes after ${MAX_ENCODE_ATTEMPTS} attempts; using it anyway.`);
+        }
+
+        return {
+            dataUrl: await blobToDataUrl(encoded!),
+            mimeType,
+            width: canvas.width,
+            height: canvas.height,
+            bytes: encoded!.size,
+        };
+    } finally {
+        if ('close' in image) image.close();
+    }
+}
+
+/**
+ * Preprocesses files chosen in an upload input, one at a time.
+ * Files that are not images or cannot be decoded are skipped and logged.
+ * @param files The selected files.
+ * @param options Overrides for `DEFAULT_PREPROCESS_OPTIONS`.
+ * @returns Data URLs of the prepared images, in selection order.
+ */
+export async function preprocessUploads(files: File[], options: Partial<ImagePreprocessOptions> = {}): Promise<string[]> {
+    const dataUrls: string[] = [];
+    for (const file of files) {
+        try {
+            dataUrls.push((await preprocessImage(file, options)).dataUrl);
+        } catch (error) {
+            console.error(`Failed to prepare file: ${file.name}`, error);
+        }
+    }
+    return dataUrls;
+}
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * One state of an image in its edit history.
+ */
+export interface ImageVersion {
+    url: string;
+    /** The region-edit instruction that produced this version; absent for the original. */
+    instruction?: string;
+}
+
+/**
+ * An image whose `url` is one of the versions in its edit history.
+ */
+export interface VersionedImage {
+    url?: string;
+    /** Every version of the image, oldest first; the first is the original. */
+    versions?: ImageVersion[];
+    /** Which version `url` shows. */
+    activeVersion?: number;
+}
+
+/**
+ * One answered message of a refinement conversation.
+ */
+export interface RefinementStep {
+    /** The change that was asked for. */
+    instruction: string;
+    /** The image the model answered with. */
+    url: string;
+}
+
+/**
+ * A conversation refining an image one instruction at a time.
+ */
+export interface ImageRefinement {
+    /** The image the conversation started from. */
+    baseUrl: string;
+    /** Every answered message, oldest first. */
+    steps: RefinementStep[];
+}
+
+/**
+ * An image that may be in a refinement conversation.
+ */
+export interface RefinableImage extends VersionedImage {
+    refinement?: ImageRefinement;
+}
+
+/**
+ * Adds an edited version of an image and shows it. The first edit records the current
+ * image as the original, so it can always be reverted to.
+ * @param image The image that was edited.
+ * @param url The edited image.
+ * @param instruction What the edit changed.
+ * @returns The image with the new version active.
+ */
+export function addImageVersion<T extends VersionedImage>(image: T, url: string, instruction: string): T {
+    const versions = image.versions ?? (image.url ? [{ url: image.url }] : []);
+    const next = [...versions, { url, instruction }];
+    return { ...image, url, versions: next, activeVersion: next.length - 1 };
+}
+
+/**
+ * Shows an earlier or later version of an image; every version is kept.
+ * @param image The image to switch.
+ * @param index The version to show, where 0 is the original.
+ * @returns The image showing that version, or the image unchanged if there is no such version.
+ */
+export function selectImageVersion<T extends VersionedImage>(image: T, index: number): T {
+    const version = image.versions?.[index];
+    return version ? { ...image, url: version.url, activeVersion: index } : image;
+}
+
+/**
+ * Records the answer to a refinement message. The first message starts the conversation
+ * from the image currently shown.
+ * @param image The image being refined.
+ * @param step The instruction and the image the model answered with.
+ * @returns The image with the step added to its conversation; the image shown is unchanged.
+ */
+export function addRefinementStep<T extends RefinableImage>(image: T, step: RefinementStep): T {
+    const refinement = image.refinement ?? { baseUrl: image.url ?? step.url, steps: [] };
+    return { ...image, refinement: { ...refinement, steps: [...refinement.steps, step] } };
+}
+
+/**
+ * Shows a step of an image's refinement conversation, adding it as a new version so the
+ * image it replaces can be reverted to.
+ * @param image The image being refined.
+ * @param stepIndex The step to show.
+ * @returns The image showing that step, or the image unchanged if there is no such step.
+ */
+export function promoteRefinementStep<T extends RefinableImage>(image: T, stepIndex: number): T {
+    const step = image.refinement?.steps[stepIndex];
+    return step ? addImageVersion(image, step.url, step.instruction) : image;
+}
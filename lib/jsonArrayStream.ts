@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Incrementally parses a JSON array that arrives in arbitrary text chunks, handing back each
+ * top-level element as soon as its text is complete. Used to act on streamed model output
+ * before the whole response has arrived.
+ */
+export class JsonArrayStreamParser {
+    private buffer = '';
+    private position = 0;
+    private depth = 0;
+    private inString = false;
+    private escaped = false;
+    private elementStart = -1;
+    private finished = false;
+
+    /**
+     * Appends a chunk of text.
+     * @returns The elements completed by this chunk, parsed, in order.
+     * @throws SyntaxError if the text is not a JSON array or a completed element is malformed.
+     */
+    push(chunk: string): unknown[] {
+        this.buffer += chunk;
+        const elements: unknown[] = [];
+
+        for (; this.position < this.buffer.length && !this.finished; this.position++) {
+            const char = this.buffer[this.position];
+
+            if (this.inString) {
+                if (this.escaped) this.escaped = false;
+                else if (char === '\\') this.escaped = true;
+                else if (char === '"') this.inString = false;
+                continue;
+            }
+            if (/\s/.test(char)) continue;
+
+            if (this.depth === 0) {
+                if (char !== '[') {
+                    throw new SyntaxError(`Expected a JSON array but found "${char}".`);
+                }
+                this.depth = 1;
+                continue;
+            }
+
+            if (this.depth === 1) {
+                if (char === ',' || char === ']') {
+                    // Scalar elements end at the next separator; objects and arrays were emitted on close.
+                    if (this.elementStart !== -1) {
+                        elements.push(JSON.parse(this.buffer.substring(this.elementStart, this.position)));
+                        this.elementStart = -1;
+                    }
+                    if (char === ']') {
+                        this.depth = 0;
+                        this.finished = true;
+                    }
+                    continue;
+                }
+                if (this.elementStart === -1) {
+                    this.elementStart = this.position;
+                }
+            }
+
+            if (char === '"') {
+                this.inString = true;
+            } else if (char === '{' || char === '[') {
+                this.depth++;
+            } else if (char === '}' || char === ']') {
+                this.depth--;
+                if (this.depth === 1) {
+                    elements.push(JSON.parse(this.buffer.substring(this.elementStart, this.position + 1)));
+                    this.elementStart = -1;
+                }
+            }
+        }
+
+        // Drop text that has been fully consumed so long streams don't keep growing the buffer.
+        const keepFrom = this.elementStart === -1 ? this.position : this.elementStart;
+        this.buffer = this.buffer.substring(keepFrom);
+        this.position -= keepFrom;
+        if (this.elementStart !== -1) this.elementStart = 0;
+
+        return elements;
+    }
+
+    /** Whether the closing bracket of the array has been seen. */
+    get isComplete(): boolean {
+        return this.finished;
+    }
+}
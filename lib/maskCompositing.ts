@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** How far inside the painted region, in pixels of the original image, a region edit fades in. */
+export const MASK_FEATHER_PX = 6;
+
+// Pixels at least this bright in a mask count as painted.
+const PAINTED_THRESHOLD = 128;
+
+
+// --- Helper Functions ---
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error("An image for the region edit could not be decoded."));
+        img.src = url;
+    });
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    return { canvas, ctx };
+}
+
+
+// --- Masks ---
+
+/**
+ * Measures how much of a mask has been painted.
+ * @param maskDataUrl A mask image: white where the image should change, black elsewhere.
+ * @returns The painted fraction of the mask, from 0 to 1.
+ */
+export async function maskCoverage(maskDataUrl: string): Promise<number> {
+    const mask = await loadImage(maskDataUrl);
+    const { ctx } = createCanvas(mask.naturalWidth, mask.naturalHeight);
+    ctx.drawImage(mask, 0, 0);
+    const { data } = ctx.getImageData(0, 0, mask.naturalWidth, mask.naturalHeight);
+    let painted = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i] >= PAINTED_THRESHOLD) painted++;
+    }
+    return painted / (data.length / 4);
+}
+
+/**
+ * Blends an edited image into the original through a mask, so pixels outside the painted
+ * region are exactly the original's whatever else the model changed. The edit fades in over
+ * the inner edge of the painted region, so it blends with its surroundings without reaching past them.
+ * @param originalUrl The image the edit was made to.
+ * @param editedUrl The model's output; scaled to the original's size if it differs.
+ * @param maskDataUrl White where the edit applies, black elsewhere; scaled likewise.
+ * @param featherPx The width of the fade, inside the mask's edge.
+ * @returns A PNG data URL at the original's size.
+ */
+export async function compositeMaskedEdit(
+    originalUrl: string,
+    editedUrl: string,
+    maskDataUrl: string,
+    featherPx: number = MASK_FEATHER_PX
+): Promise<string> {
+    const [original, edited, mask] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl), loadImage(maskDataUrl)]);
+    const width = original.naturalWidth;
+    const height = original.naturalHeight;
+
+    // Turn the mask into alpha. A blurred copy is half-bright at the painted edge, so stretching
+    // its upper half to the full range fades the edit in inside the edge; anything unpainted,
+    // including what the blur spills into, stays fully transparent.
+    const alpha = createCanvas(width, height);
+    alpha.ctx.drawImage(mask, 0, 0, width, height);
+    const painted = alpha.ctx.getImageData(0, 0, width, height).data;
+    alpha.ctx.clearRect(0, 0, width, height);
+    alpha.ctx.filter = `blur(${featherPx / 2}px)`;
+    alpha.ctx.drawImage(mask, 0, 0, width, height);
+    alpha.ctx.filter = 'none';
+    const maskPixels = alpha.ctx.getImageData(0, 0, width, height);
+    const { data } = maskPixels;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i + 3] = painted[i] >= PAINTED_THRESHOLD ? Math.max(0, data[i] * 2 - 255) : 0;
+        data[i] = data[i + 1] = data[i + 2] = 0;
+    }
+    alpha.ctx.putImageData(maskPixels, 0, 0);
+
+    const region = createCanvas(width, height);
+    region.ctx.drawImage(edited, 0, 0, width, height);
+    region.ctx.globalCompositeOperation = 'destination-in';
+    region.ctx.drawImage(alpha.canvas, 0, 0);
+
+    const output = createCanvas(width, height);
+    output.ctx.drawImage(original, 0, 0);
+    output.ctx.drawImage(region.canvas, 0, 0);
+    return output.canvas.toDataURL('image/png');
+}
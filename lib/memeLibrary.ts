@@ -0,0 +1,344 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * What an entry is for: a caption drawn on a meme, or an action for the video model.
+ */
+export type MemeLibraryKind = 'line' | 'video-prompt';
+
+/**
+ * The script a line is shown in.
+ */
+export type MemeScript = 'roman' | 'devanagari';
+
+/**
+ * One line or prompt in the library.
+ */
+export interface MemeLibraryEntry {
+    id: string;
+    kind: MemeLibraryKind;
+    /** The text as people type it, romanized for Indian-language lines. */
+    text: string;
+    /** The line in its original script, where it has one. */
+    devanagari?: string;
+    film?: string;
+    speaker?: string;
+    /** An ISO 639-1 code, e.g. "hi", "mr" or "en". */
+    language: string;
+    tags: string[];
+    /** 'builtin' entries ship with the app; 'user' entries were added or imported here. */
+    source: 'builtin' | 'user';
+    /** The name of the pack a user entry was imported from. */
+    pack?: string;
+}
+
+/**
+ * The fields of an entry as written in a pack file or typed into the add form.
+ */
+export type MemeLibraryDraft = Omit<MemeLibraryEntry, 'id' | 'source' | 'kind' | 'language' | 'tags'> &
+    Partial<Pick<MemeLibraryEntry, 'kind' | 'language' | 'tags'>>;
+
+/**
+ * A shareable set of entries, as saved to and read from JSON.
+ */
+export interface MemePack {
+    format: typeof MEME_PACK_FORMAT;
+    version: number;
+    name: string;
+    entries: MemeLibraryDraft[];
+}
+
+export const MEME_PACK_FORMAT = 'past-forward-meme-pack';
+const MEME_PACK_VERSION = 1;
+const MAX_ENTRY_TEXT_LENGTH = 300;
+
+const LIBRARY_STORAGE_KEY = 'meme-library';
+
+type BuiltinEntry = Omit<MemeLibraryEntry, 'id' | 'source' | 'kind'>;
+
+const BUILTIN_LINES: BuiltinEntry[] = [
+    { text: "Mogambo khush hua!", devanagari: "मोगैम्बो ख़ुश हुआ!", film: "Mr. India", speaker: "Mogambo", language: 'hi', tags: ['villain', 'classic'] },
+    { text: "Kitne aadmi the?", devanagari: "कितने आदमी थे?", film: "Sholay", speaker: "Gabbar Singh", language: 'hi', tags: ['villain', 'classic'] },
+    { text: "Rishte mein to hum tumhare baap lagte hain... Naam hai Shahenshah!", devanagari: "रिश्ते में तो हम तुम्हारे बाप लगते हैं... नाम है शहंशाह!", film: "Shahenshah", speaker: "Shahenshah", language: 'hi', tags: ['swag'] },
+    { text: "Pushpa, I hate tears...", devanagari: "पुष्पा, आई हेट टीयर्स...", film: "Amar Prem", speaker: "Anand Babu", language: 'hi', tags: ['emotional', 'classic'] },
+    { text: "Don ko pakadna mushkil hi nahi... namumkin hai!", devanagari: "डॉन को पकड़ना मुश्किल ही नहीं... नामुमकिन है!", film: "Don", speaker: "Don", language: 'hi', tags: ['swag'] },
+    { text: "Aata majhi satakli!", devanagari: "आता माझी सटकली!", film: "Singham", speaker: "Bajirao Singham", language: 'mr', tags: ['angry'] },
+    { text: "Bade bade deshon mein aisi choti choti baatein hoti rehti hai...", devanagari: "बड़े बड़े देशों में ऐसी छोटी छोटी बातें होती रहती हैं...", film: "Dilwale Dulhania Le Jayenge", speaker: "Raj", language: 'hi', tags: ['excuses', 'romance'] },
+    { text: "Mere paas maa hai!", devanagari: "मेरे पास माँ है!", film: "Deewaar", speaker: "Ravi", language: 'hi', tags: ['family', 'classic'] },
+    { text: "Palat... Palat... Palat!", devanagari: "पलट... पलट... पलट!", film: "Dilwale Dulhania Le Jayenge", speaker: "Raj", language: 'hi', tags: ['romance'] },
+    { text: "Thappad se darr nahi lagta sahab... pyaar se lagta hai!", devanagari: "थप्पड़ से डर नहीं लगता साहब... प्यार से लगता है!", film: "Dabangg", language: 'hi', tags: ['romance', 'comedy'] },
+    { text: "Apun ka naam Hera Pheri!", devanagari: "अपुन का नाम हेरा फेरी!", film: "Hera Pheri", language: 'hi', tags: ['comedy'] },
+    { text: "Kya aapke toothpaste mein namak hai?", devanagari: "क्या आपके टूथपेस्ट में नमक है?", language: 'hi', tags: ['ad', 'comedy'] },
+    { text: "All izz well!", devanagari: "ऑल इज़ वेल!", film: "3 Idiots", speaker: "Rancho", language: 'hi', tags: ['motivation'] },
+    { text: "Zindagi badi honi chahiye... lambi nahi!", devanagari: "ज़िंदगी बड़ी होनी चाहिए... लंबी नहीं!", film: "Anand", speaker: "Anand", language: 'hi', tags: ['motivation', 'classic'] },
+    { text: "Picture abhi baaki hai mere dost!", devanagari: "पिक्चर अभी बाकी है मेरे दोस्त!", film: "Om Shanti Om", speaker: "Om", language: 'hi', tags: ['motivation'] },
+    { text: "Bhaiyya... main aapka fan hoon!", devanagari: "भैया... मैं आपका फ़ैन हूँ!", language: 'hi', tags: ['comedy'] },
+    { text: "Itna sannata kyun hai bhai?", devanagari: "इतना सन्नाटा क्यों है भाई?", film: "Sholay", speaker: "Rahim Chacha", language: 'hi', tags: ['awkward', 'classic'] },
+    { text: "Yeh dosti hum nahi todenge!", devanagari: "ये दोस्ती हम नहीं तोड़ेंगे!", film: "Sholay", speaker: "Jai and Veeru", language: 'hi', tags: ['friendship', 'classic'] },
+    { text: "Khamosh!", devanagari: "ख़ामोश!", speaker: "Shatrughan Sinha", language: 'hi', tags: ['angry'] },
+    { text: "Jaa Simran jaa... jee le apni zindagi!", devanagari: "जा सिमरन जा... जी ले अपनी ज़िंदगी!", film: "Dilwale Dulhania Le Jayenge", speaker: "Baldev Singh", language: 'hi', tags: ['romance', 'family'] },
+    { text: "Mere khwabon mein aana mat!", devanagari: "मेरे ख़्वाबों में आना मत!", language: 'hi', tags: ['romance'] },
+    { text: "Tension lene ka nahi... dene ka!", devanagari: "टेंशन लेने का नहीं... देने का!", language: 'hi', tags: ['swag', 'office'] },
+    { text: "Mumbai ka king kaun? Bhai!", devanagari: "मुंबई का किंग कौन? भाई!", language: 'hi', tags: ['swag'] },
+];
+
+const BUILTIN_VIDEO_PROMPTS: BuiltinEntry[] = [
+    { text: "a subtle, confident smirk turning into a mysterious smile.", language: 'en', tags: ['smile', 'subtle'] },
+    { text: "a slow dramatic turn towards camera with intense eye contact.", language: 'en', tags: ['dramatic'] },
+    { text: "a thoughtful gaze breaking into genuine laughter.", language: 'en', tags: ['laugh'] },
+    { text: "eyes slowly closing and opening with renewed focus.", language: 'en', tags: ['subtle'] },
+    { text: "a slight head tilt with playful eyebrow raise.", language: 'en', tags: ['playful'] },
+    { text: "a dramatic hair flip with cinematic slow motion.", language: 'en', tags: ['dramatic', 'slow-motion'] },
+    { text: "a pensive look turning into determined expression.", language: 'en', tags: ['dramatic'] },
+    { text: "a soft smile gradually building into full laughter.", language: 'en', tags: ['smile', 'laugh'] },
+    { text: "a mysterious glance over the shoulder.", language: 'en', tags: ['subtle'] },
+    { text: "a cinematic slow-motion walk towards camera.", language: 'en', tags: ['slow-motion'] },
+];
+
+export const BUILTIN_MEME_LIBRARY: MemeLibraryEntry[] = [
+    ...BUILTIN_LINES.map((entry, i): MemeLibraryEntry => ({ ...entry, id: `builtin-line-${i}`, kind: 'line', source: 'builtin' })),
+    ...BUILTIN_VIDEO_PROMPTS.map((entry, i): MemeLibraryEntry => ({ ...entry, id: `builtin-video-${i}`, kind: 'video-prompt', source: 'builtin' })),
+];
+
+
+// --- Storage ---
+
+function readUserEntries(): MemeLibraryEntry[] {
+    try {
+        const raw = localStorage.getItem(LIBRARY_STORAGE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (e) {
+        console.error("Failed to read the meme library from localStorage", e);
+        return [];
+    }
+}
+
+function writeUserEntries(entries: MemeLibraryEntry[]) {
+    try {
+        localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(entries));
+    } catch (e) {
+        console.error("Failed to save the meme library to localStorage", e);
+    }
+}
+
+// Two entries are the same line if their kind and text match, ignoring case and spacing.
+function sameEntry(a: Pick<MemeLibraryEntry, 'kind' | 'text'>, b: Pick<MemeLibraryEntry, 'kind' | 'text'>): boolean {
+    const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLocaleLowerCase();
+    return a.kind === b.kind && normalize(a.text) === normalize(b.text);
+}
+
+/**
+ * Checks an entry before it is added.
+ * @returns A list of problems; empty if the entry is usable.
+ */
+export function validateMemeEntry(draft: MemeLibraryDraft): string[] {
+    const problems: string[] = [];
+    if (typeof draft.text !== 'string' || !draft.text.trim()) {
+        problems.push("The text cannot be empty.");
+    } else if (draft.text.length > MAX_ENTRY_TEXT_LENGTH) {
+        problems.push(`The text must be ${MAX_ENTRY_TEXT_LENGTH} characters or fewer.`);
+    }
+    if (draft.kind !== undefined && draft.kind !== 'line' && draft.kind !== 'video-prompt') {
+        problems.push(`Unknown kind "${String(draft.kind)}".`);
+    }
+    for (const field of ['devanagari', 'film', 'speaker', 'language', 'pack'] as const) {
+        if (draft[field] !== undefined && typeof draft[field] !== 'string') {
+            problems.push(`The ${field} must be text.`);
+        }
+    }
+    if (draft.tags !== undefined && (!Array.isArray(draft.tags) || draft.tags.some(tag => typeof tag !== 'string'))) {
+        problems.push("The tags must be a list of text.");
+    }
+    return problems;
+}
+
+// Trims the draft's fields and drops empty ones.
+function toEntry(draft: MemeLibraryDraft, pack?: string): MemeLibraryEntry {
+    const optional = (value?: string) => value?.trim() || undefined;
+    return {
+        id: crypto.randomUUID(),
+        kind: draft.kind ?? 'line',
+        text: draft.text.trim(),
+        devanagari: optional(draft.devanagari),
+        film: optional(draft.film),
+        speaker: optional(draft.speaker),
+        language: optional(draft.language)?.toLowerCase() ?? 'hi',
+        tags: Array.from(new Set((draft.tags ?? []).map(tag => tag.trim().toLowerCase()).filter(Boolean))),
+        source: 'user',
+        pack: optional(pack ?? draft.pack),
+    };
+}
+
+/**
+ * Returns the built-in entries followed by the user's own, optionally of one kind only.
+ */
+export function getMemeLibrary(kind?: MemeLibraryKind): MemeLibraryEntry[] {
+    const entries = [...BUILTIN_MEME_LIBRARY, ...readUserEntries()];
+    return kind ? entries.filter(entry => entry.kind === kind) : entries;
+}
+
+/**
+ * Adds an entry to the user's library.
+ * @throws Error if the entry fails validation or is already in the library.
+ */
+export function addMemeEntry(draft: MemeLibraryDraft): MemeLibraryEntry {
+    const problems = validateMemeEntry(draft);
+    if (problems.length > 0) {
+        throw new Error(problems.join(' '));
+    }
+    const entry = toEntry(draft);
+    if (getMemeLibrary().some(existing => sameEntry(existing, entry))) {
+        throw new Error("That line is already in the library.");
+    }
+    writeUserEntries([...readUserEntries(), entry]);
+    return entry;
+}
+
+/**
+ * Removes one of the user's entries. Built-in entries cannot be removed.
+ */
+export function removeMemeEntry(id: string): void {
+    writeUserEntries(readUserEntries().filter(entry => entry.id !== id));
+}
+
+
+// --- Search ---
+
+/**
+ * Finds entries matching every word of a query, across the text, original script, film,
+ * speaker, language, tags and pack. Entries whose text starts with the query come first.
+ * @param entries The entries to search.
+ * @param query Free text; an empty query matches everything.
+ * @param tag Only entries with this tag, if given.
+ */
+export function searchMemeLibrary(entries: MemeLibraryEntry[], query: string, tag?: string): MemeLibraryEntry[] {
+    const words = query.toLocaleLowerCase().split(/\s+/).filter(Boolean);
+    const needle = query.trim().toLocaleLowerCase();
+    const matches = entries.filter(entry => {
+        if (tag && !entry.tags.includes(tag)) return false;
+        const haystack = [entry.text, entry.devanagari, entry.film, entry.speaker, entry.language, entry.pack, ...entry.tags]
+            .filter(Boolean)
+            .join(' ')
+            .toLocaleLowerCase();
+        return words.every(word => haystack.includes(word));
+    });
+    if (!needle) return matches;
+    const startsWith = (entry: MemeLibraryEntry) =>
+        entry.text.toLocaleLowerCase().startsWith(needle) || Boolean(entry.devanagari?.startsWith(query.trim()));
+    return [...matches.filter(startsWith), ...matches.filter(entry => !startsWith(entry))];
+}
+
+/**
+ * Lists the tags used by a set of entries, most used first.
+ */
+export function memeLibraryTags(entries: MemeLibraryEntry[]): string[] {
+    const counts = new Map<string, number>();
+    for (const entry of entries) {
+        for (const tag of entry.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+}
+
+
+// --- Packs ---
+
+/**
+ * Saves entries as a pack that can be shared and imported elsewhere.
+ * @param name The pack's name, e.g. "Tollywood".
+ * @param entries The entries to include.
+ * @returns The pack as pretty-printed JSON.
+ */
+export function exportMemePack(name: string, entries: MemeLibraryEntry[]): string {
+    const pack: MemePack = {
+        format: MEME_PACK_FORMAT,
+        version: MEME_PACK_VERSION,
+        name,
+        entries: entries.map(({ kind, text, devanagari, film, speaker, language, tags }) => ({ kind, text, devanagari, film, speaker, language, tags })),
+    };
+    return JSON.stringify(pack, null, 2);
+}
+
+/**
+ * Reads and checks a pack file.
+ * @throws Error describing the first problems found if the file is not a usable pack.
+ */
+export function parseMemePack(json: string): MemePack {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+    const pack = data as Partial<MemePack> | null;
+    if (!pack || typeof pack !== 'object' || pack.format !== MEME_PACK_FORMAT) {
+        throw new Error("The file is not a meme pack.");
+    }
+    if (typeof pack.version !== 'number' || pack.version > MEME_PACK_VERSION) {
+        throw new Error("The pack was made by a newer version of the app.");
+    }
+    if (!Array.isArray(pack.entries)) {
+        throw new Error("The pack has no entries.");
+    }
+    const problems = pack.entries.flatMap((entry, i) =>
+        entry && typeof entry === 'object'
+            ? validateMemeEntry(entry).map(problem => `Entry ${i + 1}: ${problem}`)
+            : [`Entry ${i + 1} is not an object.`]
+    );
+    if (problems.length > 0) {
+        throw new Error(problems.slice(0, 3).join(' '));
+    }
+    return { format: MEME_PACK_FORMAT, version: pack.version, name: typeof pack.name === 'string' && pack.name.trim() ? pack.name.trim() : 'Imported pack', entries: pack.entries };
+}
+
+/**
+ * Adds a pack's entries to the user's library, skipping any already there.
+ * @returns The pack's name and how many entries were added and skipped.
+ * @throws Error if the file is not a usable pack.
+ */
+export function importMemePack(json: string): { name: string; added: number; skipped: number } {
+    const pack = parseMemePack(json);
+    const library = getMemeLibrary();
+    const added: MemeLibraryEntry[] = [];
+    for (const draft of pack.entries) {
+        const entry = toEntry(draft, pack.name);
+        if (![...library, ...added].some(existing => sameEntry(existing, entry))) {
+            added.push(entry);
+        }
+    }
+    writeUserEntries([...readUserEntries(), ...added]);
+    return { name: pack.name, added: added.length, skipped: pack.entries.length - added.length };
+}
+
+
+// --- Scripts ---
+
+const DEVANAGARI_PATTERN = /[ऀ-ॿ꣠-ꣿ]/;
+
+/**
+ * Whether any of the text is written in Devanagari.
+ */
+export function containsDevanagari(text: string): boolean {
+    return DEVANAGARI_PATTERN.test(text);
+}
+
+/**
+ * Finds the library line a text is, in either script.
+ */
+export function findMemeLine(text: string, entries: MemeLibraryEntry[] = getMemeLibrary('line')): MemeLibraryEntry | undefined {
+    const trimmed = text.trim();
+    return entries.find(entry => entry.text === trimmed || entry.devanagari === trimmed);
+}
+
+/**
+ * Shows a library line in the given script. Only lines with a Devanagari version can be
+ * transliterated; any other text is returned as it is.
+ * @param text A library line in either script, or free text.
+ * @param script The script to show it in.
+ */
+export function memeLineIn(text: string, script: MemeScript, entries?: MemeLibraryEntry[]): string {
+    const line = findMemeLine(text, entries);
+    if (!line) return text;
+    return script === 'devanagari' ? line.devanagari ?? line.text : line.text;
+}
@@ -0,0 +1,314 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * The text drawn on a meme. Either caption may be left empty.
+ */
+export interface MemeCaptions {
+    top?: string;
+    bottom?: string;
+}
+
+/**
+ * How captions are drawn. Sizes are fractions of the image so the result looks the same at any resolution.
+ */
+export interface MemeStyle {
+    fontFamily: string;
+    fontWeight: string;
+    fillColor: string;
+    strokeColor: string;
+    /** The outline width as a fraction of the font size. */
+    strokeRatio: number;
+    /** The largest and smallest font sizes, as fractions of the image height. */
+    maxFontRatio: number;
+    minFontRatio: number;
+    /** The space kept clear at every edge, as a fraction of the image's shorter side. */
+    marginRatio: number;
+    /** The most lines either caption may wrap onto before it is cut short. */
+    maxLines: number;
+    /** The most height either caption may take up, as a fraction of the image height. */
+    maxCaptionHeightRatio: number;
+    lineHeight: number;
+    uppercase: boolean;
+}
+
+/**
+ * A typeface captions can be drawn in.
+ */
+export interface MemeFont {
+    id: string;
+    label: string;
+    fontFamily: string;
+    fontWeight: string;
+    /** Whether the face itself has Devanagari glyphs. Others fall back to Noto Sans Devanagari for them. */
+    devanagari: boolean;
+}
+
+// Every stack ends in a Devanagari face so Hindi text is shaped properly whichever font is picked.
+const DEVANAGARI_FALLBACK = "'Noto Sans Devanagari', 'Nirmala UI', 'Mangal', sans-serif";
+
+export const MEME_FONTS: MemeFont[] = [
+    { id: 'impact', label: "Impact (classic)", fontFamily: `Impact, Haettenschweiler, 'Arial Narrow Bold', 'Anton', ${DEVANAGARI_FALLBACK}`, fontWeight: 'bold', devanagari: false },
+    { id: 'anton', label: "Anton", fontFamily: `'Anton', Impact, ${DEVANAGARI_FALLBACK}`, fontWeight: 'normal', devanagari: false },
+    { id: 'bangers', label: "Bangers (comic)", fontFamily: `'Bangers', ${DEVANAGARI_FALLBACK}`, fontWeight: 'normal', devanagari: false },
+    { id: 'teko', label: "Teko", fontFamily: `'Teko', ${DEVANAGARI_FALLBACK}`, fontWeight: '600', devanagari: true },
+    { id: 'baloo', label: "Baloo 2 (rounded)", fontFamily: `'Baloo 2', ${DEVANAGARI_FALLBACK}`, fontWeight: '800', devanagari: true },
+    { id: 'noto-devanagari', label: "Noto Sans Devanagari", fontFamily: DEVANAGARI_FALLBACK, fontWeight: '800', devanagari: true },
+];
+
+export const DEFAULT_MEME_FONT_ID = 'impact';
+
+/**
+ * Looks up a meme font, falling back to the default for an unknown id.
+ */
+export function getMemeFont(id: string): MemeFont {
+    return MEME_FONTS.find(font => font.id === id) ?? MEME_FONTS[0];
+}
+
+export const DEFAULT_MEME_STYLE: MemeStyle = {
+    fontFamily: MEME_FONTS[0].fontFamily,
+    fontWeight: MEME_FONTS[0].fontWeight,
+    fillColor: '#ffffff',
+    strokeColor: '#000000',
+    strokeRatio: 0.08,
+    maxFontRatio: 0.1,
+    minFontRatio: 0.035,
+    marginRatio: 0.04,
+    maxLines: 3,
+    maxCaptionHeightRatio: 0.3,
+    lineHeight: 1.1,
+    uppercase: true,
+};
+
+// How much the font shrinks per step while fitting a caption.
+const FONT_STEP_RATIO = 0.92;
+
+
+// --- Helper Functions ---
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
+        img.src = src;
+    });
+}
+
+// Splits text into user-perceived characters, so a Devanagari conjunct or a vowel sign is
+// never separated from the letter it belongs to.
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+function graphemes(text: string): string[] {
+    return Array.from(graphemeSegmenter.segment(text), ({ segment }) => segment);
+}
+
+// Splits a word that is wider than a line on its own into pieces that fit.
+function breakWord(ctx: CanvasRenderingContext2D, word: string, maxWidth: number): string[] {
+    const pieces: string[] = [];
+    let piece = '';
+    for (const char of graphemes(word)) {
+        if (piece && ctx.measureText(piece + char).width > maxWidth) {
+            pieces.push(piece);
+            piece = char;
+        } else {
+            piece += char;
+        }
+    }
+    if (piece) pieces.push(piece);
+    return pieces;
+}
+
+
+// --- Layout ---
+
+/**
+ * Wraps text onto lines no wider than `maxWidth` in the context's current font, breaking
+ * between words where possible and inside a word only when it cannot fit on a line alone.
+ */
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width <= maxWidth) {
+            line = candidate;
+            continue;
+        }
+        if (line) lines.push(line);
+        if (ctx.measureText(word).width <= maxWidth) {
+            line = word;
+        } else {
+            const pieces = breakWord(ctx, word, maxWidth);
+            lines.push(...pieces.slice(0, -1));
+            line = pieces[pieces.length - 1] ?? '';
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+}
+
+/**
+ * A caption laid out for drawing.
+ */
+export interface FittedCaption {
+    fontSize: number;
+    lines: string[];
+}
+
+function fontFor(style: MemeStyle, size: number): string {
+    return `${style.fontWeight} ${Math.round(size)}px ${style.fontFamily}`;
+}
+
+/**
+ * Picks the largest font size at which a caption fits its box, then wraps it. A caption that
+ * does not fit even at the smallest size keeps `style.maxLines` lines, the last ending in an ellipsis.
+ * @param ctx A context used only to measure text.
+ * @param text The caption.
+ * @param maxWidth The width of the box.
+ * @param maxHeight The height of the box.
+ * @param imageHeight The image height the style's font ratios are relative to.
+ */
+export function fitCaption(
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    maxWidth: number,
+    maxHeight: number,
+    imageHeight: number,
+    style: MemeStyle = DEFAULT_MEME_STYLE
+): FittedCaption {
+    const minSize = Math.max(1, imageHeight * style.minFontRatio);
+    for (let size = imageHeight * style.maxFontRatio; size >= minSize; size *= FONT_STEP_RATIO) {
+        ctx.font = fontFor(style, size);
+        const lines = wrapText(ctx, text, maxWidth);
+        if (lines.length <= style.maxLines && lines.length * size * style.lineHeight <= maxHeight) {
+            return { fontSize: size, lines };
+        }
+    }
+
+    ctx.font = fontFor(style, minSize);
+    const lines = wrapText(ctx, text, maxWidth);
+    const maxLines = Math.max(1, Math.min(style.maxLines, Math.floor(maxHeight / (minSize * style.lineHeight))));
+    if (lines.length <= maxLines) {
+        return { fontSize: minSize, lines };
+    }
+    const kept = lines.slice(0, maxLines);
+    const last = graphemes(kept[maxLines - 1]);
+    while (last.length > 0 && ctx.measureText(`${last.join('')}…`).width > maxWidth) {
+        last.pop();
+    }
+    kept[maxLines - 1] = `${last.join('').trimEnd()}…`;
+    return { fontSize: minSize, lines: kept };
+}
+
+
+// --- Fonts ---
+
+/**
+ * Waits for the web fonts a style draws with, so the canvas does not fall back to a default
+ * font. Only the faces that cover `text`, e.g. a Devanagari subset, are fetched. A font that
+ * cannot be fetched, such as when offline, is logged and left to the fallback font.
+ * @param uses Each style with the text it will draw.
+ */
+export async function loadCaptionFonts(uses: { style: MemeStyle; text: string }[]): Promise<void> {
+    await Promise.all(uses.filter(({ text }) => text.trim()).map(async ({ style, text }) => {
+        try {
+            await document.fonts.load(fontFor(style, 100), style.uppercase ? text.toLocaleUpperCase() : text);
+        } catch (error) {
+            console.warn(`Could not load the font ${style.fontFamily}; captions will use a fallback font.`, error);
+        }
+    }));
+}
+
+/**
+ * Loads the fonts for a meme's top and bottom captions; see `loadCaptionFonts`.
+ */
+export function loadMemeFonts(captions: MemeCaptions, style: MemeStyle = DEFAULT_MEME_STYLE): Promise<void> {
+    return loadCaptionFonts([{ style, text: `${captions.top ?? ''} ${captions.bottom ?? ''}` }]);
+}
+
+
+// --- Rendering ---
+
+/**
+ * Draws classic meme captions onto a canvas that already holds the picture: outlined text,
+ * centred, at the top and bottom, sized to fit inside the safe margins. Used for stills and,
+ * frame by frame, for video memes.
+ * Call `loadMemeFonts` first, or the captions may be drawn in a fallback font.
+ * @param ctx The context to draw into.
+ * @param width The width of the picture.
+ * @param height The height of the picture.
+ * @param captions The top and bottom text.
+ * @param style The fully resolved style.
+ */
+export function drawMemeCaptions(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    captions: MemeCaptions,
+    style: MemeStyle = DEFAULT_MEME_STYLE
+): void {
+    const margin = Math.min(width, height) * style.marginRatio;
+    const boxWidth = width - margin * 2;
+    const boxHeight = height * style.maxCaptionHeightRatio;
+
+    ctx.save();
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.lineJoin = 'round';
+    ctx.miterLimit = 2;
+    ctx.fillStyle = style.fillColor;
+    ctx.strokeStyle = style.strokeColor;
+
+    const drawCaption = (text: string | undefined, position: 'top' | 'bottom') => {
+        const trimmed = text?.trim();
+        if (!trimmed) return;
+        // Upper-casing leaves Devanagari as it is, since the script has no case.
+        const { fontSize, lines } = fitCaption(ctx, style.uppercase ? trimmed.toLocaleUpperCase() : trimmed, boxWidth, boxHeight, height, style);
+        const lineHeight = fontSize * style.lineHeight;
+        const blockTop = position === 'top' ? margin : height - margin - lines.length * lineHeight;
+
+        ctx.font = fontFor(style, fontSize);
+        ctx.lineWidth = fontSize * style.strokeRatio * 2; // Half the stroke falls inside the glyphs.
+        lines.forEach((line, i) => {
+            const y = blockTop + i * lineHeight;
+            ctx.strokeText(line, width / 2, y);
+            ctx.fillText(line, width / 2, y);
+        });
+    };
+
+    drawCaption(captions.top, 'top');
+    drawCaption(captions.bottom, 'bottom');
+    ctx.restore();
+}
+
+/**
+ * Draws classic meme captions on an image. Unlike asking the image model to add the text, the
+ * caption is spelled exactly as given and the image itself is untouched.
+ * @param imageUrl The image to caption.
+ * @param captions The top and bottom text.
+ * @param style Overrides for the default look.
+ * @returns A promise that resolves to a data URL of the meme (JPEG format), at the image's size.
+ */
+export async function renderMeme(imageUrl: string, captions: MemeCaptions, style: Partial<MemeStyle> = {}): Promise<string> {
+    const img = await loadImage(imageUrl);
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    ctx.drawImage(img, 0, 0, width, height);
+    const resolved = { ...DEFAULT_MEME_STYLE, ...style };
+    await loadMemeFonts(captions, resolved);
+    drawMemeCaptions(ctx, width, height, captions, resolved);
+
+    return canvas.toDataURL('image/jpeg', 0.92);
+}
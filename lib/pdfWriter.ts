@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { textWidthEm } from './trueTypeFont';
+import type { TrueTypeFont } from './trueTypeFont';
+
+/**
+ * A line of real, selectable text, written over a page's image in an embedded font.
+ */
+export interface PdfTextRun {
+    text: string;
+    font: TrueTypeFont;
+    /** The font size in image pixels. */
+    size: number;
+    /** The text colour, as 0-255 red, green and blue. */
+    color: [number, number, number];
+    /**
+     * Maps the run's own coordinates to image pixels (origin top-left, y down), like a canvas
+     * transform: [a, b, c, d, e, f].
+     */
+    transform: [number, number, number, number, number, number];
+    /** Where the middle of the line's baseline goes, in the run's coordinates. */
+    centerX: number;
+    baselineY: number;
+}
+
+/**
+ * A page made of a single JPEG that fills it, with any text written over it.
+ */
+export interface PdfImagePage {
+    jpeg: Uint8Array;
+    /** The JPEG's size in pixels. */
+    width: number;
+    height: number;
+    texts?: PdfTextRun[];
+}
+
+export interface PdfDocumentInfo {
+    title?: string;
+    author?: string;
+    /** When the document was made; defaults to now. */
+    creationDate?: Date;
+}
+
+/** A4 in PDF points (1/72 inch). */
+export const A4_PAGE_SIZE = { width: 595.28, height: 841.89 };
+
+const PRODUCER = 'Past Forward';
+
+
+// --- Helper Functions ---
+
+// Writes a PDF text string as UTF-16BE hex, which any character, quote or bracket survives.
+function pdfTextString(text: string): string {
+    let hex = 'FEFF';
+    for (let i = 0; i < text.length; i++) {
+        hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+    }
+    return `<${hex}>`;
+}
+
+function pdfDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `(D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z)`;
+}
+
+function pdfNumber(value: number): string {
+    return Number.isInteger(value) ? String(value) : value.toFixed(4).replace(/\.?0+$/, '');
+}
+
+function hex4(value: number): string {
+    return value.toString(16).padStart(4, '0').toUpperCase();
+}
+
+// PDF names may not contain spaces or delimiters.
+function pdfName(name: string): string {
+    return `/${name.replace(/[^A-Za-z0-9+\-_.]/g, '')}`;
+}
+
+/**
+ * The glyphs of each embedded font that the document uses, with the text each one stands for.
+ */
+type GlyphUse = Map<number, string>;
+
+// Maps glyph ids back to text, so the text can be copied and searched.
+function toUnicodeCMap(glyphs: GlyphUse): string {
+    const entries = Array.from(glyphs.entries()).map(([glyph, text]) => {
+        let utf16 = '';
+        for (let i = 0; i < text.length; i++) utf16 += hex4(text.charCodeAt(i));
+        return `<${hex4(glyph)}> <${utf16}>`;
+    });
+    const blocks: string[] = [];
+    // A bfchar block may hold at most 100 entries.
+    for (let i = 0; i < entries.length; i += 100) {
+        const block = entries.slice(i, i + 100);
+        blocks.push(`${block.length} beginbfchar\n${block.join('\n')}\nendbfchar`);
+    }
+    return [
+        '/CIDInit /ProcSet findresource begin',
+        '12 dict begin',
+        'begincmap',
+        '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+        '/CMapName /Adobe-Identity-UCS def',
+        '/CMapType 2 def',
+        '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange',
+        ...blocks,
+        'endcmap',
+        'CMapName currentdict /CMap defineresource pop',
+        'end',
+        'end',
+    ].join('\n');
+}
+
+// Writes a run as a text object. The page has already been flipped to image pixels, so the
+// text matrix flips the glyphs back upright.
+function textOperators(run: PdfTextRun, fontResource: string, glyphs: GlyphUse): string {
+    let shown = '';
+    for (const char of run.text) {
+        const glyph = run.font.glyphId(char.codePointAt(0)!);
+        if (!glyphs.has(glyph)) glyphs.set(glyph, char);
+        shown += hex4(glyph);
+    }
+    const [red, green, blue] = run.color.map(channel => pdfNumber(channel / 255));
+    const left = run.centerX - (textWidthEm(run.font, run.text) * run.size) / 2;
+    return [
+        'q',
+        `${run.transform.map(pdfNumber).join(' ')} cm`,
+        `${red} ${green} ${blue} rg`,
+        `BT ${fontResource} ${pdfNumber(run.size)} Tf 1 0 0 -1 ${pdfNumber(left)} ${pdfNumber(run.baselineY)} Tm <${shown}> Tj ET`,
+        'Q',
+    ].join('\n');
+}
+
+
+// --- Writing ---
+
+/**
+ * Builds a PDF whose pages are JPEG images, with no dependencies. The JPEGs are embedded as
+ * they are (DCTDecode), so nothing is re-compressed. Text runs are written as real text in
+ * their TrueType fonts, which are embedded whole so every viewer shows them the same.
+ * @param pages The pages in order; each JPEG is stretched to fill its page.
+ * @param info The document title and author shown by PDF viewers.
+ * @param pageSize The page size in points; A4 by default.
+ * @returns The PDF file's bytes.
+ */
+export function createImagePdf(pages: PdfImagePage[], info: PdfDocumentInfo = {}, pageSize = A4_PAGE_SIZE): Uint8Array {
+    if (pages.length === 0) {
+        throw new Error('A PDF needs at least one page.');
+    }
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const startObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+    const writeObject = (id: number, body: string) => {
+        startObject(id);
+        write(`${body}\nendobj\n`);
+    };
+    const writeStream = (id: number, dictionary: string, data: Uint8Array) => {
+        startObject(id);
+        write(`<< ${dictionary} /Length ${data.length} >>\nstream\n`);
+        write(data);
+        write('\nendstream\nendobj\n');
+    };
+
+    // Objects 1-3 are the catalog, page tree and info. Each font then takes five: the font, its
+    // descendant CID font, descriptor, file and ToUnicode map. Each page takes three: page, content, image.
+    const fonts = Array.from(new Set(pages.flatMap(page => (page.texts ?? []).map(run => run.font))));
+    const fontId = (index: number) => 4 + index * 5;
+    const pageId = (index: number) => fontId(fonts.length) + index * 3;
+    const fontResource = (font: TrueTypeFont) => `/F${fonts.indexOf(font)}`;
+    const glyphUse: GlyphUse[] = fonts.map(() => new Map());
+    const { width, height } = pageSize;
+
+    write('%PDF-1.4\n');
+    write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // Marks the file as binary.
+
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    const infoEntries = [
+        info.title ? `/Title ${pdfTextString(info.title)}` : '',
+        info.author ? `/Author ${pdfTextString(info.author)}` : '',
+        `/Producer ${pdfTextString(PRODUCER)}`,
+        `/CreationDate ${pdfDate(info.creationDate ?? new Date())}`,
+    ].filter(Boolean);
+    writeObject(3, `<< ${infoEntries.join(' ')} >>`);
+
+    pages.forEach((page, i) => {
+        const id = pageId(i);
+        const texts = page.texts ?? [];
+        const pageFonts = Array.from(new Set(texts.map(run => run.font)));
+        const fontResources = pageFonts.length > 0
+            ? ` /Font << ${pageFonts.map(font => `${fontResource(font)} ${fontId(fonts.indexOf(font))} 0 R`).join(' ')} >>`
+            : '';
+        writeObject(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pdfNumber(width)} ${pdfNumber(height)}] /Resources << /XObject << /Im0 ${id + 2} 0 R >>${fontResources} >> /Contents ${id + 1} 0 R >>`);
+        const content = [`q ${pdfNumber(width)} 0 0 ${pdfNumber(height)} 0 0 cm /Im0 Do Q`];
+        if (texts.length > 0) {
+            // From here on, one unit is one image pixel, with the origin at the top left as on a canvas.
+            content.push(`q ${pdfNumber(width / page.width)} 0 0 ${pdfNumber(-height / page.height)} 0 ${pdfNumber(height)} cm`);
+            texts.forEach(run => content.push(textOperators(run, fontResource(run.font), glyphUse[fonts.indexOf(run.font)])));
+            content.push('Q');
+        }
+        writeStream(id + 1, '', encoder.encode(content.join('\n')));
+        writeStream(id + 2, `/Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`, page.jpeg);
+    });
+
+    // The fonts go last, once the pages have shown which glyphs they use.
+    fonts.forEach((font, i) => {
+        const id = fontId(i);
+        const name = pdfName(font.name);
+        const scale = 1000 / font.unitsPerEm;
+        const widths = Array.from(glyphUse[i].keys())
+            .sort((a, b) => a - b)
+            .map(glyph => `${glyph} [${Math.round(font.advanceWidth(glyph) * scale)}]`);
+        writeObject(id, `<< /Type /Font /Subtype /Type0 /BaseFont ${name} /Encoding /Identity-H /DescendantFonts [${id + 1} 0 R] /ToUnicode ${id + 4} 0 R >>`);
+        writeObject(id + 1, `<< /Type /Font /Subtype /CIDFontType2 /BaseFont ${name} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${id + 2} 0 R /CIDToGIDMap /Identity /W [${widths.join(' ')}] >>`);
+        writeObject(id + 2, `<< /Type /FontDescriptor /FontName ${name} /Flags 32 /FontBBox [${font.bbox.map(value => Math.round(value * scale)).join(' ')}] /ItalicAngle 0 /Ascent ${Math.round(font.ascent * scale)} /Descent ${Math.round(font.descent * scale)} /CapHeight ${Math.round(font.ascent * scale)} /StemV 80 /FontFile2 ${id + 3} 0 R >>`);
+        writeStream(id + 3, `/Length1 ${font.bytes.length}`, font.bytes);
+        writeStream(id + 4, '', encoder.encode(toUnicodeCMap(glyphUse[i])));
+    });
+
+    const objectCount = pageId(pages.length);
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const pdf = new Uint8Array(length);
+    let position = 0;
+    for (const chunk of chunks) {
+        pdf.set(chunk, position);
+        position += chunk.length;
+    }
+    return pdf;
+}
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Reads just enough of a TrueType font to embed it in a PDF: its metrics, which glyph draws
+// each character, and how wide each glyph is.
+
+/**
+ * A parsed TrueType font. Lengths are in font units; divide by `unitsPerEm` for ems.
+ */
+export interface TrueTypeFont {
+    /** The name the font is embedded under. */
+    name: string;
+    /** The font file, embedded as it is. */
+    bytes: Uint8Array;
+    unitsPerEm: number;
+    ascent: number;
+    descent: number;
+    /** xMin, yMin, xMax, yMax over every glyph. */
+    bbox: [number, number, number, number];
+    /** The glyph that draws a character, or 0 (the missing-glyph box) if the font has none. */
+    glyphId(codePoint: number): number;
+    advanceWidth(glyphId: number): number;
+}
+
+const TRUETYPE_VERSIONS = new Set([0x00010000, 0x74727565 /* 'true' */]);
+
+
+// --- Helper Functions ---
+
+function readTables(view: DataView): Map<string, { offset: number; length: number }> {
+    const tables = new Map<string, { offset: number; length: number }>();
+    const count = view.getUint16(4);
+    for (let i = 0; i < count; i++) {
+        const record = 12 + i * 16;
+        const tag = String.fromCharCode(
+            view.getUint8(record), view.getUint8(record + 1), view.getUint8(record + 2), view.getUint8(record + 3)
+        );
+        tables.set(tag, { offset: view.getUint32(record + 8), length: view.getUint32(record + 12) });
+    }
+    return tables;
+}
+
+// Builds a lookup from a format 4 (16-bit) or format 12 (full Unicode) cmap subtable.
+function readCharacterMap(view: DataView, offset: number): ((codePoint: number) => number) | null {
+    const format = view.getUint16(offset);
+    if (format === 12) {
+        const groupCount = view.getUint32(offset + 12);
+        return codePoint => {
+            for (let i = 0; i < groupCount; i++) {
+                const group = offset + 16 + i * 12;
+                const start = view.getUint32(group);
+                if (codePoint >= start && codePoint <= view.getUint32(group + 4)) {
+                    return view.getUint32(group + 8) + (codePoint - start);
+                }
+            }
+            return 0;
+        };
+    }
+    if (format === 4) {
+        const segmentCount = view.getUint16(offset + 6) / 2;
+        const endCodes = offset + 14;
+        const startCodes = endCodes + segmentCount * 2 + 2;
+        const idDeltas = startCodes + segmentCount * 2;
+        const idRangeOffsets = idDeltas + segmentCount * 2;
+        return codePoint => {
+            if (codePoint > 0xffff) return 0;
+            for (let i = 0; i < segmentCount; i++) {
+                if (codePoint > view.getUint16(endCodes + i * 2)) continue;
+                const start = view.getUint16(startCodes + i * 2);
+                if (codePoint < start) return 0;
+                const delta = view.getInt16(idDeltas + i * 2);
+                const rangeOffset = view.getUint16(idRangeOffsets + i * 2);
+                if (rangeOffset === 0) return (codePoint + delta) & 0xffff;
+                const glyph = view.getUint16(idRangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2);
+                return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+            }
+            return 0;
+        };
+    }
+    return null;
+}
+
+
+// --- Parsing ---
+
+/**
+ * Parses a TrueType (.ttf) font file.
+ * @param bytes The font file.
+ * @param name The name to embed the font under, e.g. "Caveat-Bold".
+ * @throws Error if the file is not a TrueType font with a Unicode character map.
+ */
+export function parseTrueTypeFont(bytes: Uint8Array, name: string): TrueTypeFont {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes.byteLength < 12 || !TRUETYPE_VERSIONS.has(view.getUint32(0))) {
+        throw new Error(`${name} is not a TrueType font.`);
+    }
+    const tables = readTables(view);
+    const table = (tag: string) => {
+        const found = tables.get(tag);
+        if (!found) throw new Error(`${name} has no ${tag} table.`);
+        return found.offset;
+    };
+
+    const head = table('head');
+    const hhea = table('hhea');
+    const hmtx = table('hmtx');
+    const cmap = table('cmap');
+    const metricCount = view.getUint16(hhea + 34);
+
+    // Prefer a full-Unicode subtable, then any Unicode BMP one.
+    let glyphId: ((codePoint: number) => number) | null = null;
+    let bmpGlyphId: ((codePoint: number) => number) | null = null;
+    const subtableCount = view.getUint16(cmap + 2);
+    for (let i = 0; i < subtableCount; i++) {
+        const record = cmap + 4 + i * 8;
+        const platform = view.getUint16(record);
+        const encoding = view.getUint16(record + 2);
+        if (platform !== 0 && !(platform === 3 && (encoding === 1 || encoding === 10))) continue;
+        const lookup = readCharacterMap(view, cmap + view.getUint32(record + 4));
+        if (!lookup) continue;
+        if (view.getUint16(cmap + view.getUint32(record + 4)) === 12) glyphId ??= lookup;
+        else bmpGlyphId ??= lookup;
+    }
+    const lookup = glyphId ?? bmpGlyphId;
+    if (!lookup) {
+        throw new Error(`${name} has no Unicode character map.`);
+    }
+
+    return {
+        name,
+        bytes,
+        unitsPerEm: view.getUint16(head + 18),
+        ascent: view.getInt16(hhea + 4),
+        descent: view.getInt16(hhea + 6),
+        bbox: [view.getInt16(head + 36), view.getInt16(head + 38), view.getInt16(head + 40), view.getInt16(head + 42)],
+        glyphId: lookup,
+        // Glyphs past the last metric share its advance width.
+        advanceWidth: glyph => view.getUint16(hmtx + Math.min(glyph, metricCount - 1) * 4),
+    };
+}
+
+/**
+ * Whether the font has a glyph for every character of the text.
+ */
+export function fontCovers(font: TrueTypeFont, text: string): boolean {
+    for (const char of text) {
+        if (font.glyphId(char.codePointAt(0)!) === 0) return false;
+    }
+    return true;
+}
+
+/**
+ * The width of a line of text, in ems, ignoring kerning.
+ */
+export function textWidthEm(font: TrueTypeFont, text: string): number {
+    let width = 0;
+    for (const char of text) {
+        width += font.advanceWidth(font.glyphId(char.codePointAt(0)!));
+    }
+    return width / font.unitsPerEm;
+}
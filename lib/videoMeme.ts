@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { encodeGif } from './gifEncoder';
+import type { GifFrame } from './gifEncoder';
+import { DEFAULT_MEME_STYLE, drawMemeCaptions, loadMemeFonts } from './memeRenderer';
+import type { MemeCaptions, MemeStyle } from './memeRenderer';
+
+export type VideoMemeFormat = 'gif' | 'mp4';
+
+export interface VideoMemeOptions {
+    format: VideoMemeFormat;
+    /** Where the clip starts, in seconds into the video. */
+    startSec: number;
+    /** Where the clip ends, in seconds; the end of the video if omitted. */
+    endSec?: number;
+    /** The largest file the export may produce, in bytes. */
+    maxBytes: number;
+    /** The widest the export may be, in pixels. GIFs may come out narrower to stay under `maxBytes`. */
+    maxWidth: number;
+    /** Frames per second for GIFs. MP4s keep the video's own frame rate. */
+    gifFps: number;
+    style?: Partial<MemeStyle>;
+}
+
+export const DEFAULT_VIDEO_MEME_OPTIONS: VideoMemeOptions = {
+    format: 'gif',
+    startSec: 0,
+    maxBytes: 8 * 1024 * 1024,
+    maxWidth: 480,
+    gifFps: 12,
+};
+
+/**
+ * A rendered video meme, ready to download.
+ */
+export interface VideoMeme {
+    blob: Blob;
+    /** The file extension matching the blob's actual container. */
+    extension: 'gif' | 'mp4' | 'webm';
+    width: number;
+    height: number;
+}
+
+// The shortest clip worth exporting.
+const MIN_CLIP_SEC = 0.2;
+// How many times a GIF is re-encoded smaller before giving up on the size limit.
+const MAX_GIF_ATTEMPTS = 4;
+// Recording containers in order of preference. Browsers that cannot record MP4 fall back to WebM.
+const RECORDING_MIME_TYPES = ['video/mp4;codecs=avc1.42E01E', 'video/mp4', 'video/webm;codecs=vp9', 'video/webm'];
+
+
+// --- Helper Functions ---
+
+function loadVideo(src: string): Promise<HTMLVideoElement> {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        video.crossOrigin = 'anonymous';
+        video.muted = true;
+        video.playsInline = true;
+        video.preload = 'auto';
+        video.onloadeddata = () => resolve(video);
+        video.onerror = () => reject(new Error('Failed to load the video.'));
+        video.src = src;
+    });
+}
+
+function seek(video: HTMLVideoElement, time: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+        video.onseeked = () => resolve();
+        video.onerror = () => reject(new Error('Failed to read a frame of the video.'));
+        video.currentTime = time;
+    });
+}
+
+function formatMegabytes(bytes: number): string {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Fits the video into `maxWidth`, keeping even dimensions for video encoders.
+function outputSize(video: HTMLVideoElement, maxWidth: number): { width: number; height: number } {
+    const scale = Math.min(1, maxWidth / video.videoWidth);
+    const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+    return { width: even(video.videoWidth * scale), height: even(video.videoHeight * scale) };
+}
+
+/**
+ * Clamps a trim range to the video and checks it is long enough to export.
+ * @throws Error if the range is shorter than a fifth of a second.
+ */
+export function resolveTrimRange(duration: number, startSec: number, endSec?: number): { start: number; end: number } {
+    const start = Math.min(Math.max(0, startSec), duration);
+    const end = Math.min(Math.max(start, endSec ?? duration), duration);
+    if (end - start < MIN_CLIP_SEC) {
+        throw new Error('The trim range is too short to export.');
+    }
+    return { start, end };
+}
+
+/**
+ * Whether this browser can record MP4 directly. Where it cannot, MP4 exports are saved as WebM.
+ */
+export function canRecordMp4(): boolean {
+    return typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported('video/mp4');
+}
+
+
+// --- GIF ---
+
+function scaleFrames(frames: ImageData[], width: number, height: number): GifFrame[] {
+    const source = document.createElement('canvas');
+    source.width = frames[0].width;
+    source.height = frames[0].height;
+    const target = document.createElement('canvas');
+    target.width = width;
+    target.height = height;
+    const sourceCtx = source.getContext('2d');
+    const targetCtx = target.getContext('2d', { willReadFrequently: true });
+    if (!sourceCtx || !targetCtx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    return frames.map(frame => {
+        sourceCtx.putImageData(frame, 0, 0);
+        targetCtx.drawImage(source, 0, 0, width, height);
+        return targetCtx.getImageData(0, 0, width, height);
+    });
+}
+
+async function renderGif(
+    video: HTMLVideoElement,
+    captions: MemeCaptions,
+    options: VideoMemeOptions,
+    style: MemeStyle,
+    onProgress: (fraction: number) => void,
+    signal?: AbortSignal
+): Promise<VideoMeme> {
+    const { start, end } = resolveTrimRange(video.duration, options.startSec, options.endSec);
+    const size = outputSize(video, options.maxWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    // Captions are drawn at full size, so they shrink with the picture if the GIF has to.
+    const frameCount = Math.max(1, Math.round((end - start) * options.gifFps));
+    const frames: ImageData[] = [];
+    for (let i = 0; i < frameCount; i++) {
+        signal?.throwIfAborted();
+        await seek(video, start + i / options.gifFps);
+        ctx.drawImage(video, 0, 0, size.width, size.height);
+        drawMemeCaptions(ctx, size.width, size.height, captions, style);
+        frames.push(ctx.getImageData(0, 0, size.width, size.height));
+        onProgress(0.5 * (i + 1) / frameCount);
+    }
+
+    let { width, height } = size;
+    for (let attempt = 0; attempt < MAX_GIF_ATTEMPTS; attempt++) {
+        const scaled = attempt === 0 ? frames : scaleFrames(frames, width, height);
+        const bytes = await encodeGif(scaled, {
+            width,
+            height,
+            delayMs: 1000 / options.gifFps,
+            loop: true,
+            onProgress: (fraction) => {
+                signal?.throwIfAborted();
+                onProgress(0.5 + 0.5 * (attempt + fraction) / MAX_GIF_ATTEMPTS);
+            },
+        });
+        if (bytes.length <= options.maxBytes) {
+            onProgress(1);
+            return { blob: new Blob([bytes], { type: 'image/gif' }), extension: 'gif', width, height };
+        }
+        // File size grows roughly with pixel count, so shrink each side by the square root.
+        const shrink = Math.max(0.5, Math.sqrt(options.maxBytes / bytes.length) * 0.95);
+        width = Math.max(2, Math.round(width * shrink));
+        height = Math.max(2, Math.round(height * shrink));
+    }
+    throw new Error(`The GIF would not fit in ${formatMegabytes(options.maxBytes)}. Shorten the trim range, lower the frame rate or raise the size limit.`);
+}
+
+
+// --- MP4 ---
+
+async function renderRecording(
+    video: HTMLVideoElement,
+    captions: MemeCaptions,
+    options: VideoMemeOptions,
+    style: MemeStyle,
+    onProgress: (fraction: number) => void,
+    signal?: AbortSignal
+): Promise<VideoMeme> {
+    const mimeType = RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+        throw new Error('This browser cannot record video.');
+    }
+    const { start, end } = resolveTrimRange(video.duration, options.startSec, options.endSec);
+    const { width, height } = outputSize(video, options.maxWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    const drawFrame = () => {
+        ctx.drawImage(video, 0, 0, width, height);
+        drawMemeCaptions(ctx, width, height, captions, style);
+    };
+
+    await seek(video, start);
+    drawFrame();
+
+    // Leave some headroom under the limit for the container and bitrate overshoot.
+    const videoBitsPerSecond = Math.floor((options.maxBytes * 8 * 0.85) / (end - start));
+    const stream = canvas.captureStream();
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    // The clip is recorded as it plays, so exporting takes as long as the trimmed clip.
+    recorder.start();
+    try {
+        await video.play();
+        await new Promise<void>((resolve, reject) => {
+            const tick = () => {
+                if (signal?.aborted) {
+                    reject(signal.reason);
+                    return;
+                }
+                drawFrame();
+                onProgress(Math.min(1, (video.currentTime - start) / (end - start)));
+                if (video.currentTime >= end || video.ended) {
+                    resolve();
+                } else {
+                    requestAnimationFrame(tick);
+                }
+            };
+            requestAnimationFrame(tick);
+        });
+    } finally {
+        video.pause();
+        recorder.stop();
+        await stopped;
+        stream.getTracks().forEach(track => track.stop());
+    }
+
+    const type = mimeType.split(';')[0];
+    const blob = new Blob(chunks, { type });
+    if (blob.size > options.maxBytes) {
+        throw new Error(`The video came out at ${formatMegabytes(blob.size)}, over the ${formatMegabytes(options.maxBytes)} limit. Shorten the trim range or raise the size limit.`);
+    }
+    return { blob, extension: type === 'video/mp4' ? 'mp4' : 'webm', width, height };
+}
+
+
+// --- Rendering ---
+
+/**
+ * Burns meme captions into a generated video and exports a trimmed clip, entirely in the browser.
+ * GIFs are built from frames sampled at `gifFps` and shrunk until they fit `maxBytes`. MP4s are
+ * re-encoded by recording the captioned clip as it plays, at a bitrate chosen to fit `maxBytes`.
+ * @param videoUrl The video to caption. It must be same-origin or served with CORS headers.
+ * @param captions The top and bottom text.
+ * @param options The format, trim range and limits.
+ * @param onProgress Called with the fraction of the export done.
+ * @param signal Aborts the export.
+ * @returns A promise that resolves to the exported file.
+ */
+export async function renderVideoMeme(
+    videoUrl: string,
+    captions: MemeCaptions,
+    options: Partial<VideoMemeOptions> = {},
+    onProgress: (fraction: number) => void = () => {},
+    signal?: AbortSignal
+): Promise<VideoMeme> {
+    const resolved: VideoMemeOptions = { ...DEFAULT_VIDEO_MEME_OPTIONS, ...options };
+    const style: MemeStyle = { ...DEFAULT_MEME_STYLE, ...resolved.style };
+    // Loaded once up front, so no frame is drawn in a fallback font.
+    const [video] = await Promise.all([loadVideo(videoUrl), loadMemeFonts(captions, style)]);
+    try {
+        return resolved.format === 'gif'
+            ? await renderGif(video, captions, resolved, style, onProgress, signal)
+            : await renderRecording(video, captions, resolved, style, onProgress, signal);
+    } finally {
+        video.removeAttribute('src');
+        video.load();
+    }
+}
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { after, before, describe, it } from 'node:test';
+import { createProxyServer } from './proxy';
+import { STUB_VIDEO_BYTES, startStubUpstream } from './stubUpstream';
+import type { StubUpstream } from './stubUpstream';
+import { PROXY_ROUTES } from '../services/proxyProtocol';
+import type { ProxyErrorBody, ProxyResult, ScenarioStreamLine } from '../services/proxyProtocol';
+
+// Smoke tests for every proxy route, run through the real SDK against the stub upstream.
+
+const PNG_DATA_URL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+const SCENARIO_REQUEST = { prompt: 'Imagine scenes.', count: 3, personDesc: 'A person', objectDesc: 'A jacket', styleDesc: 'Y2K' };
+
+let stub: StubUpstream;
+let proxy: Server;
+let proxyUrl: string;
+
+function post(route: string, body: unknown): Promise<Response> {
+    return fetch(`${proxyUrl}/api${route}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+}
+
+async function postJson<T>(route: string, body: unknown): Promise<ProxyResult<T>> {
+    const response = await post(route, body);
+    assert.equal(response.status, 200, await response.clone().text());
+    const payload = await response.json() as ProxyResult<T>;
+    assert.ok(payload.usage.length > 0, `${route} reported no usage`);
+    assert.ok(payload.usage.every(entry => entry.outcome === 'success'));
+    return payload;
+}
+
+describe('proxy server', () => {
+    before(async () => {
+        stub = await startStubUpstream();
+        proxy = createProxyServer({ apiKey: 'test-key', upstreamBaseUrl: stub.url });
+        await new Promise<void>(resolve => proxy.listen(0, '127.0.0.1', resolve));
+        proxyUrl = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await new Promise(resolve => proxy.close(resolve));
+        await stub.close();
+    });
+
+    it('generates scenarios', async () => {
+        const { result } = await postJson<{ title: string }[]>(PROXY_ROUTES.scenarios, { request: SCENARIO_REQUEST });
+        assert.equal(result.length, SCENARIO_REQUEST.count);
+        assert.equal(result[0].title, 'Stub 1 title');
+    });
+
+    it('streams scenarios as newline-delimited JSON, ending with the usage', async () => {
+        const response = await post(PROXY_ROUTES.scenarioStream, { request: SCENARIO_REQUEST });
+        assert.equal(response.status, 200);
+        assert.equal(response.headers.get('content-type'), 'application/x-ndjson');
+        const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line) as ScenarioStreamLine);
+        const scenarios = lines.filter(line => 'scenario' in line);
+        assert.equal(scenarios.length, SCENARIO_REQUEST.count);
+        const last = lines[lines.length - 1];
+        assert.ok('usage' in last && last.usage.length === 1, 'the stream did not end with its usage');
+    });
+
+    it('generates styled image candidates', async () => {
+        const { result } = await postJson<{ url?: string }[]>(PROXY_ROUTES.styledImage, {
+            images: { personImages: [PNG_DATA_URL], productImages: [], styleImages: [] },
+            prompt: 'A portrait.',
+            candidateCount: 2,
+        });
+        assert.equal(result.length, 2);
+        assert.ok(result.every(candidate => candidate.url?.startsWith('data:image/png;base64,')));
+    });
+
+    it('generates a meme, a region edit and a refinement', async () => {
+        const meme = await postJson<string>(PROXY_ROUTES.meme, { imageDataUrl: PNG_DATA_URL, memeText: 'Hello', prompt: 'Make a meme.' });
+        assert.match(meme.result, /^data:image\/png;base64,/);
+        const edit = await postJson<string>(PROXY_ROUTES.editRegion, {
+            imageDataUrl: PNG_DATA_URL, maskDataUrl: PNG_DATA_URL, instruction: 'Add a hat.', prompt: 'Edit the region.',
+        });
+        assert.match(edit.result, /^data:image\/png;base64,/);
+        const refined = await postJson<string>(PROXY_ROUTES.refine, {
+            imageDataUrl: PNG_DATA_URL,
+            history: [{ instruction: 'Warmer.', prompt: 'Make it warmer.', imageUrl: PNG_DATA_URL }],
+            instruction: 'Brighter.',
+            prompt: 'Make it brighter.',
+        });
+        assert.match(refined.result, /^data:image\/png;base64,/);
+    });
+
+    it('analyses images', async () => {
+        const { result } = await postJson<string>(PROXY_ROUTES.analysis, { imageDataUrls: [PNG_DATA_URL], prompt: 'Describe it.' });
+        assert.equal(result, 'A stub description of the image.');
+    });
+
+    it('starts a video and streams its download', async () => {
+        const { result: operationName } = await postJson<string>(PROXY_ROUTES.startVideo, {
+            imageDataUrl: PNG_DATA_URL,
+            prompt: 'Animate it.',
+            options: { aspectRatio: '16:9', resolution: '720p', tier: 'fast', negativePrompt: '', numberOfVideos: 1 },
+        });
+        assert.match(operationName, /\/operations\//);
+
+        const response = await post(PROXY_ROUTES.downloadVideo, { job: { operationName, imageDataUrl: PNG_DATA_URL, prompt: 'Animate it.' } });
+        assert.equal(response.status, 200);
+        assert.equal(response.headers.get('content-type'), 'video/mp4');
+        assert.deepEqual(Buffer.from(await response.arrayBuffer()), STUB_VIDEO_BYTES);
+    });
+
+    it('rejects invalid bodies and unknown routes with an error body', async () => {
+        const invalid = await post(PROXY_ROUTES.analysis, { prompt: 'No images.' });
+        assert.equal(invalid.status, 400);
+        assert.equal((await invalid.json() as ProxyErrorBody).error.kind, 'invalid-input');
+
+        const unknown = await post('/nowhere', {});
+        assert.equal(unknown.status, 404);
+    });
+});
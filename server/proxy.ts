@@ -0,0 +1,331 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { pathToFileURL } from 'node:url';
+import { createGeminiProvider } from '../services/geminiProvider';
+import type { GeminiProvider } from '../services/geminiProvider';
+import { ApiError, classifyError } from '../services/errors';
+import { PROXY_ROUTES, statusForError, toProxyErrorBody } from '../services/proxyProtocol';
+import type { ProxyResult, ScenarioStreamLine } from '../services/proxyProtocol';
+import { assertVideoOptions } from '../services/videoOptions';
+import type { RefinementTurn } from '../services/generationProvider';
+import type { VideoAspectRatio, VideoModelTier, VideoOptions, VideoResolution } from '../services/videoOptions';
+import type { UsageEntry } from '../services/usageLedger';
+
+/**
+ * A small HTTP server that holds the Gemini API key and serves the same operations as the
+ * Gemini provider, for clients using the proxy provider (`GENERATION_PROVIDER=proxy`).
+ *
+ * Environment:
+ * - GEMINI_API_KEY: the key used for every upstream request (required).
+ * - PROXY_PORT / PROXY_HOST: where to listen; defaults to 127.0.0.1:8787.
+ * - GEMINI_BASE_URL: overrides the Gemini API endpoint, e.g. to run against a local stub.
+ */
+
+export interface ProxyServerOptions {
+    /** The key used for every upstream request. */
+    apiKey: string;
+    /** Overrides the Gemini API endpoint, e.g. with a `server/stubUpstream.ts` URL. */
+    upstreamBaseUrl?: string;
+}
+
+// Requests carry their reference images as data URLs, so bodies can be several megabytes.
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+
+// --- Helper Functions ---
+
+async function readJsonBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new ApiError('invalid-input', "The request body is too large.");
+        }
+        chunks.push(chunk);
+    }
+    try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+            throw new Error("Expected a JSON object.");
+        }
+        return body;
+    } catch (error) {
+        throw new ApiError('invalid-input', `The request body is not valid JSON: ${(error as Error).message}`);
+    }
+}
+
+function requireString(body: Record<string, unknown>, field: string): string {
+    const value = body[field];
+    if (typeof value !== 'string') {
+        throw new ApiError('invalid-input', `"${field}" must be a string.`);
+    }
+    return value;
+}
+
+function requireStringArray(body: Record<string, unknown>, field: string): string[] {
+    const value = body[field];
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+        throw new ApiError('invalid-input', `"${field}" must be an array of strings.`);
+    }
+    return value;
+}
+
+function requireObject(body: Record<string, unknown>, field: string): Record<string, unknown> {
+    const value = body[field];
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new ApiError('invalid-input', `"${field}" must be an object.`);
+    }
+    return value as Record<string, unknown>;
+}
+
+function requireObjectArray(body: Record<string, unknown>, field: string): Record<string, unknown>[] {
+    const value = body[field];
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'object' && item !== null && !Array.isArray(item))) {
+        throw new ApiError('invalid-input', `"${field}" must be an array of objects.`);
+    }
+    return value;
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+}
+
+function sendError(response: ServerResponse, error: ApiError) {
+    if (response.headersSent) {
+        response.destroy(error);
+        return;
+    }
+    sendJson(response, statusForError(error), toProxyErrorBody(error));
+}
+
+
+// --- Routes ---
+
+/**
+ * Everything a route handler needs for one request: a provider whose model usage is collected
+ * for the response, and a signal that aborts when the client disconnects.
+ */
+interface RouteContext {
+    provider: GeminiProvider;
+    usage: UsageEntry[];
+    body: Record<string, unknown>;
+    response: ServerResponse;
+    signal: AbortSignal;
+}
+
+// Sends a route's result as JSON together with the usage it incurred.
+function respondWith<T>(context: RouteContext, result: T) {
+    const payload: ProxyResult<T> = { result, usage: context.usage };
+    sendJson(context.response, 200, payload);
+}
+
+function scenarioRequest(body: Record<string, unknown>) {
+    const request = requireObject(body, 'request');
+    const count = request.count;
+    if (typeof count !== 'number' || !Number.isInteger(count)) {
+        throw new ApiError('invalid-input', '"request.count" must be an integer.');
+    }
+    return {
+        prompt: requireString(request, 'prompt'),
+        count,
+        personDesc: requireString(request, 'personDesc'),
+        objectDesc: requireString(request, 'objectDesc'),
+        styleDesc: requireString(request, 'styleDesc'),
+        userPrompt: typeof request.userPrompt === 'string' ? request.userPrompt : undefined,
+    };
+}
+
+// Reads and validates the video options, so unsupported settings never reach the API.
+function videoOptions(body: Record<string, unknown>): VideoOptions {
+    const options = requireObject(body, 'options');
+    const numberOfVideos = options.numberOfVideos;
+    if (typeof numberOfVideos !== 'number') {
+        throw new ApiError('invalid-input', '"options.numberOfVideos" must be a number.');
+    }
+    const parsed: VideoOptions = {
+        aspectRatio: requireString(options, 'aspectRatio') as VideoAspectRatio,
+        resolution: requireString(options, 'resolution') as VideoResolution,
+        tier: requireString(options, 'tier') as VideoModelTier,
+        negativePrompt: requireString(options, 'negativePrompt'),
+        numberOfVideos,
+    };
+    assertVideoOptions(parsed);
+    return parsed;
+}
+
+function refinementHistory(body: Record<string, unknown>): RefinementTurn[] {
+    return requireObjectArray(body, 'history').map(turn => ({
+        instruction: requireString(turn, 'instruction'),
+        prompt: requireString(turn, 'prompt'),
+        imageUrl: requireString(turn, 'imageUrl'),
+    }));
+}
+
+async function streamScenarios(context: RouteContext) {
+    const request = scenarioRequest(context.body);
+    const { response } = context;
+    const writeLine = (line: ScenarioStreamLine) => response.write(`${JSON.stringify(line)}\n`);
+
+    response.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+    try {
+        for await (const scenario of context.provider.streamScenarios(request, context.signal)) {
+            writeLine({ scenario });
+        }
+        writeLine({ usage: context.usage });
+    } catch (error) {
+        // The status has already been sent, so the failure travels as the stream's last line.
+        writeLine(toProxyErrorBody(classifyError(error, "Generating creative ideas", context.signal)));
+    }
+    response.end();
+}
+
+async function downloadVideo(context: RouteContext) {
+    const job = requireObject(context.body, 'job');
+    const upstream = await context.provider.downloadVideo({
+        operationName: requireString(job, 'operationName'),
+        imageDataUrl: requireString(job, 'imageDataUrl'),
+        prompt: requireString(job, 'prompt'),
+    }, context.signal);
+
+    const headers: Record<string, string> = {
+        'Content-Type': upstream.headers.get('content-type') ?? 'video/mp4',
+        'Cache-Control': 'no-store',
+    };
+    const length = upstream.headers.get('content-length');
+    if (length) headers['Content-Length'] = length;
+    context.response.writeHead(200, headers);
+
+    if (!upstream.body) {
+        context.response.end();
+        return;
+    }
+    // Stream the bytes through rather than buffering the whole video in memory.
+    try {
+        await pipeline(Readable.fromWeb(upstream.body as NodeReadableStream<Uint8Array>), context.response);
+    } catch (error) {
+        // A client that cancels the download aborts the upstream fetch; there is no one left to tell.
+        if (context.signal.aborted) return;
+        throw error;
+    }
+}
+
+const ROUTES: Record<string, (context: RouteContext) => Promise<void>> = {
+    [PROXY_ROUTES.scenarios]: async context => {
+        respondWith(context, await context.provider.generateScenarios(scenarioRequest(context.body), context.signal));
+    },
+    [PROXY_ROUTES.scenarioStream]: streamScenarios,
+    [PROXY_ROUTES.styledImage]: async context => {
+        const images = requireObject(context.body, 'images');
+        const candidateCount = context.body.candidateCount;
+        if (typeof candidateCount !== 'number' || !Number.isInteger(candidateCount) || candidateCount < 1) {
+            throw new ApiError('invalid-input', '"candidateCount" must be a positive integer.');
+        }
+        respondWith(context, await context.provider.generateStyledImage({
+            personImages: requireStringArray(images, 'personImages'),
+            productImages: requireStringArray(images, 'productImages'),
+            styleImages: requireStringArray(images, 'styleImages'),
+        }, requireString(context.body, 'prompt'), candidateCount, context.signal));
+    },
+    [PROXY_ROUTES.meme]: async context => {
+        const { body } = context;
+        respondWith(context, await context.provider.generateMemeImage(
+            requireString(body, 'imageDataUrl'), requireString(body, 'memeText'), requireString(body, 'prompt'), context.signal));
+    },
+    [PROXY_ROUTES.editRegion]: async context => {
+        const { body } = context;
+        respondWith(context, await context.provider.editImageRegion(
+            requireString(body, 'imageDataUrl'), requireString(body, 'maskDataUrl'), requireString(body, 'instruction'),
+            requireString(body, 'prompt'), context.signal));
+    },
+    [PROXY_ROUTES.refine]: async context => {
+        const { body } = context;
+        respondWith(context, await context.provider.refineImage(
+            requireString(body, 'imageDataUrl'), refinementHistory(body), requireString(body, 'instruction'),
+            requireString(body, 'prompt'), context.signal));
+    },
+    [PROXY_ROUTES.analysis]: async context => {
+        const { body } = context;
+        respondWith(context, await context.provider.analyzeImageContent(
+            requireStringArray(body, 'imageDataUrls'), requireString(body, 'prompt'), context.signal));
+    },
+    [PROXY_ROUTES.startVideo]: async context => {
+        const { body } = context;
+        respondWith(context, await context.provider.startVideoGeneration(
+            requireString(body, 'imageDataUrl'), requireString(body, 'prompt'), videoOptions(body), context.signal));
+    },
+    [PROXY_ROUTES.downloadVideo]: downloadVideo,
+};
+
+
+// --- Server ---
+
+async function handleRequest(options: ProxyServerOptions, request: IncomingMessage, response: ServerResponse) {
+    // Aborts upstream requests, retries and polling as soon as the client goes away.
+    const controller = new AbortController();
+    response.on('close', () => {
+        if (!response.writableFinished) {
+            controller.abort(new DOMException("The client disconnected.", 'AbortError'));
+        }
+    });
+
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname.replace(/^\/api/, '');
+    const route = ROUTES[path];
+    if (!route) {
+        sendJson(response, 404, toProxyErrorBody(new ApiError('invalid-input', `Unknown route ${path}.`)));
+        return;
+    }
+    if (request.method !== 'POST') {
+        response.setHeader('Allow', 'POST');
+        sendJson(response, 405, toProxyErrorBody(new ApiError('invalid-input', `${path} only accepts POST.`)));
+        return;
+    }
+
+    const usage: UsageEntry[] = [];
+    // A provider per request, so the usage returned with each response is that request's alone.
+    const provider = createGeminiProvider(options.apiKey, {
+        baseUrl: options.upstreamBaseUrl,
+        recordUsage: entry => usage.push(entry),
+    });
+
+    try {
+        const body = await readJsonBody(request);
+        await route({ provider, usage, body, response, signal: controller.signal });
+    } catch (error) {
+        const apiError = classifyError(error, "Proxy request", controller.signal);
+        if (apiError.kind !== 'cancelled') {
+            console.error(`${path} failed:`, apiError.message);
+        }
+        sendError(response, apiError);
+    }
+}
+
+/**
+ * Creates the proxy's HTTP server, ready to `listen`.
+ */
+export function createProxyServer(options: ProxyServerOptions): Server {
+    return createServer((request, response) => void handleRequest(options, request, response));
+}
+
+// Started directly (`npm run proxy`), rather than imported by a test.
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    const port = Number(process.env.PROXY_PORT ?? 8787);
+    const host = process.env.PROXY_HOST ?? '127.0.0.1';
+    const upstreamBaseUrl = process.env.GEMINI_BASE_URL || undefined;
+    if (!apiKey) {
+        console.error("GEMINI_API_KEY is not set. Add it to .env.local or the environment before starting the proxy.");
+        process.exit(1);
+    }
+    createProxyServer({ apiKey, upstreamBaseUrl }).listen(port, host, () => {
+        console.log(`Gemini proxy listening on http://${host}:${port}${upstreamBaseUrl ? ` (upstream ${upstreamBaseUrl})` : ''}`);
+    });
+}
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { pathToFileURL } from 'node:url';
+
+/**
+ * A stand-in for the Gemini API that answers the REST calls the SDK makes for the proxy's
+ * routes with canned but well-formed responses, so the proxy can be run and tested without a
+ * key or network access. Point the proxy at it with `GEMINI_BASE_URL`.
+ *
+ * - generateContent / streamGenerateContent: a 1×1 PNG per candidate when images are asked
+ *   for, JSON built from the response schema when one is given, and plain text otherwise.
+ * - predictLongRunning: an operation that is already done, whose video downloads from the stub.
+ *
+ * Environment, when run directly (`npm run proxy:stub`):
+ * - STUB_PORT / STUB_HOST: where to listen; defaults to 127.0.0.1:8788.
+ */
+
+export interface StubUpstream {
+    /** The base URL to pass as `GEMINI_BASE_URL`. */
+    url: string;
+    /** Every request the stub has received, e.g. "POST /v1beta/models/gemini-2.5-flash:generateContent". */
+    requests: string[];
+    close(): Promise<void>;
+}
+
+const STUB_PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+export const STUB_VIDEO_BYTES = Buffer.from('stub video bytes');
+const STUB_USAGE = { promptTokenCount: 10, candidatesTokenCount: 20, totalTokenCount: 30 };
+
+interface SchemaNode {
+    type?: string;
+    minItems?: string;
+    items?: SchemaNode;
+    properties?: Record<string, SchemaNode>;
+}
+
+// The parts of a generateContent request body the stub reads.
+interface StubRequestBody {
+    generationConfig?: {
+        responseModalities?: string[];
+        candidateCount?: number;
+        responseSchema?: SchemaNode;
+    };
+}
+
+
+// --- Helper Functions ---
+
+async function readBody(request: IncomingMessage): Promise<StubRequestBody> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+        chunks.push(chunk);
+    }
+    const text = Buffer.concat(chunks).toString('utf8');
+    return text ? JSON.parse(text) as StubRequestBody : {};
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+}
+
+// Fills a response schema with placeholder values: the fewest items an array allows, and a
+// string naming each field.
+function sampleFromSchema(schema: SchemaNode, name: string): unknown {
+    const child = (part: string | number) => (name ? `${name} ${part}` : String(part));
+    switch (schema.type?.toUpperCase()) {
+        case 'ARRAY':
+            return Array.from({ length: Number(schema.minItems ?? 1) }, (_, i) => sampleFromSchema(schema.items ?? {}, child(i + 1)));
+        case 'OBJECT':
+            return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, value]) => [key, sampleFromSchema(value, child(key))]));
+        case 'NUMBER':
+        case 'INTEGER':
+            return 1;
+        case 'BOOLEAN':
+            return true;
+        default:
+            return `Stub ${name}`;
+    }
+}
+
+// The text a text request is answered with.
+function responseText(body: StubRequestBody): string {
+    const schema = body.generationConfig?.responseSchema;
+    return schema ? JSON.stringify(sampleFromSchema(schema, '')) : 'A stub description of the image.';
+}
+
+function generateContent(body: StubRequestBody) {
+    const config = body.generationConfig ?? {};
+    if ((config.responseModalities ?? []).includes('IMAGE')) {
+        return {
+            candidates: Array.from({ length: config.candidateCount ?? 1 }, (_, index) => ({
+                index,
+                content: { role: 'model', parts: [{ inlineData: { mimeType: 'image/png', data: STUB_PNG_BASE64 } }] },
+                finishReason: 'STOP',
+            })),
+            usageMetadata: STUB_USAGE,
+        };
+    }
+    return {
+        candidates: [{ index: 0, content: { role: 'model', parts: [{ text: responseText(body) }] }, finishReason: 'STOP' }],
+        usageMetadata: STUB_USAGE,
+    };
+}
+
+// Streams the text in a few pieces as server-sent events, with the usage on the last one.
+function streamGenerateContent(response: ServerResponse, body: StubRequestBody) {
+    const text = responseText(body);
+    const pieceLength = Math.ceil(text.length / 3);
+    response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (let start = 0; start < text.length; start += pieceLength) {
+        const isLast = start + pieceLength >= text.length;
+        const chunk = {
+            candidates: [{
+                index: 0,
+                content: { role: 'model', parts: [{ text: text.substring(start, start + pieceLength) }] },
+                finishReason: isLast ? 'STOP' : undefined,
+            }],
+            usageMetadata: isLast ? STUB_USAGE : undefined,
+        };
+        response.write(`data: ${JSON.stringify(chunk)}\r\n\r\n`);
+    }
+    response.end();
+}
+
+
+// --- Server ---
+
+function createStubServer(requests: string[]): Server {
+    let operationCount = 0;
+    return createServer(async (request, response) => {
+        const url = new URL(request.url ?? '/', `http://${request.headers.host}`);
+        requests.push(`${request.method} ${url.pathname}`);
+        if (!request.headers['x-goog-api-key']) {
+            sendJson(response, 401, { error: { code: 401, status: 'UNAUTHENTICATED', message: 'No API key was sent.' } });
+            return;
+        }
+
+        const model = url.pathname.match(/^\/v1beta\/models\/([^/:]+):(\w+)$/);
+        if (request.method === 'POST' && model) {
+            const body = await readBody(request);
+            switch (model[2]) {
+                case 'generateContent':
+                    sendJson(response, 200, generateContent(body));
+                    return;
+                case 'streamGenerateContent':
+                    streamGenerateContent(response, body);
+                    return;
+                case 'predictLongRunning':
+                    sendJson(response, 200, { name: `models/${model[1]}/operations/stub-${++operationCount}` });
+                    return;
+            }
+        }
+        if (request.method === 'GET' && /^\/v1beta\/models\/[^/]+\/operations\/[^/]+$/.test(url.pathname)) {
+            sendJson(response, 200, {
+                name: url.pathname.replace(/^\/v1beta\//, ''),
+                done: true,
+                response: {
+                    generateVideoResponse: {
+                        generatedSamples: [{ video: { uri: `${url.origin}/v1beta/files/stub-video:download?alt=media` } }],
+                    },
+                },
+            });
+            return;
+        }
+        if (request.method === 'GET' && url.pathname === '/v1beta/files/stub-video:download') {
+            response.writeHead(200, { 'Content-Type': 'video/mp4', 'Content-Length': STUB_VIDEO_BYTES.length });
+            response.end(STUB_VIDEO_BYTES);
+            return;
+        }
+        sendJson(response, 404, { error: { code: 404, status: 'NOT_FOUND', message: `The stub does not serve ${request.method} ${url.pathname}.` } });
+    });
+}
+
+/**
+ * Starts the stub.
+ * @param port Where to listen; 0 picks a free port.
+ * @param host The interface to listen on.
+ * @returns The running stub, with its base URL and a log of the requests it received.
+ */
+export function startStubUpstream(port = 0, host = '127.0.0.1'): Promise<StubUpstream> {
+    const requests: string[] = [];
+    const server = createStubServer(requests);
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+            const { port: boundPort } = server.address() as AddressInfo;
+            resolve({
+                url: `http://${host}:${boundPort}`,
+                requests,
+                close: () => new Promise(done => server.close(() => done())),
+            });
+        });
+    });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+    const stub = await startStubUpstream(Number(process.env.STUB_PORT ?? 8788), process.env.STUB_HOST ?? '127.0.0.1');
+    console.log(`Stub Gemini API listening on ${stub.url}. Start the proxy with GEMINI_BASE_URL=${stub.url}`);
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Options accepted by every exported service function.
+ */
+export interface CallOptions {
+    /** Aborts the call, including any pending retries or polling, when signalled. */
+    signal?: AbortSignal;
+    /** The overall deadline for the call in milliseconds, covering every retry and poll. */
+    timeoutMs?: number;
+}
+
+/** Default overall deadlines per operation, used when a caller does not pass `timeoutMs`. */
+export const DEFAULT_TIMEOUTS_MS = {
+    scenarios: 60_000,
+    image: 120_000,
+    meme: 120_000,
+    edit: 120_000,
+    refine: 120_000,
+    analysis: 60_000,
+    video: 10 * 60_000,
+} as const;
+
+/**
+ * Combines the caller's signal with an overall deadline into a single signal.
+ * The returned signal aborts with an 'AbortError' on cancellation and a 'TimeoutError' on expiry.
+ * @param options The caller's options.
+ * @param defaultTimeoutMs The deadline to use when the caller did not specify one.
+ * @returns A signal to thread through every request, retry and poll of the call.
+ */
+export function withDeadline(options: CallOptions, defaultTimeoutMs: number): AbortSignal {
+    const deadline = AbortSignal.timeout(options.timeoutMs ?? defaultTimeoutMs);
+    return options.signal ? AbortSignal.any([options.signal, deadline]) : deadline;
+}
+
+/**
+ * Waits for the given time, rejecting with the signal's reason as soon as it aborts.
+ * @param ms The time to wait in milliseconds.
+ * @param signal An optional signal that cuts the wait short.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Every way a generation call can fail, as seen by the UI.
+ * - quota: rate limit or usage quota exhausted (HTTP 429 / RESOURCE_EXHAUSTED).
+ * - safety: the prompt or the output was blocked by safety filters.
+ * - blocked-input: the app's own pre-check refused the user's text before any request was made.
+ * - invalid-input: the request itself was rejected, e.g. a malformed image.
+ * - auth: the API key is missing, invalid or lacks permission.
+ * - timeout: the call did not finish in time.
+ * - cancelled: the caller aborted the call.
+ * - network: the request never reached the API.
+ * - text-response: the model answered with text when media or structured output was expected.
+ * - invalid-output: the model returned structured output that does not match the expected schema.
+ * - server: the API failed internally.
+ * - unknown: anything that could not be classified.
+ */
+export type ApiErrorKind =
+    | 'quota'
+    | 'safety'
+    | 'blocked-input'
+    | 'invalid-input'
+    | 'auth'
+    | 'timeout'
+    | 'cancelled'
+    | 'network'
+    | 'text-response'
+    | 'invalid-output'
+    | 'server'
+    | 'unknown';
+
+/**
+ * The recovery a UI should offer for an error kind.
+ * - retry: the same call may succeed if tried again.
+ * - wait: retrying is pointless until the retry-after hint has elapsed.
+ * - check-key: the user has to fix their API key configuration.
+ * - change-input: the user has to change what they submitted.
+ */
+export type ApiErrorAction = 'retry' | 'wait' | 'check-key' | 'change-input';
+
+export interface ApiErrorKindInfo {
+    /** A short heading for error displays. */
+    title: string;
+    /** A sentence explaining the failure to the user. */
+    message: string;
+    action: ApiErrorAction;
+    /** How long to wait before retrying when the API gives no hint of its own. */
+    defaultRetryAfterMs?: number;
+}
+
+export const API_ERROR_KINDS: Record<ApiErrorKind, ApiErrorKindInfo> = {
+    'quota': {
+        title: "Quota Limit Reached",
+        message: "API usage limits were reached. Please check your quota in Google AI Studio.",
+        action: 'wait',
+        defaultRetryAfterMs: 60_000,
+    },
+    'safety': {
+        title: "Blocked by Safety Filters",
+        message: "The request or its result was blocked by safety filters. Try again, or use a different image or idea.",
+        action: 'retry',
+    },
+    'blocked-input': {
+        title: "Blocked Before Sending",
+        message: "Your text was not sent because it did not pass the content check. Reword it and try again.",
+        action: 'change-input',
+    },
+    'invalid-input': {
+        title: "Invalid Input",
+        message: "The request was rejected as invalid. Check the uploaded images and text.",
+        action: 'change-input',
+    },
+    'auth': {
+        title: "API Key Problem",
+        message: "The API key is missing, invalid or not allowed to use this model.",
+        action: 'check-key',
+    },
+    'timeout': {
+        title: "Timed Out",
+        message: "The request took too long to complete.",
+        action: 'retry',
+    },
+    'cancelled': {
+        title: "Cancelled",
+        message: "The request was cancelled.",
+        action: 'retry',
+    },
+    'network': {
+        title: "Connection Problem",
+        message: "Could not reach the API. Check your internet connection.",
+        action: 'retry',
+        defaultRetryAfterMs: 5_000,
+    },
+    'text-response': {
+        title: "Unexpected Response",
+        message: "The AI model replied with text instead of the expected result.",
+        action: 'retry',
+    },
+    'invalid-output': {
+        title: "Malformed Response",
+        message: "The AI model's response did not match the expected format.",
+        action: 'retry',
+    },
+    'server': {
+        title: "Service Error",
+        message: "The AI service had an internal error.",
+        action: 'retry',
+        defaultRetryAfterMs: 2_000,
+    },
+    'unknown': {
+        title: "Generation Failed",
+        message: "Something went wrong.",
+        action: 'retry',
+    },
+};
+
+/** Where users can inspect their key and quota. */
+export const API_KEY_HELP_URL = "https://aistudio.google.com/app/apikey";
+
+
+// --- Custom Error ---
+export class ApiError extends Error {
+    public readonly kind: ApiErrorKind;
+    /** A hint, in milliseconds, for how long to wait before retrying. */
+    public readonly retryAfterMs?: number;
+    /** The raw error text from the API, kept for logging. */
+    public readonly details?: string;
+
+    constructor(kind: ApiErrorKind, message?: string, options: { retryAfterMs?: number; details?: string } = {}) {
+        super(message ?? API_ERROR_KINDS[kind].message);
+        this.name = 'ApiError';
+        this.kind = kind;
+        this.retryAfterMs = options.retryAfterMs ?? API_ERROR_KINDS[kind].defaultRetryAfterMs;
+        this.details = options.details;
+    }
+
+    get isQuotaError(): boolean {
+        return this.kind === 'quota';
+    }
+
+    /** Whether repeating the identical call could succeed. */
+    get isRetryable(): boolean {
+        const { action } = API_ERROR_KINDS[this.kind];
+        return action === 'retry' || action === 'wait';
+    }
+}
+
+
+// --- Classification ---
+
+interface RpcErrorBody {
+    code?: number;
+    status?: string;
+    message?: string;
+    details?: { '@type'?: string; retryDelay?: string; fieldViolations?: { field?: string }[] }[];
+}
+
+/**
+ * Extracts the google.rpc error body that the SDK embeds in its error messages.
+ * @param message The raw error message.
+ * @returns The parsed error body, or null if the message does not contain one.
+ */
+function parseRpcError(message: string): RpcErrorBody | null {
+    const jsonStart = message.indexOf('{');
+    if (jsonStart === -1) return null;
+    try {
+        const parsed = JSON.parse(message.substring(jsonStart));
+        return (parsed?.error ?? parsed) as RpcErrorBody;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reads a google.rpc.RetryInfo delay such as "37s" or "1.5s" from an error body.
+ * @returns The delay in milliseconds, or undefined if none was given.
+ */
+function parseRetryDelay(body: RpcErrorBody | null): number | undefined {
+    const retryInfo = body?.details?.find(detail => detail['@type']?.endsWith('RetryInfo'));
+    const match = retryInfo?.retryDelay?.match(/^(\d+(?:\.\d+)?)s$/);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+function kindFromStatus(code: number | undefined, status: string | undefined, message: string): ApiErrorKind | null {
+    if (code === 429 || status === 'RESOURCE_EXHAUSTED') return 'quota';
+    if (code === 401 || code === 403 || status === 'UNAUTHENTICATED' || status === 'PERMISSION_DENIED') return 'auth';
+    // An invalid key is reported as a 400 rather than a 401.
+    if (/API[_ ]KEY/i.test(message) && (code === 400 || status === 'INVALID_ARGUMENT')) return 'auth';
+    if (code === 408 || code === 504 || status === 'DEADLINE_EXCEEDED') return 'timeout';
+    if (code === 400 || code === 404 || code === 413 || status === 'INVALID_ARGUMENT' || status === 'FAILED_PRECONDITION') return 'invalid-input';
+    if ((code !== undefined && code >= 500) || status === 'INTERNAL' || status === 'UNAVAILABLE') return 'server';
+    return null;
+}
+
+/**
+ * Maps any thrown value onto the ApiError family.
+ * @param error The value that was thrown.
+ * @param operation A phrase naming the failed operation, used as the message prefix (e.g. "Image generation").
+ * @param signal The call's abort signal. Once it has fired, its reason is classified instead of `error`,
+ * since the SDK and fetch surface aborts in inconsistent ways.
+ * @returns An ApiError describing the failure. ApiErrors are returned unchanged.
+ */
+export function classifyError(error: unknown, operation: string, signal?: AbortSignal): ApiError {
+    if (signal?.aborted) {
+        error = signal.reason;
+    }
+    if (error instanceof ApiError) {
+        return error;
+    }
+
+    let rawMessage: string;
+    try {
+        rawMessage = error instanceof Error ? error.message : JSON.stringify(error) ?? String(error);
+    } catch {
+        // Circular or BigInt-holding values cannot be serialised.
+        rawMessage = String(error);
+    }
+    const errorName = error instanceof Error ? error.name : '';
+    const httpStatus = typeof (error as { status?: unknown })?.status === 'number'
+        ? (error as { status: number }).status
+        : undefined;
+    const body = parseRpcError(rawMessage);
+
+    let kind = kindFromStatus(body?.code ?? httpStatus, body?.status, rawMessage);
+    if (!kind) {
+        if (errorName === 'TimeoutError') {
+            kind = 'timeout';
+        } else if (errorName === 'AbortError') {
+            kind = 'cancelled';
+        } else if (error instanceof TypeError && /fetch|network/i.test(rawMessage)) {
+            kind = 'network';
+        } else {
+            kind = 'unknown';
+        }
+    }
+
+    const info = API_ERROR_KINDS[kind];
+    const message = kind === 'unknown' || kind === 'server' || kind === 'invalid-input'
+        ? `${operation} failed. ${info.message} Details: ${body?.message ?? rawMessage}`
+        : `${operation} failed. ${info.message}`;
+
+    return new ApiError(kind, message, { retryAfterMs: parseRetryDelay(body), details: rawMessage });
+}
+
+/**
+ * Lists the request fields that an INVALID_ARGUMENT error blames, from its google.rpc.BadRequest
+ * details, e.g. "generation_config.candidate_count".
+ * @param error A classified error; its raw details are searched.
+ * @returns The field paths, or an empty array if the error names none.
+ */
+export function invalidRequestFields(error: ApiError): string[] {
+    const body = parseRpcError(error.details ?? '');
+    if (body?.status !== 'INVALID_ARGUMENT' && body?.code !== 400) return [];
+    return (body.details ?? [])
+        .filter(detail => detail['@type']?.endsWith('BadRequest'))
+        .flatMap(detail => detail.fieldViolations ?? [])
+        .flatMap(violation => (violation.field ? [violation.field] : []));
+}
@@ -0,0 +1,729 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { FinishReason, GenerateVideosOperation, GoogleGenAI, Modality, Type } from "@google/genai";
+import type { Content, GenerateContentResponse, GenerateContentResponseUsageMetadata, Part, Schema } from "@google/genai";
+import { ApiError, classifyError, invalidRequestFields } from './errors';
+import { abortableDelay } from './cancellation';
+import { requestScheduler } from './requestScheduler';
+import { SCENARIO_FIELDS, tooFewScenariosError, validateScenario, validateScenarios } from './scenarios';
+import type { Scenario } from './scenarios';
+import { SUPPORTED_IMAGE_MIME_TYPES } from '../lib/imagePreprocessing';
+import { JsonArrayStreamParser } from '../lib/jsonArrayStream';
+import { VIDEO_MODELS } from './videoOptions';
+import type { VideoOptions } from './videoOptions';
+import { recordUsage } from './usageLedger';
+import type { UsageEntry, UsageOperation } from './usageLedger';
+import type {
+    GenerationProvider,
+    ImageCandidate,
+    RefinementTurn,
+    ScenarioRequest,
+    StyledImageSources,
+    VideoOperationRef,
+} from './generationProvider';
+
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const TEXT_MODEL = 'gemini-2.5-flash';
+// Status polls for long-running operations are rate limited separately from the models.
+const OPERATIONS_QUEUE = 'operations';
+
+
+// --- Helper Functions ---
+
+/**
+ * Converts a data URL to a GoogleGenerativeAI.Part object using robust string manipulation.
+ * @param imageDataUrl The data URL of the image.
+ * @param errorContext A string to provide context in error messages.
+ * @returns A Part object for the Gemini API.
+ */
+function dataUrlToGenaiPart(imageDataUrl: string, errorContext: string) {
+    const base64Marker = ';base64,';
+    const base64MarkerIndex = imageDataUrl.indexOf(base64Marker);
+    
+    if (base64MarkerIndex === -1 || !imageDataUrl.startsWith('data:image/')) {
+        throw new ApiError('invalid-input', `Invalid image data URL format for ${errorContext}. Expected 'data:image/...;base64,...'`);
+    }
+
+    const mimeType = imageDataUrl.substring(5, base64MarkerIndex);
+    if (!SUPPORTED_IMAGE_MIME_TYPES.includes(mimeType)) {
+        throw new ApiError('invalid-input', `Unsupported image type "${mimeType}" for ${errorContext}. Expected one of: ${SUPPORTED_IMAGE_MIME_TYPES.join(', ')}.`);
+    }
+    const base64Data = imageDataUrl.substring(base64MarkerIndex + base64Marker.length);
+
+    return { inlineData: { mimeType, data: base64Data } };
+}
+
+// Wraps request parts as one user turn of a conversation.
+function userTurn(...parts: Part[]): Content {
+    return { role: 'user', parts };
+}
+
+
+/**
+ * A Gemini API client, with the key its video downloads are authorised with and the sink its
+ * requests are metered to.
+ */
+interface GeminiClient {
+    ai: GoogleGenAI;
+    apiKey: string;
+    recordUsage: UsageSink;
+}
+
+/**
+ * Records one model request with the client's usage sink.
+ * @param client The client the request was issued with.
+ * @param operation What the request was for.
+ * @param model The model it was sent to.
+ * @param startedAt When the request was issued, for its latency.
+ * @param outcome The error it failed with, if any.
+ * @param usage The response's token counts, if it returned any.
+ * @param videoSeconds Seconds of video the request is billed for.
+ */
+function recordModelCall(
+    client: GeminiClient,
+    operation: UsageOperation,
+    model: string,
+    startedAt: number,
+    outcome: { error?: unknown; signal?: AbortSignal },
+    usage?: GenerateContentResponseUsageMetadata,
+    videoSeconds: number = 0
+) {
+    client.recordUsage({
+        provider: 'gemini',
+        model,
+        operation,
+        promptTokens: usage?.promptTokenCount ?? 0,
+        outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+        totalTokens: usage?.totalTokenCount ?? 0,
+        videoSeconds,
+        latencyMs: Date.now() - startedAt,
+        outcome: 'error' in outcome ? classifyError(outcome.error, "Request", outcome.signal).kind : 'success',
+    });
+}
+
+/**
+ * Issues a generateContent request and records it with the client's usage sink, whether it succeeds or fails.
+ */
+async function meteredGenerateContent(
+    client: GeminiClient,
+    operation: UsageOperation,
+    run: () => Promise<GenerateContentResponse>,
+    model: string,
+    signal?: AbortSignal
+): Promise<GenerateContentResponse> {
+    const startedAt = Date.now();
+    try {
+        const response = await run();
+        recordModelCall(client, operation, model, startedAt, {}, response.usageMetadata);
+        return response;
+    } catch (error) {
+        recordModelCall(client, operation, model, startedAt, { error, signal });
+        throw error;
+    }
+}
+
+
+// Finish reasons that mean the output was withheld by a content filter.
+const BLOCKED_FINISH_REASONS: ReadonlySet<string> = new Set([
+    FinishReason.SAFETY,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.IMAGE_PROHIBITED_CONTENT,
+    FinishReason.BLOCKLIST,
+    FinishReason.SPII,
+]);
+
+/**
+ * Extracts every candidate from a Gemini response, with its image (if any) and metadata.
+ * @param response The response from the generateContent call.
+ * @returns One entry per candidate, in the order the API returned them.
+ * @throws ApiError of kind 'safety' if the prompt itself was blocked.
+ */
+function extractImageCandidates(response: GenerateContentResponse): ImageCandidate[] {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new ApiError('safety', `The request was blocked by safety filters (${blockReason}).`);
+    }
+
+    return (response.candidates ?? []).map(candidate => {
+        const parts = candidate.content?.parts ?? [];
+        const imagePart = parts.find(part => part.inlineData);
+        const text = parts.filter(part => part.text).map(part => part.text).join('').trim();
+        return {
+            url: imagePart?.inlineData ? `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}` : undefined,
+            finishReason: candidate.finishReason,
+            safetyRatings: (candidate.safetyRatings ?? []).map(rating => ({
+                category: rating.category ?? 'HARM_CATEGORY_UNSPECIFIED',
+                probability: rating.probability ?? 'HARM_PROBABILITY_UNSPECIFIED',
+                blocked: rating.blocked ?? false,
+            })),
+            text: text || undefined,
+        };
+    });
+}
+
+/**
+ * Throws the error that best explains why none of the candidates has an image.
+ * @param candidates The candidates from one or more responses, none of which has an image.
+ */
+function throwForMissingImage(candidates: ImageCandidate[]): never {
+    const blocked = candidates.find(candidate => candidate.finishReason && BLOCKED_FINISH_REASONS.has(candidate.finishReason));
+    if (blocked) {
+        throw new ApiError('safety', `The generated image was blocked by safety filters (${blocked.finishReason}).`);
+    }
+
+    const textResponse = candidates.find(candidate => candidate.text)?.text;
+    console.error("API did not return an image. Response:", textResponse);
+    throw new ApiError('text-response', `The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+}
+
+/**
+ * Processes the Gemini API response, extracting the image or throwing an error if none is found.
+ * @param response The response from the generateContent call.
+ * @returns A data URL string for the generated image.
+ */
+function processGeminiResponse(response: GenerateContentResponse): string {
+    const candidates = extractImageCandidates(response);
+    return candidates.find(candidate => candidate.url)?.url ?? throwForMissingImage(candidates);
+}
+
+/**
+ * A wrapper for the Gemini API call that includes a retry mechanism for server and network errors.
+ * @param client The client to issue the request with.
+ * @param operation What the request is for, as recorded in the usage ledger.
+ * @param contents The conversation to send; single-shot requests are one user turn.
+ * @param signal Aborts the in-flight request and any pending retry.
+ * @param candidateCount How many alternative responses to ask for.
+ * @returns The GenerateContentResponse from the API.
+ */
+async function callGeminiWithRetry(
+    client: GeminiClient,
+    operation: UsageOperation,
+    contents: Content[],
+    signal?: AbortSignal,
+    candidateCount: number = 1
+): Promise<GenerateContentResponse> {
+    const maxRetries = 3;
+    const initialDelay = 1000;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        try {
+            return await requestScheduler.schedule(IMAGE_MODEL, () => meteredGenerateContent(client, operation, () => client.ai.models.generateContent({
+                model: IMAGE_MODEL,
+                contents,
+                config: {
+                    responseModalities: [Modality.IMAGE],
+                    candidateCount,
+                    abortSignal: signal,
+                },
+            }), IMAGE_MODEL, signal), signal);
+        } catch (error) {
+            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, error);
+            const apiError = classifyError(error, "Gemini API call", signal);
+            const isTransient = apiError.kind === 'server' || apiError.kind === 'network';
+
+            if (isTransient && attempt < maxRetries) {
+                const delay = Math.max(initialDelay * Math.pow(2, attempt - 1), apiError.retryAfterMs ?? 0);
+                console.log(`Transient ${apiError.kind} error detected. Retrying in ${delay}ms...`);
+                await abortableDelay(delay, signal);
+                continue;
+            }
+            throw error; // Re-throw if not a retriable error or if max retries are reached.
+        }
+    }
+    // This should be unreachable due to the loop and throw logic above.
+    throw new Error("Gemini API call failed after all retries.");
+}
+
+
+// Builds the response schema for `count` scenarios from the shared field descriptions.
+function scenarioResponseSchema(count: number): Schema {
+    const fields = Object.keys(SCENARIO_FIELDS) as (keyof Scenario)[];
+    return {
+        type: Type.ARRAY,
+        minItems: String(count),
+        maxItems: String(count),
+        items: {
+            type: Type.OBJECT,
+            properties: Object.fromEntries(fields.map(field => [field, { type: Type.STRING, description: SCENARIO_FIELDS[field] }])),
+            required: fields,
+            propertyOrdering: fields,
+        },
+    };
+}
+
+/**
+ * Generates a list of creative scenarios from a rendered creative-director prompt.
+ * The response is constrained by a JSON schema and validated again on arrival.
+ * @param client The client to issue the request with.
+ * @param request The rendered prompt, the scenario count and the inputs the prompt was built from.
+ * @param signal Aborts the request.
+ * @returns A promise that resolves to `request.count` scenarios.
+ */
+async function generateScenarios(client: GeminiClient, { prompt, count }: ScenarioRequest, signal?: AbortSignal): Promise<Scenario[]> {
+    try {
+        const response = await requestScheduler.schedule(TEXT_MODEL, () => meteredGenerateContent(client, 'scenarios', () => client.ai.models.generateContent({
+            model: TEXT_MODEL,
+            contents: prompt,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: scenarioResponseSchema(count),
+                abortSignal: signal,
+            }
+        }), TEXT_MODEL, signal), signal);
+
+        const jsonText = (response.text ?? '').trim();
+        let scenarios: unknown;
+        try {
+            scenarios = JSON.parse(jsonText);
+        } catch {
+            throw new ApiError('invalid-output', `Generating creative ideas failed. The AI did not return valid JSON: "${jsonText.substring(0, 200)}"`);
+        }
+
+        return validateScenarios(scenarios, count);
+    } catch (error) {
+        console.error("Error generating scenarios:", error);
+        throw classifyError(error, "Generating creative ideas", signal);
+    }
+}
+
+/**
+ * Streams creative scenarios from a rendered creative-director prompt, yielding each one as soon as
+ * its JSON object has fully arrived and passed validation.
+ * @param client The client to issue the request with.
+ * @param request The rendered prompt, the scenario count and the inputs the prompt was built from.
+ * @param signal Aborts the request and the stream.
+ * @yields `request.count` scenarios, in order.
+ */
+async function* streamScenarios(client: GeminiClient, { prompt, count }: ScenarioRequest, signal?: AbortSignal): AsyncGenerator<Scenario> {
+    let received = 0;
+    // Set once the scheduler actually issues the request, so queued-then-cancelled calls aren't recorded.
+    let startedAt: number | null = null;
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    let failure: { error?: unknown; signal?: AbortSignal } = {};
+    // Frees the scheduler slot, which is held until the stream has been read to the end.
+    let release: (() => void) | undefined;
+    try {
+        const held = await requestScheduler.scheduleHeld(TEXT_MODEL, () => {
+            startedAt = Date.now();
+            return client.ai.models.generateContentStream({
+                model: TEXT_MODEL,
+                contents: prompt,
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: scenarioResponseSchema(count),
+                    abortSignal: signal,
+                }
+            });
+        }, signal);
+        release = held.release;
+
+        const parser = new JsonArrayStreamParser();
+        for await (const chunk of held.value) {
+            usage = chunk.usageMetadata ?? usage;
+            if (chunk.promptFeedback?.blockReason) {
+                throw new ApiError('safety', `Generating creative ideas failed. The prompt was blocked (${chunk.promptFeedback.blockReason}).`);
+            }
+            const finishReason = chunk.candidates?.[0]?.finishReason;
+            if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) {
+                throw new ApiError('safety', `Generating creative ideas failed. The response was blocked (${finishReason}).`);
+            }
+
+            let elements: unknown[];
+            try {
+                elements = parser.push(chunk.text ?? '');
+            } catch (parseError) {
+                throw new ApiError('invalid-output', `Generating creative ideas failed. The AI did not return valid JSON: ${(parseError as Error).message}`);
+            }
+            for (const element of elements) {
+                if (received === count) break;
+                yield validateScenario(element, received);
+                received++;
+            }
+            // Keep reading after the last scenario: the token counts arrive with the final chunk.
+        }
+
+        if (received < count) {
+            throw tooFewScenariosError(count, received);
+        }
+    } catch (error) {
+        failure = { error, signal };
+        console.error("Error streaming scenarios:", error);
+        throw classifyError(error, "Generating creative ideas", signal);
+    } finally {
+        release?.();
+        if (startedAt !== null) {
+            recordModelCall(client, 'scenarios', TEXT_MODEL, startedAt, failure, usage);
+        }
+    }
+}
+
+// Set once the image model has rejected a multi-candidate request by naming the candidate count
+// as the invalid field, so later calls go straight to one request per candidate.
+let multiCandidateUnsupported = false;
+
+/**
+ * Generates one or more candidate images from the reference images and a prompt.
+ * Asks for all candidates in a single request; if the model rejects that or returns fewer than
+ * requested, the shortfall is made up with single-candidate requests.
+ * @param client The client to issue the request with.
+ * @param images An object containing data URL strings for the person, product, and style images.
+ * @param prompt The prompt to guide the image generation.
+ * @param candidateCount How many alternative images to generate.
+ * @param signal Aborts the requests and any pending retry.
+ * @returns Every candidate with its image and metadata; at least one has an image.
+ */
+async function generateStyledImage(
+    client: GeminiClient,
+    images: StyledImageSources,
+    prompt: string,
+    candidateCount: number,
+    signal?: AbortSignal
+): Promise<ImageCandidate[]> {
+  
+    const personParts = images.personImages.map(url => dataUrlToGenaiPart(url, "Person Image"));
+    const productParts = images.productImages.map(url => dataUrlToGenaiPart(url, "Product Image"));
+    const styleParts = images.styleImages.map(url => dataUrlToGenaiPart(url, "Style Image"));
+    
+    const allImageParts = [...personParts, ...productParts, ...styleParts];
+    const textPart = { text: prompt };
+
+    try {
+        let candidates: ImageCandidate[] = [];
+        if (candidateCount > 1 && !multiCandidateUnsupported) {
+            try {
+                candidates = extractImageCandidates(await callGeminiWithRetry(client, 'image', [userTurn(...allImageParts, textPart)], signal, candidateCount));
+            } catch (error) {
+                // Any rejected request falls back to single candidates for this call. If the
+                // candidate count was not the problem, those requests fail too and report the real error.
+                const apiError = classifyError(error, "Image generation", signal);
+                if (apiError.kind !== 'invalid-input') throw error;
+                console.warn("The image model rejected a multi-candidate request; falling back to one request per candidate.");
+                if (invalidRequestFields(apiError).some(field => /candidate_?count/i.test(field))) {
+                    multiCandidateUnsupported = true;
+                }
+            }
+        }
+
+        const missing = candidateCount - candidates.length;
+        if (missing > 0) {
+            const responses = await Promise.all(Array.from({ length: missing }, () =>
+                callGeminiWithRetry(client, 'image', [userTurn(...allImageParts, textPart)], signal)));
+            candidates = [...candidates, ...responses.flatMap(extractImageCandidates)];
+        }
+
+        if (!candidates.some(candidate => candidate.url)) {
+            throwForMissingImage(candidates);
+        }
+        return candidates.slice(0, candidateCount);
+    } catch (error) {
+        console.error("An unrecoverable error occurred during image generation.", error);
+        throw classifyError(error, "Image generation", signal);
+    }
+}
+
+/**
+ * Creates a meme by adding text to an image.
+ * @param client The client to issue the request with.
+ * @param imageDataUrl The data URL of the source image.
+ * @param prompt The rendered meme prompt, which already contains the meme text.
+ * @param signal Aborts the request and any pending retry.
+ * @returns A promise resolving to the data URL of the generated meme image.
+ */
+async function generateMemeImage(client: GeminiClient, imageDataUrl: string, prompt: string, signal?: AbortSignal): Promise<string> {
+    const imagePart = dataUrlToGenaiPart(imageDataUrl, "Meme Source Image");
+    const textPart = { text: prompt };
+
+    try {
+        const response = await callGeminiWithRetry(client, 'meme', [userTurn(imagePart, textPart)], signal);
+        return processGeminiResponse(response);
+    } catch (error) {
+        console.error("An error occurred during meme generation:", error);
+        throw classifyError(error, "Meme generation", signal);
+    }
+}
+
+/**
+ * Changes the masked region of an image.
+ * @param client The client to issue the request with.
+ * @param imageDataUrl The data URL of the image to edit.
+ * @param maskDataUrl A PNG data URL, white over the region to change and black elsewhere.
+ * @param prompt The rendered region-edit prompt, which already contains the instruction.
+ * @param signal Aborts the request and any pending retry.
+ * @returns A promise resolving to the data URL of the model's edited image.
+ */
+async function editImageRegion(client: GeminiClient, imageDataUrl: string, maskDataUrl: string, prompt: string, signal?: AbortSignal): Promise<string> {
+    const imagePart = dataUrlToGenaiPart(imageDataUrl, "Image to Edit");
+    const maskPart = dataUrlToGenaiPart(maskDataUrl, "Edit Mask");
+    const textPart = { text: prompt };
+
+    try {
+        const response = await callGeminiWithRetry(client, 'edit', [userTurn(imagePart, maskPart, textPart)], signal);
+        return processGeminiResponse(response);
+    } catch (error) {
+        console.error("An error occurred during region editing:", error);
+        throw classifyError(error, "Region edit", signal);
+    }
+}
+
+/**
+ * Continues a refinement conversation about an image. The image starts the conversation, each
+ * earlier turn is replayed as the instruction followed by the image the model answered with,
+ * and the new instruction closes it.
+ * @param client The client to issue the request with.
+ * @param imageDataUrl The data URL of the image the conversation started from.
+ * @param history The earlier turns, oldest first.
+ * @param prompt The rendered refinement prompt for the new turn.
+ * @param signal Aborts the request and any pending retry.
+ * @returns A promise resolving to the data URL of the refined image.
+ */
+async function refineImage(client: GeminiClient, imageDataUrl: string, history: RefinementTurn[], prompt: string, signal?: AbortSignal): Promise<string> {
+    const contents: Content[] = [];
+    let pendingImage: Part | null = dataUrlToGenaiPart(imageDataUrl, "Image to Refine");
+    for (const [index, turn] of history.entries()) {
+        contents.push(userTurn(...(pendingImage ? [pendingImage] : []), { text: turn.prompt }));
+        contents.push({ role: 'model', parts: [dataUrlToGenaiPart(turn.imageUrl, `Refinement ${index + 1}`)] });
+        pendingImage = null;
+    }
+    contents.push(userTurn(...(pendingImage ? [pendingImage] : []), { text: prompt }));
+
+    try {
+        const response = await callGeminiWithRetry(client, 'refine', contents, signal);
+        return processGeminiResponse(response);
+    } catch (error) {
+        console.error("An error occurred during image refinement:", error);
+        throw classifyError(error, "Image refinement", signal);
+    }
+}
+
+
+/**
+ * Analyzes the content of images and returns a text description.
+ * @param client The client to issue the request with.
+ * @param imageDataUrls An array of data URL strings for the images to analyze.
+ * @param prompt The prompt to guide the analysis.
+ * @param signal Aborts the request.
+ * @returns A promise that resolves to a text description of the image content.
+ */
+async function analyzeImageContent(client: GeminiClient, imageDataUrls: string[], prompt: string, signal?: AbortSignal): Promise<string> {
+    if (imageDataUrls.length === 0) {
+        return ""; // Return empty string if no images are provided
+    }
+
+    const imageParts = imageDataUrls.map(url => dataUrlToGenaiPart(url, "Image for analysis"));
+    const textPart = { text: prompt };
+
+    try {
+        const response = await requestScheduler.schedule(TEXT_MODEL, () => meteredGenerateContent(client, 'analysis', () => client.ai.models.generateContent({
+            model: TEXT_MODEL,
+            contents: { parts: [...imageParts, textPart] },
+            config: { abortSignal: signal },
+        }), TEXT_MODEL, signal), signal);
+        return response.text.trim();
+    } catch (error) {
+        console.error("An error occurred during image content analysis:", error);
+        throw classifyError(error, "Image analysis", signal);
+    }
+}
+
+
+/**
+ * Submits a generation of one video from a source image and a prompt.
+ * @param client The client to issue the request with.
+ * @param imageDataUrl A data URL string of the source image.
+ * @param prompt The prompt to guide the video generation.
+ * @param options The model tier, framing and negative prompt to generate with.
+ * @param signal Aborts the submission.
+ * @returns A promise that resolves to the name of the long-running operation.
+ */
+async function startVideoGeneration(
+    client: GeminiClient,
+    imageDataUrl: string,
+    prompt: string,
+    options: VideoOptions,
+    signal?: AbortSignal
+): Promise<string> {
+    const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
+    if (!match) {
+        throw new ApiError('invalid-input', "Invalid image data URL format for video generation.");
+    }
+    const [, mimeType, base64Data] = match;
+    const { model, durationSeconds } = VIDEO_MODELS[options.tier];
+    const negativePrompt = options.negativePrompt.trim();
+
+    try {
+        console.log("Starting video generation...");
+        const operation = await requestScheduler.schedule(model, async () => {
+            const startedAt = Date.now();
+            try {
+                const submitted = await client.ai.models.generateVideos({
+                    model,
+                    prompt: prompt,
+                    image: {
+                        imageBytes: base64Data,
+                        mimeType: mimeType,
+                    },
+                    config: {
+                        numberOfVideos: 1,
+                        aspectRatio: options.aspectRatio,
+                        resolution: options.resolution,
+                        negativePrompt: negativePrompt || undefined,
+                        abortSignal: signal,
+                    }
+                });
+                recordModelCall(client, 'video', model, startedAt, {}, undefined, durationSeconds);
+                return submitted;
+            } catch (error) {
+                recordModelCall(client, 'video', model, startedAt, { error, signal });
+                throw error;
+            }
+        }, signal);
+
+        if (!operation.name) {
+            throw new Error("Video generation was accepted, but no operation name was returned.");
+        }
+        return operation.name;
+    } catch (error) {
+        console.error("An error occurred while starting video generation:", error);
+        throw classifyError(error, "Video generation", signal);
+    }
+}
+
+/**
+ * Polls a submitted video generation until it finishes, then starts downloading the video.
+ * Works for operations started in an earlier page session, since only the name is needed.
+ * @param client The client to issue the requests with.
+ * @param job The operation to wait for.
+ * @param signal Aborts the status polling and the download.
+ * @returns A promise that resolves to the download response, whose body is the MP4 bytes.
+ */
+async function downloadVideo(client: GeminiClient, job: VideoOperationRef, signal?: AbortSignal): Promise<Response> {
+    try {
+        let operation = new GenerateVideosOperation();
+        operation.name = job.operationName;
+        const poll = (current: GenerateVideosOperation) => requestScheduler.schedule(OPERATIONS_QUEUE,
+            () => client.ai.operations.getVideosOperation({ operation: current, config: { abortSignal: signal } }), signal);
+
+        console.log("Polling for video operation status...");
+        operation = await poll(operation);
+        while (!operation.done) {
+            // Wait for 10 seconds before checking the status again.
+            await abortableDelay(10000, signal);
+            operation = await poll(operation);
+            console.log("Current operation status:", operation.done);
+        }
+
+        if (operation.error) {
+            throw new Error(JSON.stringify({ error: operation.error }));
+        }
+
+        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+        if (!downloadLink) {
+            if (operation.response?.raiMediaFilteredCount) {
+                const reasons = operation.response.raiMediaFilteredReasons?.join(' ') ?? '';
+                throw new ApiError('safety', `The generated video was blocked by safety filters. ${reasons}`.trim());
+            }
+            throw new Error("Video generation completed, but no download link was provided.");
+        }
+
+        console.log("Fetching video from download link:", downloadLink);
+        // The download link needs the API key; sending it as a header keeps it out of the URL.
+        const response = await fetch(downloadLink, { headers: { 'x-goog-api-key': client.apiKey }, signal });
+
+        if (!response.ok) {
+            throw Object.assign(new Error(`Failed to download video file. Status: ${response.statusText}`), { status: response.status });
+        }
+        return response;
+
+    } catch (error) {
+        console.error("An error occurred during video generation:", error);
+        throw classifyError(error, "Video generation", signal);
+    }
+}
+
+/**
+ * Waits for a submitted video generation and downloads it into a blob URL.
+ * @param client The client to issue the requests with.
+ * @param job The operation to wait for.
+ * @param signal Aborts the status polling and the download.
+ * @returns A promise that resolves to a blob URL of the generated video.
+ */
+async function awaitVideoGeneration(client: GeminiClient, job: VideoOperationRef, signal?: AbortSignal): Promise<string> {
+    const response = await downloadVideo(client, job, signal);
+    try {
+        const videoBlob = await response.blob();
+        console.log("Video downloaded successfully. Creating blob URL.");
+        return URL.createObjectURL(videoBlob);
+    } catch (error) {
+        console.error("An error occurred while downloading the video:", error);
+        throw classifyError(error, "Video generation", signal);
+    }
+}
+
+
+/**
+ * Receives one usage entry per model request a provider makes.
+ */
+export type UsageSink = (entry: UsageEntry) => void;
+
+export interface GeminiProviderOptions {
+    /** Overrides the API endpoint, e.g. to run against a local stub of the Gemini API. */
+    baseUrl?: string;
+    /** Where model requests are metered; defaults to this browser's usage ledger. */
+    recordUsage?: UsageSink;
+}
+
+/**
+ * The Gemini provider, plus the raw video download that the proxy server streams to its clients.
+ */
+export interface GeminiProvider extends GenerationProvider {
+    /** Waits for a submitted video generation and resolves with the download response, whose body is the MP4 bytes. */
+    downloadVideo(job: VideoOperationRef, signal: AbortSignal): Promise<Response>;
+}
+
+/**
+ * Creates a provider backed by the Gemini API. The client is created lazily on first use,
+ * so a missing key surfaces as an error on the first call rather than at import time.
+ * @param apiKey The Gemini API key.
+ * @param options Endpoint and metering overrides.
+ * @returns A GenerationProvider that calls the Gemini API.
+ */
+export function createGeminiProvider(apiKey: string | undefined, options: GeminiProviderOptions = {}): GeminiProvider {
+    let client: GeminiClient | null = null;
+
+    const getClient = (): GeminiClient => {
+        if (!apiKey) {
+            throw new ApiError('auth', "API_KEY environment variable is not set");
+        }
+        if (!client) {
+            client = {
+                ai: new GoogleGenAI({ apiKey, httpOptions: options.baseUrl ? { baseUrl: options.baseUrl } : undefined }),
+                apiKey,
+                recordUsage: options.recordUsage ?? (entry => void recordUsage(entry)),
+            };
+        }
+        return client;
+    };
+
+    return {
+        name: 'gemini',
+        textModel: TEXT_MODEL,
+        generateScenarios: (request, signal) => generateScenarios(getClient(), request, signal),
+        streamScenarios: (request, signal) => streamScenarios(getClient(), request, signal),
+        generateStyledImage: (images, prompt, candidateCount, signal) =>
+            generateStyledImage(getClient(), images, prompt, candidateCount, signal),
+        generateMemeImage: (imageDataUrl, _memeText, prompt, signal) => generateMemeImage(getClient(), imageDataUrl, prompt, signal),
+        editImageRegion: (imageDataUrl, maskDataUrl, _instruction, prompt, signal) =>
+            editImageRegion(getClient(), imageDataUrl, maskDataUrl, prompt, signal),
+        refineImage: (imageDataUrl, history, _instruction, prompt, signal) =>
+            refineImage(getClient(), imageDataUrl, history, prompt, signal),
+        analyzeImageContent: (imageDataUrls, prompt, signal) => analyzeImageContent(getClient(), imageDataUrls, prompt, signal),
+        startVideoGeneration: (imageDataUrl, prompt, options, signal) =>
+            startVideoGeneration(getClient(), imageDataUrl, prompt, options, signal),
+        awaitVideoGeneration: (job, signal) => awaitVideoGeneration(getClient(), job, signal),
+        downloadVideo: (job, signal) => downloadVideo(getClient(), job, signal),
+    };
+}
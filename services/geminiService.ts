@@ -2,107 +2,284 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { GenerateContentResponse } from "@google/genai";
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalProvider } from './localProvider';
+import { createProxyProvider } from './proxyProvider';
+import type { GenerationProvider, ImageCandidate, RefinementTurn, StyledImageSources } from './generationProvider';
+import { ApiError, classifyError } from './errors';
+import type { ApiErrorKind } from './errors';
+import { DEFAULT_TIMEOUTS_MS, withDeadline } from './cancellation';
+import type { CallOptions } from './cancellation';
+import { deleteVideoJob, listVideoJobs, saveVideoJob } from './videoJobStore';
+import type { VideoJob } from './videoJobStore';
+import { quoteUserText, renderPrompt } from './promptTemplates';
+import type { PromptProvenance } from './promptTemplates';
+import { DEFAULT_SCENARIO_COUNT, assertScenarioCount } from './scenarios';
+import type { Scenario } from './scenarios';
+import { preprocessImage } from '../lib/imagePreprocessing';
+import { compositeMaskedEdit, maskCoverage } from '../lib/maskCompositing';
+import type { RefinementStep } from '../lib/imageVersions';
+import { getCachedResult, resultCacheKey, setCachedResult } from './resultCache';
+import type { CachedOperation } from './resultCache';
+import { DEFAULT_VIDEO_OPTIONS, assertVideoOptions } from './videoOptions';
+import type { VideoOptions } from './videoOptions';
+import { DEFAULT_IDENTITY_CHECK_SETTINGS, assertIdentityCheckOptions, parseLikenessScore } from './identityCheck';
+import type { IdentityCheckOptions, LikenessComparator, LikenessResult } from './identityCheck';
+import { assertUserTextAllowed } from './moderation';
+
+export { ApiError, classifyError } from './errors';
+export type { ApiErrorKind } from './errors';
+export type { CandidateSafetyRating, GenerationProvider, ImageCandidate, StyledImageSources } from './generationProvider';
+export type { CallOptions } from './cancellation';
+export type { VideoJob } from './videoJobStore';
+export type { PromptProvenance } from './promptTemplates';
+export { DEFAULT_SCENARIO_COUNT, MAX_SCENARIO_COUNT, scenarioToPrompt } from './scenarios';
+export type { Scenario } from './scenarios';
+export { clearResultCache, getResultCacheStats } from './resultCache';
+export type { ResultCacheStats } from './resultCache';
+export {
+    DEFAULT_VIDEO_OPTIONS,
+    MAX_NEGATIVE_PROMPT_LENGTH,
+    MAX_VIDEO_COUNT,
+    VIDEO_MODELS,
+    videoOptionProblems,
+} from './videoOptions';
+export type { VideoAspectRatio, VideoModelCapabilities, VideoModelTier, VideoOptions, VideoResolution } from './videoOptions';
+export {
+    DEFAULT_IDENTITY_CHECK_SETTINGS,
+    MAX_IDENTITY_RETRIES,
+    getIdentityCheckSettings,
+    setIdentityCheckSettings,
+} from './identityCheck';
+export {
+    DEFAULT_MODERATION_SETTINGS,
+    getModerationSettings,
+    moderateUserText,
+    resetModerationSettings,
+    setModerationSettings,
+} from './moderation';
+export type { ModerationSettings, ModerationVerdict, UserTextField } from './moderation';
+export type {
+    IdentityCheckOptions,
+    IdentityCheckSettings,
+    LikenessComparator,
+    LikenessResult,
+    LikenessScore,
+} from './identityCheck';
+
+
+// --- Provider Selection ---
 
-const API_KEY = process.env.API_KEY;
+/**
+ * Picks the generation backend once at startup. `GENERATION_PROVIDER` may force 'gemini',
+ * 'local' or 'proxy' (the key-holding server in `server/proxy.ts`, reached at `PROXY_URL`);
+ * otherwise the Gemini provider is used when an API key is configured and the offline
+ * provider is used when it is not.
+ * @returns The provider every exported function delegates to.
+ */
+function selectProvider(): GenerationProvider {
+    const requested = process.env.GENERATION_PROVIDER?.trim().toLowerCase();
+    const apiKey = process.env.API_KEY;
+
+    switch (requested) {
+        case 'gemini':
+            return createGeminiProvider(apiKey);
+        case 'local':
+            return createLocalProvider();
+        case 'proxy':
+            return createProxyProvider(process.env.PROXY_URL || '/api');
+        case undefined:
+        case '':
+            break;
+        default:
+            console.warn(`Unknown GENERATION_PROVIDER "${requested}". Falling back to automatic selection.`);
+    }
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+    if (apiKey) {
+        return createGeminiProvider(apiKey);
+    }
+    console.warn("API_KEY is not set. Using the offline local provider with placeholder results.");
+    return createLocalProvider();
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+const provider = selectProvider();
 
+/**
+ * The name of the provider selected at startup, e.g. 'gemini' or 'local'.
+ */
+export const activeProviderName = provider.name;
 
-// --- Custom Error ---
-export class ApiError extends Error {
-    public readonly isQuotaError: boolean;
-    constructor(message: string, isQuotaError: boolean = false) {
-        super(message);
-        this.name = 'ApiError';
-        this.isQuotaError = isQuotaError;
+
+/**
+ * Runs a provider operation under the caller's signal and deadline, normalising any failure
+ * (including cancellation and timeouts) into an ApiError.
+ * @param operation A phrase naming the operation for error messages.
+ * @param options The caller's cancellation and deadline options.
+ * @param defaultTimeoutMs The deadline used when the caller did not give one.
+ * @param run The provider call to make with the combined signal.
+ */
+async function runWithDeadline<T>(
+    operation: string,
+    options: CallOptions,
+    defaultTimeoutMs: number,
+    run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+    const signal = withDeadline(options, defaultTimeoutMs);
+    try {
+        signal.throwIfAborted();
+        return await run(signal);
+    } catch (error) {
+        throw classifyError(error, operation, signal);
     }
 }
 
 
-// --- Helper Functions ---
+/**
+ * Call options for operations whose results are cached.
+ */
+export interface CachedCallOptions extends CallOptions {
+    /** Skips the cache lookup and replaces any cached result with a fresh one. */
+    bypassCache?: boolean;
+}
+
+// Data URLs that have already come out of preprocessing, oldest first. The same images are sent
+// over and over (a portrait is reused for every style, memes and videos), so they are decoded once.
+const preparedImageUrls = new Set<string>();
+const MAX_PREPARED_IMAGE_URLS = 32;
+
+function rememberPreparedImage(dataUrl: string) {
+    preparedImageUrls.delete(dataUrl);
+    preparedImageUrls.add(dataUrl);
+    if (preparedImageUrls.size > MAX_PREPARED_IMAGE_URLS) {
+        preparedImageUrls.delete(preparedImageUrls.values().next().value!);
+    }
+}
 
 /**
- * Converts a data URL to a GoogleGenerativeAI.Part object using robust string manipulation.
- * @param imageDataUrl The data URL of the image.
- * @param errorContext A string to provide context in error messages.
- * @returns A Part object for the Gemini API.
+ * Runs images through the shared preprocessing stage before they are sent to a provider.
+ * Images this stage has already produced or passed are recognised by their data URL and
+ * skipped, so only new images are decoded.
+ * @param imageDataUrls The images to prepare.
+ * @param label Names the images in error messages, e.g. "Person image".
+ * @returns The prepared images as data URLs, in the same order.
+ * @throws ApiError of kind 'invalid-input' if an image cannot be decoded.
  */
-function dataUrlToGenaiPart(imageDataUrl: string, errorContext: string) {
-    const base64Marker = ';base64,';
-    const base64MarkerIndex = imageDataUrl.indexOf(base64Marker);
-    
-    if (base64MarkerIndex === -1 || !imageDataUrl.startsWith('data:image/')) {
-        throw new Error(`Invalid image data URL format for ${errorContext}. Expected 'data:image/...;base64,...'`);
+async function prepareImages(imageDataUrls: string[], label: string): Promise<string[]> {
+    const prepared: string[] = [];
+    // One at a time, since each full-resolution decode can take tens of megabytes.
+    for (const [i, url] of imageDataUrls.entries()) {
+        if (preparedImageUrls.has(url)) {
+            rememberPreparedImage(url);
+            prepared.push(url);
+            continue;
+        }
+        try {
+            const { dataUrl } = await preprocessImage(url);
+            rememberPreparedImage(dataUrl);
+            prepared.push(dataUrl);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new ApiError('invalid-input', `${label} ${i + 1} could not be prepared for upload. ${reason}`);
+        }
     }
+    return prepared;
+}
 
-    const mimeType = imageDataUrl.substring(5, base64MarkerIndex);
-    const base64Data = imageDataUrl.substring(base64MarkerIndex + base64Marker.length);
 
-    return { inlineData: { mimeType, data: base64Data } };
+// Keys a text result by the active provider and model plus its inputs; null if the key cannot be derived.
+async function deriveCacheKey(
+    operation: CachedOperation,
+    prompt: string,
+    imageDataUrls: string[],
+    params: Record<string, string | number>
+): Promise<string | null> {
+    try {
+        return await resultCacheKey(operation, `${provider.name}/${provider.textModel}`, prompt, imageDataUrls, params);
+    } catch (error) {
+        console.warn("Could not derive a result cache key; continuing without the cache.", error);
+        return null;
+    }
 }
 
-
 /**
- * Processes the Gemini API response, extracting the image or throwing an error if none is found.
- * @param response The response from the generateContent call.
- * @returns A data URL string for the generated image.
+ * Serves a text result from the persistent cache, or produces and caches it.
+ * Only successful results are cached. If a key cannot be derived the call simply goes uncached.
+ * @param operation The cached operation, part of the key.
+ * @param prompt The exact prompt text, part of the key.
+ * @param imageDataUrls The input images, hashed into the key.
+ * @param params Other settings that change the result, part of the key.
+ * @param options `bypassCache` forces a fresh result.
+ * @param run Produces the result on a miss.
  */
-function processGeminiResponse(response: GenerateContentResponse): string {
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        return `data:${mimeType};base64,${data}`;
+async function withResultCache<T>(
+    operation: CachedOperation,
+    prompt: string,
+    imageDataUrls: string[],
+    params: Record<string, string | number>,
+    options: CachedCallOptions,
+    run: () => Promise<T>
+): Promise<{ value: T; fromCache: boolean }> {
+    const key = await deriveCacheKey(operation, prompt, imageDataUrls, params);
+    if (key && !options.bypassCache) {
+        const cached = await getCachedResult<T>(key);
+        if (cached !== undefined) {
+            return { value: cached, fromCache: true };
+        }
+    }
+    const value = await run();
+    if (key) {
+        await setCachedResult(key, operation, value);
     }
+    return { value, fromCache: false };
+}
+
 
-    const textResponse = response.text;
-    console.error("API did not return an image. Response:", textResponse);
-    throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+// Used when there is nothing to base scenarios on, so no model call is needed.
+const DEFAULT_SCENARIOS: Scenario[] = [
+    { title: "Neon Alley", scene: "A mysterious figure in a neon-lit alley at midnight.", camera: "medium shot, 35mm", lighting: "magenta and cyan neon signs", mood: "mysterious" },
+    { title: "The Artist", scene: "A surreal portrait of an artist lost in their creative process.", camera: "close-up, 85mm", lighting: "soft north-facing window light", mood: "dreamy" },
+    { title: "Enchanted Forest", scene: "A whimsical character discovering a hidden, enchanted forest.", camera: "wide shot, 24mm", lighting: "dappled sunlight through the canopy", mood: "whimsical" },
+    { title: "Last Train", scene: "A vintage-style photograph of a lone traveler at a forgotten train station.", camera: "full-body shot, 50mm, film grain", lighting: "foggy morning light", mood: "nostalgic" },
+    { title: "Color Theory", scene: "A high-fashion concept shot with dramatic, colorful lighting and abstract shapes.", camera: "low-angle medium shot, 35mm", lighting: "bold coloured gels", mood: "striking" },
+];
+
+export interface ScenarioResult {
+    scenarios: Scenario[];
+    /** The prompt template that produced the scenarios, or null for the built-in defaults. */
+    promptTemplate: PromptProvenance | null;
+    /** Whether the scenarios were served from the result cache without calling the model. */
+    fromCache: boolean;
 }
 
 /**
- * A wrapper for the Gemini API call that includes a retry mechanism for internal server errors.
- * @param imageParts The image parts of the request payload.
- * @param textPart The text part of the request payload.
- * @returns The GenerateContentResponse from the API.
+ * Builds the creative-director prompt for the given inputs. Every value is quoted with
+ * `quoteUserText`, since the descriptions echo whatever the uploaded images contain.
+ * @returns The rendered prompt, or null when there are no inputs and the defaults should be used.
  */
-async function callGeminiWithRetry(imageParts: object[], textPart: object): Promise<GenerateContentResponse> {
-    const maxRetries = 3;
-    const initialDelay = 1000;
+function buildScenarioPrompt(personDesc: string, objectDesc: string, styleDesc: string, userPrompt: string | undefined, count: number) {
+    const inputs = [];
+    if (personDesc) inputs.push(`- Person Description: ${quoteUserText(personDesc)}`);
+    if (objectDesc) inputs.push(`- Object Description: ${quoteUserText(objectDesc)}`);
+    if (styleDesc) inputs.push(`- Style Description: ${quoteUserText(styleDesc)}`);
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-            return await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts: [...imageParts, textPart] },
-                config: {
-                    responseModalities: [Modality.IMAGE],
-                },
-            });
-        } catch (error) {
-            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, error);
-            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-            const isInternalError = errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL');
-
-            if (isInternalError && attempt < maxRetries) {
-                const delay = initialDelay * Math.pow(2, attempt - 1);
-                console.log(`Internal error detected. Retrying in ${delay}ms...`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                continue;
-            }
-            throw error; // Re-throw if not a retriable error or if max retries are reached.
-        }
+    const hasUserPrompt = userPrompt && userPrompt.trim().length > 0;
+
+    if (inputs.length === 0 && !hasUserPrompt) {
+        return null;
     }
-    // This should be unreachable due to the loop and throw logic above.
-    throw new Error("Gemini API call failed after all retries.");
+
+    if (hasUserPrompt) {
+        inputs.push(`- User's Core Idea: ${quoteUserText(userPrompt!)}`);
+    }
+    return renderPrompt(hasUserPrompt ? 'scenarios.withIdea' : 'scenarios.fromInputs', {
+        inputs: inputs.join('\n'),
+        count: String(count),
+    });
 }
 
+function defaultScenarios(count: number): Scenario[] {
+    return Array.from({ length: count }, (_, i) => DEFAULT_SCENARIOS[i % DEFAULT_SCENARIOS.length]);
+}
 
 /**
  * Generates a list of creative scenarios based on descriptions of a person, object, and style.
@@ -110,267 +287,468 @@ async function callGeminiWithRetry(imageParts: object[], textPart: object): Prom
  * @param objectDesc Description of the object.
  * @param styleDesc Description of the desired style/mood.
  * @param userPrompt An optional prompt from the user to guide scenario generation.
- * @returns A promise that resolves to an array of 5 scenario strings.
+ * @param count How many scenarios to generate, from 1 to `MAX_SCENARIO_COUNT`.
+ * @param options An abort signal, overall deadline and cache bypass for the call.
+ * @returns A promise that resolves to `count` validated scenarios and the template version that produced them.
+ * Identical requests are answered from the result cache.
+ * @throws ApiError of kind 'invalid-input' for an unsupported count, 'blocked-input' if the idea fails
+ * the moderation check, or 'invalid-output' if the model's scenarios fail validation.
  */
 export async function generateScenarios(
     personDesc: string,
     objectDesc: string,
     styleDesc: string,
-    userPrompt?: string
-): Promise<string[]> {
-    const inputs = [];
-    if (personDesc) inputs.push(`- Person Description: "${personDesc}"`);
-    if (objectDesc) inputs.push(`- Object Description: "${objectDesc}"`);
-    if (styleDesc) inputs.push(`- Style Description: "${styleDesc}"`);
+    userPrompt?: string,
+    count: number = DEFAULT_SCENARIO_COUNT,
+    options: CachedCallOptions = {}
+): Promise<ScenarioResult> {
+    assertScenarioCount(count);
+    assertUserTextAllowed([{ label: "Your idea", text: userPrompt ?? '' }]);
+
+    const prompt = buildScenarioPrompt(personDesc, objectDesc, styleDesc, userPrompt, count);
+    if (!prompt) {
+        return { scenarios: defaultScenarios(count), promptTemplate: null, fromCache: false };
+    }
 
-    const hasUserPrompt = userPrompt && userPrompt.trim().length > 0;
+    const { value: scenarios, fromCache } = await withResultCache('scenarios', prompt.text, [], { count }, options, () =>
+        runWithDeadline("Generating creative ideas", options, DEFAULT_TIMEOUTS_MS.scenarios, signal =>
+            provider.generateScenarios({ prompt: prompt.text, count, personDesc, objectDesc, styleDesc, userPrompt }, signal)));
+    return { scenarios, promptTemplate: prompt.provenance, fromCache };
+}
 
-    if (inputs.length === 0 && !hasUserPrompt) {
-        return [
-            "A mysterious figure in a neon-lit alley at midnight.",
-            "A surreal portrait of an artist lost in their creative process.",
-            "A whimsical character discovering a hidden, enchanted forest.",
-            "A vintage-style photograph of a lone traveler at a forgotten train station.",
-            "A high-fashion concept shot with dramatic, colorful lighting and abstract shapes."
-        ];
-    }
+/**
+ * One scenario delivered by `streamScenarios`.
+ */
+export interface StreamedScenario {
+    scenario: Scenario;
+    /** The scenario's position, from 0 to count - 1. */
+    index: number;
+    /** The prompt template that produced the scenario, or null for the built-in defaults. */
+    promptTemplate: PromptProvenance | null;
+    fromCache: boolean;
+}
 
-    let prompt: string;
+/**
+ * Streams creative scenarios, yielding each one as soon as it has arrived and passed validation,
+ * so that work on the first scenarios can start while the rest are still being written.
+ * Takes the same inputs as `generateScenarios` and shares its result cache: a cached result is
+ * yielded immediately, and a completed stream is cached for next time.
+ * @yields `count` scenarios, in order.
+ * @throws ApiError, as `generateScenarios` does. Scenarios yielded before the error remain valid.
+ */
+export async function* streamScenarios(
+    personDesc: string,
+    objectDesc: string,
+    styleDesc: string,
+    userPrompt?: string,
+    count: number = DEFAULT_SCENARIO_COUNT,
+    options: CachedCallOptions = {}
+): AsyncGenerator<StreamedScenario> {
+    assertScenarioCount(count);
+    assertUserTextAllowed([{ label: "Your idea", text: userPrompt ?? '' }]);
+
+    const prompt = buildScenarioPrompt(personDesc, objectDesc, styleDesc, userPrompt, count);
+    if (!prompt) {
+        for (const [index, scenario] of defaultScenarios(count).entries()) {
+            yield { scenario, index, promptTemplate: null, fromCache: false };
+        }
+        return;
+    }
 
-    if (hasUserPrompt) {
-        inputs.push(`- User's Core Idea: "${userPrompt}"`);
-        prompt = `You are a creative director for a photoshoot. You will be given descriptions for a photoshoot. Your task is to expand on the user's idea and generate 5 distinct, creative, and cinematic scene descriptions for a portrait.
-
-**Inputs:**
-${inputs.join('\n')}
-
-**Instructions:**
-1. Use the "User's Core Idea" as the primary theme for all scenes.
-2. Weave in the other provided descriptions to create 5 cohesive variations of the user's idea.
-3. If a person description is provided, their identity and core features should be the main focus.
-4. If an object is described, it should be integrated naturally into each scene.
-5. If a style is described, the overall style, lighting, and mood should be consistent with it.
-6. Generate exactly 5 variations. Each variation should describe a slightly different composition, angle, or interaction related to the user's core idea.
-7. Output the 5 scene descriptions as a JSON array of strings. Do not include any other text, explanation, or markdown formatting.
-
-**Example Output Format:**
-["Variation 1 based on user idea...","Variation 2 based on user idea...","Variation 3 based on user idea...","Variation 4 based on user idea...","Variation 5 based on user idea..."]`;
-    } else {
-        prompt = `You are a creative director for a photoshoot. You will be given descriptions for a photoshoot. Your task is to generate 5 distinct, creative, and cinematic scene descriptions for a portrait.
-
-**Inputs:**
-${inputs.join('\n')}
-
-**Instructions:**
-1. Combine all provided inputs logically to create a cohesive scene.
-2. If a person description is provided, their identity and core features should be the main focus.
-3. If an object is described, it should be integrated naturally into the scene.
-4. If a style is described, the overall style, lighting, and mood should be consistent with it.
-5. Generate exactly 5 variations. Each variation should describe a slightly different composition, angle, or interaction.
-6. Output the 5 scene descriptions as a JSON array of strings. Do not include any other text, explanation, or markdown formatting.
-
-**Example Output Format:**
-["A scene of the person leaning on the object, with a city background at dusk, reflecting the moody lighting.","A close-up of the person interacting with the object, with dramatic side-lighting.","A full-body shot of the person standing near the object in a grand, opulent room.","An action shot of the person using the object, with motion blur and dynamic angles.","A candid moment of the person looking away from the camera, with the object subtly in the background."]`
+    const key = await deriveCacheKey('scenarios', prompt.text, [], { count });
+    if (key && !options.bypassCache) {
+        const cached = await getCachedResult<Scenario[]>(key);
+        if (cached) {
+            for (const [index, scenario] of cached.entries()) {
+                yield { scenario, index, promptTemplate: prompt.provenance, fromCache: true };
+            }
+            return;
+        }
     }
 
+    const signal = withDeadline(options, DEFAULT_TIMEOUTS_MS.scenarios);
+    const received: Scenario[] = [];
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-            }
-        });
+        signal.throwIfAborted();
+        const request = { prompt: prompt.text, count, personDesc, objectDesc, styleDesc, userPrompt };
+        for await (const scenario of provider.streamScenarios(request, signal)) {
+            yield { scenario, index: received.length, promptTemplate: prompt.provenance, fromCache: false };
+            received.push(scenario);
+        }
+    } catch (error) {
+        throw classifyError(error, "Generating creative ideas", signal);
+    }
+
+    if (key && received.length === count) {
+        await setCachedResult(key, 'scenarios', received);
+    }
+}
 
-        let jsonText = response.text.trim();
-        if (jsonText.startsWith('```json')) {
-            jsonText = jsonText.substring(7, jsonText.length - 3).trim();
-        } else if (jsonText.startsWith('```')) {
-            jsonText = jsonText.substring(3, jsonText.length - 3).trim();
+/** The most alternative images that can be requested for one scenario. */
+export const MAX_IMAGE_CANDIDATES = 4;
+
+export interface StyledImageOptions extends CallOptions {
+    /** How many alternative images to generate, from 1 to `MAX_IMAGE_CANDIDATES`. Defaults to 1. */
+    candidateCount?: number;
+    /**
+     * Scores every output against the person references and regenerates while the best score
+     * is below the threshold. Skipped when there are no person references.
+     */
+    identityCheck?: IdentityCheckOptions;
+}
+
+export interface StyledImageResult {
+    /** The default pick: the best-scoring candidate under an identity check, otherwise the first that has an image. */
+    url: string;
+    /** Every candidate that was generated, including filtered ones, with its metadata. */
+    candidates: ImageCandidate[];
+    /** The default pick's likeness to the person, when an identity check scored it. */
+    likeness?: LikenessResult;
+}
+
+// Compares with the text model, sending the references followed by the generated image.
+const visionLikenessComparator: LikenessComparator = async (referenceImages, candidateImage, signal) => {
+    const prompt = renderPrompt('identity.compare', { referenceCount: String(referenceImages.length) });
+    return parseLikenessScore(await provider.analyzeImageContent([...referenceImages, candidateImage], prompt.text, signal));
+};
+
+/**
+ * Generates images until the best candidate resembles the person closely enough or the retry
+ * budget runs out, keeping the best-scoring attempt either way.
+ * @returns The best attempt's candidates, each with its score, and the best candidate's likeness;
+ * the likeness is absent if the comparator failed, in which case the first attempt is kept unverified.
+ */
+async function generateWithIdentityCheck(
+    prepared: StyledImageSources,
+    prompt: string,
+    candidateCount: number,
+    check: IdentityCheckOptions,
+    signal: AbortSignal
+): Promise<{ candidates: ImageCandidate[]; likeness?: LikenessResult }> {
+    const threshold = check.threshold ?? DEFAULT_IDENTITY_CHECK_SETTINGS.threshold;
+    const maxAttempts = 1 + (check.maxRetries ?? DEFAULT_IDENTITY_CHECK_SETTINGS.maxRetries);
+    const compare = check.comparator ?? visionLikenessComparator;
+    let best: { candidates: ImageCandidate[]; likeness: LikenessResult } | null = null;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        let candidates = await provider.generateStyledImage(prepared, prompt, candidateCount, signal);
+        try {
+            // One at a time, so a slow comparator does not hold several vision requests open.
+            const scored: ImageCandidate[] = [];
+            for (const candidate of candidates) {
+                scored.push(candidate.url ? { ...candidate, likeness: await compare(prepared.personImages, candidate.url, signal) } : candidate);
+            }
+            candidates = scored;
+        } catch (error) {
+            signal.throwIfAborted();
+            console.warn("The identity check failed; keeping the image unverified.", error);
+            return best ?? { candidates };
         }
 
-        const scenarios = JSON.parse(jsonText);
-        
-        if (!Array.isArray(scenarios) || scenarios.length === 0 || !scenarios.every(s => typeof s === 'string')) {
-            throw new Error("AI did not return a valid array of scenario strings.");
+        const top = Math.max(...candidates.map(candidate => candidate.likeness?.score ?? -1));
+        const topCandidate = candidates.find(candidate => candidate.likeness?.score === top)!;
+        if (!best || top > best.likeness.score) {
+            best = { candidates, likeness: { ...topCandidate.likeness!, passed: top >= threshold, attempts: attempt } };
         }
-        
-        return scenarios.slice(0, 5); // Ensure exactly 5 are returned
-    } catch (error) {
-        console.error("Error generating scenarios:", error);
-        const rawErrorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        if (rawErrorMessage.includes('429') || rawErrorMessage.includes('RESOURCE_EXHAUSTED')) {
-            throw new ApiError("Failed to generate creative ideas due to API usage limits.", true);
+        best.likeness.attempts = attempt;
+        if (top >= threshold) break;
+        if (attempt < maxAttempts) {
+            console.warn(`Likeness ${Math.round(top * 100)} is below the threshold of ${Math.round(threshold * 100)}; regenerating (attempt ${attempt + 1}/${maxAttempts}).`);
         }
-        throw new ApiError(`The AI failed to generate creative ideas. Details: ${rawErrorMessage}`);
     }
+    return best!;
 }
 
 /**
  * Generates a styled image from a source image and a prompt.
  * @param images An object containing data URL strings for the person, product, and style images.
  * @param prompt The prompt to guide the image generation.
- * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
+ * @param options An abort signal and overall deadline for the call, covering retries, the
+ * number of candidates to generate and an optional identity check.
+ * @returns A promise that resolves to the default image's data URL and every candidate's image and
+ * metadata, with the likeness scores when an identity check ran.
  */
-export async function generateStyledImage(
-    images: { personImages: string[]; productImages: string[]; styleImages: string[]; },
-    prompt: string
-): Promise<string> {
-  
-    const personParts = images.personImages.map(url => dataUrlToGenaiPart(url, "Person Image"));
-    const productParts = images.productImages.map(url => dataUrlToGenaiPart(url, "Product Image"));
-    const styleParts = images.styleImages.map(url => dataUrlToGenaiPart(url, "Style Image"));
-    
-    const allImageParts = [...personParts, ...productParts, ...styleParts];
-    const textPart = { text: prompt };
+export async function generateStyledImage(images: StyledImageSources, prompt: string, options: StyledImageOptions = {}): Promise<StyledImageResult> {
+    const candidateCount = options.candidateCount ?? 1;
+    if (!Number.isInteger(candidateCount) || candidateCount < 1 || candidateCount > MAX_IMAGE_CANDIDATES) {
+        throw new ApiError('invalid-input', `The number of candidates must be a whole number from 1 to ${MAX_IMAGE_CANDIDATES}, got ${candidateCount}.`);
+    }
 
-    try {
-        const response = await callGeminiWithRetry(allImageParts, textPart);
-        return processGeminiResponse(response);
-    } catch (error) {
-        let userFriendlyMessage: string;
-        const rawErrorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        console.error("An unrecoverable error occurred during image generation.", error);
-
-        if (rawErrorMessage.includes('429') || rawErrorMessage.includes('RESOURCE_EXHAUSTED')) {
-            userFriendlyMessage = "Image generation failed due to API usage limits. Please check your quota in Google AI Studio.";
-            throw new ApiError(userFriendlyMessage, true);
-        } else {
-             userFriendlyMessage = `The AI model failed to generate an image. Details: ${rawErrorMessage}`;
+    const check = images.personImages.length > 0 ? options.identityCheck : undefined;
+    if (check) {
+        assertIdentityCheckOptions(check);
+    }
+    // Each extra attempt gets the time of another generation and its comparisons.
+    const attempts = 1 + (check ? check.maxRetries ?? DEFAULT_IDENTITY_CHECK_SETTINGS.maxRetries : 0);
+    const defaultTimeoutMs = check ? attempts * (DEFAULT_TIMEOUTS_MS.image + DEFAULT_TIMEOUTS_MS.analysis) : DEFAULT_TIMEOUTS_MS.image;
+
+    const { candidates, likeness } = await runWithDeadline("Image generation", options, defaultTimeoutMs, async signal => {
+        const prepared: StyledImageSources = {
+            personImages: await prepareImages(images.personImages, "Person image"),
+            productImages: await prepareImages(images.productImages, "Product image"),
+            styleImages: await prepareImages(images.styleImages, "Style image"),
+        };
+        if (check) {
+            return generateWithIdentityCheck(prepared, prompt, candidateCount, check, signal);
         }
-        
-        throw new ApiError(userFriendlyMessage);
+        return { candidates: await provider.generateStyledImage(prepared, prompt, candidateCount, signal), likeness: undefined };
+    });
+    const withImages = candidates.filter((candidate): candidate is ImageCandidate & { url: string } => !!candidate.url);
+    const pick = (likeness && withImages.find(candidate => candidate.likeness?.score === likeness.score)) || withImages[0];
+    if (!pick) {
+        const filtered = candidates.some(candidate => /SAFETY/.test(candidate.finishReason ?? ''));
+        throw new ApiError(
+            filtered ? 'safety' : 'text-response',
+            filtered ? "Every generated image was blocked by safety filters." : "The AI model returned no image."
+        );
     }
+    return { url: pick.url, candidates, likeness };
+}
+
+export interface MemeResult {
+    url: string;
+    /** The prompt template that produced the meme. */
+    promptTemplate: PromptProvenance;
 }
 
 /**
  * Creates a meme by adding text to an image.
  * @param imageDataUrl The data URL of the source image.
  * @param memeText The text to add to the meme.
- * @returns A promise resolving to the data URL of the generated meme image.
+ * @param options An abort signal and overall deadline for the call, covering retries.
+ * @returns A promise resolving to the data URL of the generated meme image and the template version used.
  */
-export async function generateMemeImage(imageDataUrl: string, memeText: string): Promise<string> {
-    const imagePart = dataUrlToGenaiPart(imageDataUrl, "Meme Source Image");
-    const textPart = { 
-        text: `A meme of the person in the image. Add the text "${memeText}" to the bottom of the image in a bold, white font with a black outline, similar to the Impact font used in classic memes. Do not alter the original image in any other way. Output the final image.`
-    };
+export async function generateMemeImage(imageDataUrl: string, memeText: string, options: CallOptions = {}): Promise<MemeResult> {
+    assertUserTextAllowed([{ label: "The meme text", text: memeText }]);
+    const prompt = renderPrompt('meme.caption', { memeText: quoteUserText(memeText) });
+    const url = await runWithDeadline("Meme generation", options, DEFAULT_TIMEOUTS_MS.meme, async signal => {
+        const [source] = await prepareImages([imageDataUrl], "Meme image");
+        return provider.generateMemeImage(source, memeText, prompt.text, signal);
+    });
+    return { url, promptTemplate: prompt.provenance };
+}
 
-    try {
-        const response = await callGeminiWithRetry([imagePart], textPart);
-        return processGeminiResponse(response);
-    } catch (error) {
-        const rawErrorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        console.error("An error occurred during meme generation:", error);
+export interface RegionEditResult {
+    /** The original image with only the masked region changed. */
+    url: string;
+    /** The prompt template that produced the edit. */
+    promptTemplate: PromptProvenance;
+}
 
-        if (rawErrorMessage.includes('429') || rawErrorMessage.includes('RESOURCE_EXHAUSTED')) {
-            throw new ApiError("Meme generation failed due to API usage limits.", true);
-        }
-        
-        throw new ApiError(`The AI model failed to generate the meme. Details: ${rawErrorMessage}`);
+/**
+ * Changes only the painted region of an image. The model's output is composited back through
+ * the mask, so everything outside the region keeps the original's pixels.
+ * @param imageDataUrl The data URL of the image to edit.
+ * @param maskDataUrl A PNG data URL, white over the region to change and black elsewhere.
+ * @param instruction What to change in the region.
+ * @param options An abort signal and overall deadline for the call, covering retries.
+ * @returns A promise resolving to the data URL of the edited image and the template version used.
+ */
+export async function editImageRegion(imageDataUrl: string, maskDataUrl: string, instruction: string, options: CallOptions = {}): Promise<RegionEditResult> {
+    const trimmed = instruction.trim();
+    if (!trimmed) {
+        throw new ApiError('invalid-input', "Describe the change to make in the painted region.");
     }
+    assertUserTextAllowed([{ label: "The edit instruction", text: trimmed }]);
+    const prompt = renderPrompt('edit.region', { instruction: quoteUserText(trimmed) });
+    const url = await runWithDeadline("Region edit", options, DEFAULT_TIMEOUTS_MS.edit, async signal => {
+        if (await maskCoverage(maskDataUrl) === 0) {
+            throw new ApiError('invalid-input', "Paint over the region to change before applying the edit.");
+        }
+        const [source] = await prepareImages([imageDataUrl], "Image");
+        const edited = await provider.editImageRegion(source, maskDataUrl, trimmed, prompt.text, signal);
+        return compositeMaskedEdit(imageDataUrl, edited, maskDataUrl);
+    });
+    return { url, promptTemplate: prompt.provenance };
+}
+
+/** The most earlier steps sent back with a refinement message; older ones are summed up by the image they led to. */
+export const MAX_REFINEMENT_HISTORY = 6;
+
+export interface RefinementResult {
+    /** The refined image. */
+    url: string;
+    /** The prompt template that produced the refinement. */
+    promptTemplate: PromptProvenance;
 }
 
+/**
+ * Sends the next message of a refinement conversation. The model sees the starting image and
+ * the recent steps with the images they produced, so an instruction like "warmer light" builds
+ * on the latest result rather than starting over.
+ * @param imageDataUrl The data URL of the image the conversation started from.
+ * @param history The earlier steps, oldest first. Only the last `MAX_REFINEMENT_HISTORY` are
+ * sent; the image before the oldest of those stands in for the starting image.
+ * @param instruction The change to make.
+ * @param options An abort signal and overall deadline for the call, covering retries.
+ * @returns A promise resolving to the data URL of the refined image and the template version used.
+ */
+export async function refineImage(
+    imageDataUrl: string,
+    history: RefinementStep[],
+    instruction: string,
+    options: CallOptions = {}
+): Promise<RefinementResult> {
+    const trimmed = instruction.trim();
+    if (!trimmed) {
+        throw new ApiError('invalid-input', "Describe the change to make to the image.");
+    }
+    assertUserTextAllowed([{ label: "The refinement instruction", text: trimmed }]);
+    const prompt = renderPrompt('refine.turn', { instruction: quoteUserText(trimmed) });
+    const skipped = Math.max(0, history.length - MAX_REFINEMENT_HISTORY);
+    const start = skipped > 0 ? history[skipped - 1].url : imageDataUrl;
+    const recent = history.slice(skipped);
+
+    const url = await runWithDeadline("Image refinement", options, DEFAULT_TIMEOUTS_MS.refine, async signal => {
+        const [source, ...answers] = await prepareImages([start, ...recent.map(step => step.url)], "Refinement image");
+        const turns: RefinementTurn[] = recent.map((step, i) => ({
+            instruction: step.instruction,
+            prompt: renderPrompt('refine.turn', { instruction: quoteUserText(step.instruction) }).text,
+            imageUrl: answers[i],
+        }));
+        return provider.refineImage(source, turns, trimmed, prompt.text, signal);
+    });
+    return { url, promptTemplate: prompt.provenance };
+}
 
 /**
  * Analyzes the content of images and returns a text description.
  * @param imageDataUrls An array of data URL strings for the images to analyze.
  * @param prompt The prompt to guide the analysis.
+ * @param options An abort signal, overall deadline and cache bypass for the call.
  * @returns A promise that resolves to a text description of the image content.
+ * Unchanged images analysed with the same prompt are answered from the result cache.
  */
-export async function analyzeImageContent(imageDataUrls: string[], prompt: string): Promise<string> {
+export async function analyzeImageContent(imageDataUrls: string[], prompt: string, options: CachedCallOptions = {}): Promise<string> {
     if (imageDataUrls.length === 0) {
-        return ""; // Return empty string if no images are provided
+        return "";
     }
+    const { value } = await withResultCache('analysis', prompt, imageDataUrls, {}, options, () =>
+        runWithDeadline("Image analysis", options, DEFAULT_TIMEOUTS_MS.analysis, async signal =>
+            provider.analyzeImageContent(await prepareImages(imageDataUrls, "Image"), prompt, signal)));
+    return value;
+}
+
+// Generated videos are only kept by the API for two days, so older jobs cannot be recovered.
+const VIDEO_JOB_MAX_AGE_MS = 2 * 24 * 60 * 60 * 1000;
 
-    const imageParts = imageDataUrls.map(url => dataUrlToGenaiPart(url, "Image for analysis"));
-    const textPart = { text: prompt };
+// Failures after which the operation may still finish on the server, so its job is kept for `resumeVideoJobs`.
+const RESUMABLE_VIDEO_JOB_ERRORS: ReadonlySet<ApiErrorKind> = new Set(['timeout', 'network']);
 
+/**
+ * Waits for a persisted video job and removes it from storage once it has finished, failed
+ * for good or been cancelled. A job that only ran out of time or lost the network is kept.
+ */
+async function awaitStoredVideoJob(job: VideoJob, signal: AbortSignal): Promise<string> {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [...imageParts, textPart] },
-        });
-        return response.text.trim();
+        const url = await provider.awaitVideoGeneration(job, signal);
+        await deleteVideoJob(job.id);
+        return url;
     } catch (error) {
-        console.error("An error occurred during image content analysis:", error);
-        const rawErrorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        
-        if (rawErrorMessage.includes('429') || rawErrorMessage.includes('RESOURCE_EXHAUSTED')) {
-            throw new ApiError("Image analysis failed due to API usage limits.", true);
+        const apiError = classifyError(error, "Video generation", signal);
+        if (!RESUMABLE_VIDEO_JOB_ERRORS.has(apiError.kind)) {
+            await deleteVideoJob(job.id);
         }
-        
-        throw new ApiError(`The AI model failed to analyze the image content. Details: ${rawErrorMessage}`);
+        throw apiError;
     }
 }
 
+export interface StyledVideoOptions extends CallOptions {
+    /** The model tier, framing, negative prompt and number of videos; unset fields use `DEFAULT_VIDEO_OPTIONS`. */
+    video?: Partial<VideoOptions>;
+}
+
+export interface StyledVideoResult {
+    /** The first video that finished; the default pick. */
+    url: string;
+    /** Blob URLs of every video that finished, in submission order. */
+    urls: string[];
+}
 
 /**
- * Generates a short video from a source image and a prompt.
+ * Generates one or more short videos from a source image and a prompt. The options are checked
+ * against the selected model before anything is submitted. Each video is a separate job, saved
+ * to IndexedDB while it runs so that `resumeVideoJobs` can pick it up after a reload.
  * @param imageDataUrl A data URL string of the source image.
  * @param prompt The prompt to guide the video generation.
- * @returns A promise that resolves to a blob URL of the generated video.
+ * @param options An abort signal and overall deadline for the call, covering status polling and
+ * the downloads, and the video settings.
+ * @returns A promise that resolves to blob URLs of the videos that finished; it rejects only if none did.
  */
-export async function generateStyledVideo(imageDataUrl: string, prompt: string): Promise<string> {
-    const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-    if (!match) {
-        throw new Error("Invalid image data URL format for video generation.");
-    }
-    const [, mimeType, base64Data] = match;
-
-    try {
-        const videoAi = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-        console.log("Starting video generation...");
-        let operation = await videoAi.models.generateVideos({
-            model: 'veo-3.1-fast-generate-preview',
-            prompt: prompt,
-            image: {
-                imageBytes: base64Data,
-                mimeType: mimeType,
-            },
-            config: {
-                numberOfVideos: 1,
-                aspectRatio: '9:16',
-                resolution: '720p',
+export async function generateStyledVideo(imageDataUrl: string, prompt: string, options: StyledVideoOptions = {}): Promise<StyledVideoResult> {
+    const videoOptions: VideoOptions = { ...DEFAULT_VIDEO_OPTIONS, ...options.video };
+    assertVideoOptions(videoOptions);
+    assertUserTextAllowed([{ label: "The avoid list", text: videoOptions.negativePrompt }]);
+
+    const urls = await runWithDeadline("Video generation", options, DEFAULT_TIMEOUTS_MS.video, async signal => {
+        const [source] = await prepareImages([imageDataUrl], "Video image");
+        const jobs: VideoJob[] = [];
+        for (let i = 0; i < videoOptions.numberOfVideos; i++) {
+            try {
+                const operationName = await provider.startVideoGeneration(source, prompt, videoOptions, signal);
+                const job: VideoJob = {
+                    id: crypto.randomUUID(),
+                    provider: provider.name,
+                    operationName,
+                    imageDataUrl: source,
+                    prompt,
+                    options: videoOptions,
+                    createdAt: Date.now(),
+                };
+                await saveVideoJob(job);
+                jobs.push(job);
+            } catch (error) {
+                // Videos already submitted are still generating (and billed), so wait for those.
+                if (jobs.length === 0) throw error;
+                console.warn(`Only ${jobs.length} of ${videoOptions.numberOfVideos} videos could be submitted.`, error);
+                break;
             }
-        });
-
-        console.log("Polling for video operation status...");
-        while (!operation.done) {
-            // Wait for 10 seconds before checking the status again.
-            await new Promise(resolve => setTimeout(resolve, 10000));
-            operation = await videoAi.operations.getVideosOperation({ operation: operation });
-            console.log("Current operation status:", operation.done);
         }
 
-        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-        if (!downloadLink) {
-            throw new Error("Video generation completed, but no download link was provided.");
+        const results = await Promise.allSettled(jobs.map(job => awaitStoredVideoJob(job, signal)));
+        const finished = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+        if (finished.length === 0) {
+            throw (results[0] as PromiseRejectedResult).reason;
         }
+        return finished;
+    });
+    return { url: urls[0], urls };
+}
 
-        console.log("Fetching video from download link:", downloadLink);
-        // The response.body contains the MP4 bytes. You must append an API key when fetching from the download link.
-        const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
+export interface ResumedVideoJob {
+    job: VideoJob;
+    /** Resolves to a blob URL of the finished video. */
+    result: Promise<string>;
+    /** Stops waiting for this job and forgets it. */
+    cancel: () => void;
+}
 
-        if (!response.ok) {
-            throw new Error(`Failed to download video file. Status: ${response.statusText}`);
+/**
+ * Resumes polling for every video job that was still running when the page was last closed.
+ * Jobs started by a different provider are left in storage; expired jobs are discarded.
+ * @param options An overall deadline applied to each resumed job.
+ * @returns The resumed jobs, each with a promise for its video.
+ */
+export async function resumeVideoJobs(options: Omit<CallOptions, 'signal'> = {}): Promise<ResumedVideoJob[]> {
+    const jobs = await listVideoJobs();
+    const resumable: ResumedVideoJob[] = [];
+
+    for (const job of jobs) {
+        if (Date.now() - job.createdAt > VIDEO_JOB_MAX_AGE_MS) {
+            await deleteVideoJob(job.id);
+            continue;
         }
-
-        const videoBlob = await response.blob();
-        console.log("Video downloaded successfully. Creating blob URL.");
-        return URL.createObjectURL(videoBlob);
-
-    } catch (error) {
-        let userFriendlyMessage: string;
-        const rawErrorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        console.error("An error occurred during video generation:", error);
-
-        if (rawErrorMessage.includes('429') || rawErrorMessage.includes('RESOURCE_EXHAUSTED')) {
-            userFriendlyMessage = "Video generation failed due to API usage limits. Please check your quota in Google AI Studio.";
-             throw new ApiError(userFriendlyMessage, true);
-        } else {
-            userFriendlyMessage = `The AI model failed to generate a video. Details: ${rawErrorMessage}`;
+        if (job.provider !== provider.name) {
+            continue;
         }
-
-        throw new ApiError(userFriendlyMessage);
+        const controller = new AbortController();
+        console.log(`Resuming video job ${job.operationName}...`);
+        resumable.push({
+            job,
+            result: runWithDeadline("Video generation", { ...options, signal: controller.signal }, DEFAULT_TIMEOUTS_MS.video,
+                signal => awaitStoredVideoJob(job, signal)),
+            cancel: () => controller.abort(),
+        });
     }
-}
\ No newline at end of file
+    return resumable;
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { LikenessScore } from './identityCheck';
+import type { Scenario } from './scenarios';
+import type { VideoOptions } from './videoOptions';
+
+/**
+ * The reference images supplied to a styled image generation, as data URLs.
+ */
+export interface StyledImageSources {
+    personImages: string[];
+    productImages: string[];
+    styleImages: string[];
+}
+
+/**
+ * One safety classifier verdict on a generated candidate.
+ */
+export interface CandidateSafetyRating {
+    /** The harm category, e.g. 'HARM_CATEGORY_HARASSMENT'. */
+    category: string;
+    /** How likely the content is to be harmful, e.g. 'NEGLIGIBLE' or 'HIGH'. */
+    probability: string;
+    /** Whether this rating caused the candidate to be withheld. */
+    blocked: boolean;
+}
+
+/**
+ * One of several images generated for the same prompt, with the metadata the model returned for it.
+ */
+export interface ImageCandidate {
+    /** A data URL of the image; absent when the candidate was filtered or came back as text only. */
+    url?: string;
+    /** Why the model stopped generating this candidate, e.g. 'STOP' or 'IMAGE_SAFETY'. */
+    finishReason?: string;
+    safetyRatings: CandidateSafetyRating[];
+    /** Any text the model returned alongside or instead of the image. */
+    text?: string;
+    /** How much the image resembles the person references; set when an identity check scored it. */
+    likeness?: LikenessScore;
+}
+
+/**
+ * A scenario generation request: the rendered prompt plus the raw inputs it was built from,
+ * so that providers which do not call a model can still derive their output from the inputs.
+ */
+export interface ScenarioRequest {
+    prompt: string;
+    /** How many scenarios to return. */
+    count: number;
+    personDesc: string;
+    objectDesc: string;
+    styleDesc: string;
+    userPrompt?: string;
+}
+
+/**
+ * One earlier exchange of a refinement conversation about an image.
+ */
+export interface RefinementTurn {
+    /** The change that was asked for, as the user typed it. */
+    instruction: string;
+    /** The rendered refinement prompt the instruction was sent as. */
+    prompt: string;
+    /** The image the model answered with, as a data URL. */
+    imageUrl: string;
+}
+
+/**
+ * Identifies a submitted video generation, with the inputs it was started from.
+ */
+export interface VideoOperationRef {
+    /** The provider's handle for the long-running operation. */
+    operationName: string;
+    imageDataUrl: string;
+    prompt: string;
+    /** The settings it was submitted with; absent for jobs saved before video options existed. */
+    options?: VideoOptions;
+}
+
+/**
+ * A backend capable of serving every generation operation the app uses.
+ * The active provider is chosen once at startup (see `geminiService.ts`).
+ * Every operation receives a signal that combines caller cancellation with the call's deadline;
+ * providers must stop any requests, retries and polling as soon as it aborts.
+ */
+export interface GenerationProvider {
+    /** A short identifier for the provider, e.g. 'gemini' or 'local'. */
+    readonly name: string;
+    /** The model behind text operations (scenarios and analysis); part of the result cache key. */
+    readonly textModel: string;
+    /** Resolves with exactly `request.count` scenarios that have passed `validateScenarios`. */
+    generateScenarios(request: ScenarioRequest, signal: AbortSignal): Promise<Scenario[]>;
+    /** Like `generateScenarios`, but yields each validated scenario as soon as it is available. */
+    streamScenarios(request: ScenarioRequest, signal: AbortSignal): AsyncIterable<Scenario>;
+    /**
+     * Generates `candidateCount` alternative images for one prompt. Resolves with every candidate,
+     * including filtered ones, as long as at least one has an image; otherwise rejects.
+     */
+    generateStyledImage(images: StyledImageSources, prompt: string, candidateCount: number, signal: AbortSignal): Promise<ImageCandidate[]>;
+    /** `prompt` is the rendered meme template; `memeText` is the raw caption it contains. */
+    generateMemeImage(imageDataUrl: string, memeText: string, prompt: string, signal: AbortSignal): Promise<string>;
+    /**
+     * Asks for a change to the region of an image that a mask paints white. `prompt` is the rendered
+     * region-edit template; `instruction` is the raw change it contains. Resolves with the model's
+     * whole output image; callers composite it through the mask to keep the rest untouched.
+     */
+    editImageRegion(imageDataUrl: string, maskDataUrl: string, instruction: string, prompt: string, signal: AbortSignal): Promise<string>;
+    /**
+     * Continues a conversation about an image: the model sees the starting image, every earlier
+     * turn with the image it answered with, and `prompt`, the rendered refinement template for
+     * the new `instruction`. Resolves with the refined image.
+     */
+    refineImage(imageDataUrl: string, history: RefinementTurn[], instruction: string, prompt: string, signal: AbortSignal): Promise<string>;
+    analyzeImageContent(imageDataUrls: string[], prompt: string, signal: AbortSignal): Promise<string>;
+    /**
+     * Submits a generation of one video with options that have passed `assertVideoOptions`, and
+     * resolves with its operation name as soon as it is accepted. `options.numberOfVideos` is
+     * handled by the caller, which submits that many generations.
+     */
+    startVideoGeneration(imageDataUrl: string, prompt: string, options: VideoOptions, signal: AbortSignal): Promise<string>;
+    /** Waits for a submitted video generation, possibly from an earlier session, and resolves with a blob URL. */
+    awaitVideoGeneration(job: VideoOperationRef, signal: AbortSignal): Promise<string>;
+}
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ApiError } from './errors';
+
+/**
+ * How closely a generated portrait resembles the person in the reference images.
+ */
+export interface LikenessScore {
+    /** From 0 (a different person) to 1 (unmistakably the same person). */
+    score: number;
+    /** The comparator's short explanation, if it gave one. */
+    reason?: string;
+}
+
+/**
+ * Scores one generated image against the person references. The default compares them with
+ * the vision model behind `analyzeImageContent`; any other scorer can be plugged in.
+ * @param referenceImages The person images, as data URLs.
+ * @param candidateImage The generated image, as a data URL.
+ * @param signal Aborts the comparison.
+ */
+export type LikenessComparator = (referenceImages: string[], candidateImage: string, signal: AbortSignal) => Promise<LikenessScore>;
+
+/**
+ * Settings for verifying that generated portraits still look like the uploaded person.
+ */
+export interface IdentityCheckSettings {
+    enabled: boolean;
+    /** Outputs scoring below this, from 0 to 1, are regenerated. */
+    threshold: number;
+    /** How many extra generations to try before settling for the best-scoring output. */
+    maxRetries: number;
+}
+
+export interface IdentityCheckOptions extends Partial<Omit<IdentityCheckSettings, 'enabled'>> {
+    /** Replaces the default vision-model comparator. */
+    comparator?: LikenessComparator;
+}
+
+/**
+ * The likeness of the image a styled generation settled on.
+ */
+export interface LikenessResult extends LikenessScore {
+    /** Whether the score met the threshold; false if every attempt fell short. */
+    passed: boolean;
+    /** How many generations were made, including the first. */
+    attempts: number;
+}
+
+export const MAX_IDENTITY_RETRIES = 5;
+
+export const DEFAULT_IDENTITY_CHECK_SETTINGS: IdentityCheckSettings = {
+    enabled: false,
+    threshold: 0.6,
+    maxRetries: 2,
+};
+
+const IDENTITY_CHECK_STORAGE_KEY = 'identity-check-settings';
+
+
+/**
+ * Rejects identity check options the retry loop cannot honour.
+ * @throws ApiError of kind 'invalid-input' describing the first problem.
+ */
+export function assertIdentityCheckOptions({ threshold, maxRetries }: IdentityCheckOptions): void {
+    if (threshold !== undefined && !(threshold >= 0 && threshold <= 1)) {
+        throw new ApiError('invalid-input', `The likeness threshold must be from 0 to 1, got ${threshold}.`);
+    }
+    if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > MAX_IDENTITY_RETRIES)) {
+        throw new ApiError('invalid-input', `The number of identity retries must be a whole number from 0 to ${MAX_IDENTITY_RETRIES}, got ${maxRetries}.`);
+    }
+}
+
+/**
+ * Reads a likeness score from a vision model's answer to the 'identity.compare' prompt, which
+ * asks for a line of the form "Score: 85 - reason".
+ * @param text The model's answer.
+ * @returns The score scaled to 0-1, with the reason that followed it.
+ * @throws ApiError of kind 'invalid-output' if the answer holds no score from 0 to 100.
+ */
+export function parseLikenessScore(text: string): LikenessScore {
+    const match = /score[\s*_]*[:=]?[\s*_]*(\d{1,3}(?:\.\d+)?)\s*(?:\/\s*100)?\s*[-–—:]?\s*(.*)/i.exec(text);
+    const value = match ? Number(match[1]) : NaN;
+    if (!(value >= 0 && value <= 100)) {
+        throw new ApiError('invalid-output', "The likeness check did not return a score.", { details: text.slice(0, 200) });
+    }
+    const reason = match![2].trim();
+    return { score: value / 100, reason: reason || undefined };
+}
+
+
+// --- Settings ---
+
+export function getIdentityCheckSettings(): IdentityCheckSettings {
+    try {
+        const raw = localStorage.getItem(IDENTITY_CHECK_STORAGE_KEY);
+        return { ...DEFAULT_IDENTITY_CHECK_SETTINGS, ...(raw ? JSON.parse(raw) : {}) };
+    } catch (e) {
+        console.error("Failed to read identity check settings from localStorage", e);
+        return { ...DEFAULT_IDENTITY_CHECK_SETTINGS };
+    }
+}
+
+export function setIdentityCheckSettings(settings: IdentityCheckSettings): void {
+    try {
+        localStorage.setItem(IDENTITY_CHECK_STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Failed to save identity check settings to localStorage", e);
+    }
+}
@@ -0,0 +1,377 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+    GenerationProvider,
+    ImageCandidate,
+    RefinementTurn,
+    ScenarioRequest,
+    StyledImageSources,
+    VideoOperationRef,
+} from './generationProvider';
+import type { Scenario } from './scenarios';
+import type { VideoOptions } from './videoOptions';
+import { abortableDelay } from './cancellation';
+
+// A small, fixed delay so loading states are still visible when running offline.
+const SIMULATED_LATENCY_MS = 400;
+
+const PALETTES = [
+    ['#1f2a44', '#ff6b6b', '#ffd166'],
+    ['#0b3d2e', '#30e0b0', '#f4f1de'],
+    ['#2a2542', '#ff5c8a', '#fff4ff'],
+    ['#3a322c', '#e07a5f', '#f2cc8f'],
+    ['#0f1724', '#4aa8ff', '#e6eef8'],
+    ['#463f3a', '#bcb8b1', '#f4f3ee'],
+];
+
+const SCENE_SETTINGS = [
+    "a neon-lit street market just after the rain",
+    "a sunlit rooftop overlooking an old city",
+    "a vintage train platform wrapped in morning fog",
+    "a grand, candle-lit palace hallway",
+    "a minimalist studio with bold coloured gels",
+    "a windswept coastline at golden hour",
+    "a cosy bookshop filled with warm lamplight",
+];
+
+const SCENE_FRAMINGS = [
+    { title: "Close Encounter", camera: "close-up portrait, 85mm" },
+    { title: "Cinematic Moment", camera: "cinematic medium shot, 50mm" },
+    { title: "Full Look", camera: "full-body fashion shot, 35mm" },
+    { title: "Stolen Glance", camera: "candid over-the-shoulder frame, 50mm" },
+    { title: "Larger Than Life", camera: "dramatic low-angle shot, 24mm" },
+];
+
+const SCENE_LIGHTING = [
+    "soft window light with gentle shadows",
+    "warm golden-hour backlight",
+    "moody neon rim light",
+    "high-contrast studio strobes",
+    "diffused overcast daylight",
+];
+
+const SCENE_MOODS = ["confident", "dreamy", "mysterious", "playful", "nostalgic", "triumphant"];
+
+// --- Helper Functions ---
+
+/**
+ * Computes a 32-bit FNV-1a hash of a string. Used to derive stable outputs from inputs.
+ * @param input The string to hash.
+ * @returns An unsigned 32-bit integer.
+ */
+function hashString(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function pick<T>(items: readonly T[], seed: number, offset: number = 0): T {
+    return items[(seed + offset) % items.length];
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function svgToDataUrl(svg: string): string {
+    const bytes = new TextEncoder().encode(svg);
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return `data:image/svg+xml;base64,${btoa(binary)}`;
+}
+
+/**
+ * Splits text into lines of at most `maxChars` characters, breaking on spaces.
+ */
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if ((current + ' ' + word).trim().length > maxChars && current) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = (current + ' ' + word).trim();
+        }
+    }
+    if (current) lines.push(current);
+    return lines.slice(0, maxLines);
+}
+
+/**
+ * Renders a deterministic 3:4 placeholder portrait for the given prompt.
+ * @param prompt The prompt the image stands in for.
+ * @param seed A seed derived from all of the generation inputs.
+ * @returns A data URL of an SVG image.
+ */
+function renderPlaceholderImage(prompt: string, seed: number): string {
+    const [background, accent, highlight] = pick(PALETTES, seed);
+    const width = 768;
+    const height = 1024;
+    const circleX = 180 + (seed % 400);
+    const circleY = 220 + ((seed >>> 8) % 300);
+    const lines = wrapText(prompt, 28, 6)
+        .map((line, i) => `<text x="${width / 2}" y="${700 + i * 44}" font-family="Inter, sans-serif" font-size="32" fill="${highlight}" text-anchor="middle">${escapeXml(line)}</text>`)
+        .join('');
+
+    return svgToDataUrl(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+        `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${background}"/><stop offset="1" stop-color="${accent}"/></linearGradient></defs>` +
+        `<rect width="${width}" height="${height}" fill="url(#g)"/>` +
+        `<circle cx="${circleX}" cy="${circleY}" r="${120 + (seed % 80)}" fill="${highlight}" opacity="0.25"/>` +
+        `<ellipse cx="${width / 2}" cy="430" rx="130" ry="160" fill="${highlight}" opacity="0.55"/>` +
+        `<rect x="${width / 2 - 200}" y="560" width="400" height="80" rx="40" fill="${highlight}" opacity="0.4"/>` +
+        lines +
+        `<text x="${width / 2}" y="${height - 40}" font-family="Inter, sans-serif" font-size="22" fill="${highlight}" opacity="0.7" text-anchor="middle">OFFLINE PREVIEW</text>` +
+        `</svg>`
+    );
+}
+
+// --- Provider Operations ---
+
+async function generateScenarios(
+    { count, personDesc, objectDesc, styleDesc, userPrompt }: ScenarioRequest,
+    signal: AbortSignal
+): Promise<Scenario[]> {
+    await abortableDelay(SIMULATED_LATENCY_MS, signal);
+    const subject = personDesc ? 'The person' : 'A striking character';
+    const theme = userPrompt?.trim();
+    const seed = hashString([personDesc, objectDesc, styleDesc, userPrompt ?? ''].join('|'));
+
+    return Array.from({ length: count }, (_, i) => {
+        const framing = SCENE_FRAMINGS[i % SCENE_FRAMINGS.length];
+        const parts = [`${subject} in ${pick(SCENE_SETTINGS, seed, i)}`];
+        if (objectDesc) parts.push('holding the featured object');
+        if (theme) parts.push(`inspired by "${theme}"`);
+        if (styleDesc) parts.push('matching the reference style');
+        return {
+            title: framing.title,
+            scene: `${parts.join(', ')}.`,
+            camera: framing.camera,
+            lighting: pick(SCENE_LIGHTING, seed, i),
+            mood: pick(SCENE_MOODS, seed, i),
+        };
+    });
+}
+
+// Yields the same scenarios as `generateScenarios`, spaced out to mimic a streamed response.
+async function* streamScenarios(request: ScenarioRequest, signal: AbortSignal): AsyncGenerator<Scenario> {
+    const scenarios = await generateScenarios(request, signal);
+    for (const [i, scenario] of scenarios.entries()) {
+        if (i > 0) await abortableDelay(SIMULATED_LATENCY_MS / 2, signal);
+        yield scenario;
+    }
+}
+
+async function generateStyledImage(
+    images: StyledImageSources,
+    prompt: string,
+    candidateCount: number,
+    signal: AbortSignal
+): Promise<ImageCandidate[]> {
+    await abortableDelay(SIMULATED_LATENCY_MS, signal);
+    const seed = hashString([
+        prompt,
+        ...images.personImages,
+        ...images.productImages,
+        ...images.styleImages,
+    ].join('|'));
+    return Array.from({ length: candidateCount }, (_, i) => ({
+        url: renderPlaceholderImage(prompt, hashString(`${seed}:${i}`)),
+        finishReason: 'STOP',
+        safetyRatings: [],
+    }));
+}
+
+async function generateMemeImage(imageDataUrl: string, memeText: string, _prompt: string, signal: AbortSignal): Promise<string> {
+    await abortableDelay(SIMULATED_LATENCY_MS, signal);
+    const width = 768;
+    const height = 1024;
+    const lines = wrapText(memeText.toUpperCase(), 22, 3);
+    const text = lines
+        .map((line, i) => `<text x="${width / 2}" y="${height - 60 - (lines.length - 1 - i) * 64}" font-family="Impact, 'Arial Black', sans-serif" font-size="56" fill="#fff" stroke="#000" stroke-width="3" paint-order="stroke" text-anchor="middle">${escapeXml(line)}</text>`)
+        .join('');
+
+    return svgToDataUrl(
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+        `<rect width="${width}" height="${height}" fill="#000"/>` +
+        `<image href="${imageDataUrl}" xlink:href="${imageDataUrl}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>` +
+        text +
+        `</svg>`
+    );
+}
+
+/**
+ * Tints the whole image and labels it with the instruction; the caller's mask compositing
+ * then confines the change to the painted region.
+ */
+async function editImageRegion(imageDataUrl: string, _maskDataUrl: string, instruction: string, _prompt: string, signal: AbortSignal): Promise<string> {
+    await abortableDelay(SIMULATED_LATENCY_MS, signal);
+    const width = 768;
+    const height = 1024;
+    const [, accent, highlight] = pick(PALETTES, hashString(instruction));
+    const lines = wrapText(instruction, 28, 4);
+    const text = lines
+        .map((line, i) => `<text x="${width / 2}" y="${height / 2 + (i - (lines.length - 1) / 2) * 44}" font-family="Inter, sans-serif" font-size="36" fill="${highlight}" text-anchor="middle">${escapeXml(line)}</text>`)
+        .join('');
+
+    return svgToDataUrl(
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+        `<image href="${imageDataUrl}" xlink:href="${imageDataUrl}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>` +
+        `<rect width="${width}" height="${height}" fill="${accent}" opacity="0.45"/>` +
+        text +
+        `</svg>`
+    );
+}
+
+async function refineImage(imageDataUrl: string, history: RefinementTurn[], instruction: string, _prompt: string, signal: AbortSignal): Promise<string> {
+    // Each turn is drawn over the previous result, so the placeholder tint deepens as the conversation goes on.
+    const latest = history.length > 0 ? history[history.length - 1].imageUrl : imageDataUrl;
+    return editImageRegion(latest, '', `${history.length + 1}. ${instruction}`, '', signal);
+}
+
+async function analyzeImageContent(imageDataUrls: string[], prompt: string, signal: AbortSignal): Promise<string> {
+    if (imageDataUrls.length === 0) {
+        return "";
+    }
+    await abortableDelay(SIMULATED_LATENCY_MS, signal);
+    const seed = hashString(imageDataUrls.join('|'));
+    const count = imageDataUrls.length === 1 ? 'one reference image' : `${imageDataUrls.length} reference images`;
+    const lowerPrompt = prompt.toLowerCase();
+
+    // Identity checks ask for a score; the placeholder one passes most of the time.
+    if (lowerPrompt.includes('likeness')) {
+        return `Score: ${50 + seed % 50} - Offline placeholder comparison of ${count}.`;
+    }
+    if (lowerPrompt.includes('person')) {
+        return `A person shown in ${count}, with a ${pick(['calm', 'confident', 'playful', 'thoughtful'], seed)} expression and ${pick(['casual', 'formal', 'traditional', 'streetwear'], seed, 1)} clothing.`;
+    }
+    if (lowerPrompt.includes('object')) {
+        return `A ${pick(['matte', 'glossy', 'metallic', 'woven'], seed)} ${pick(['black', 'red', 'silver', 'teal'], seed, 1)} product shown in ${count}.`;
+    }
+    if (lowerPrompt.includes('style')) {
+        return `A ${pick(['moody', 'vibrant', 'soft', 'high-contrast'], seed)} style with ${pick(['warm', 'cool', 'pastel', 'neon'], seed, 1)} tones, taken from ${count}.`;
+    }
+    return `Offline description of ${count}.`;
+}
+
+async function startVideoGeneration(imageDataUrl: string, prompt: string, options: VideoOptions, signal: AbortSignal): Promise<string> {
+    await abortableDelay(SIMULATED_LATENCY_MS, signal);
+    return `local-video-${hashString(`${imageDataUrl}|${prompt}|${options.aspectRatio}`).toString(16)}`;
+}
+
+/**
+ * Records a short looping clip of an animated placeholder frame built from the source image.
+ * Nothing is kept between sessions, so a resumed job is simply rendered again from its inputs.
+ * @returns A blob URL for a WebM video.
+ */
+async function awaitVideoGeneration({ imageDataUrl, prompt, options }: VideoOperationRef, signal: AbortSignal): Promise<string> {
+    signal.throwIfAborted();
+    const landscape = options?.aspectRatio === '16:9';
+    const width = landscape ? 640 : 360;
+    const height = landscape ? 360 : 640;
+    const durationMs = 2000;
+    const seed = hashString(`${imageDataUrl}|${prompt}`);
+    const [background, accent, highlight] = pick(PALETTES, seed);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+        img.onload = () => resolve();
+        img.onerror = () => reject(new Error('Failed to load the source image for the offline video.'));
+        img.src = imageDataUrl;
+    });
+
+    const drawFrame = (progress: number) => {
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, width, height);
+        // A slow Ken Burns style zoom, fully determined by the progress through the clip.
+        const scale = 1 + 0.08 * progress;
+        const drawWidth = width * scale;
+        const drawHeight = (img.naturalHeight / img.naturalWidth) * drawWidth;
+        ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+        ctx.fillStyle = accent;
+        ctx.globalAlpha = 0.35;
+        ctx.fillRect(0, height - 80, width * progress, 8);
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = highlight;
+        ctx.font = `16px Inter, sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.fillText('OFFLINE PREVIEW', width / 2, height - 40);
+    };
+
+    drawFrame(0);
+    const stream = canvas.captureStream(30);
+    const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    recorder.start();
+    const start = performance.now();
+    try {
+        await new Promise<void>((resolve, reject) => {
+            const tick = () => {
+                if (signal.aborted) {
+                    reject(signal.reason);
+                    return;
+                }
+                const progress = Math.min(1, (performance.now() - start) / durationMs);
+                drawFrame(progress);
+                if (progress < 1) {
+                    requestAnimationFrame(tick);
+                } else {
+                    resolve();
+                }
+            };
+            requestAnimationFrame(tick);
+        });
+    } finally {
+        recorder.stop();
+        await stopped;
+        stream.getTracks().forEach(track => track.stop());
+    }
+
+    return URL.createObjectURL(new Blob(chunks, { type: 'video/webm' }));
+}
+
+
+/**
+ * Creates a provider that runs entirely in the browser. Every operation returns deterministic
+ * placeholder output derived from its inputs, so the app can be demoed and developed without
+ * an API key or network access.
+ * @returns A GenerationProvider that never leaves the browser.
+ */
+export function createLocalProvider(): GenerationProvider {
+    return {
+        name: 'local',
+        textModel: 'local-templates',
+        generateScenarios,
+        streamScenarios,
+        generateStyledImage,
+        generateMemeImage,
+        editImageRegion,
+        refineImage,
+        analyzeImageContent,
+        startVideoGeneration,
+        awaitVideoGeneration,
+    };
+}
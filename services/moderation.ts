@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ApiError } from './errors';
+
+/**
+ * Settings for the check that runs on the user's own text before it is put in a prompt.
+ */
+export interface ModerationSettings {
+    enabled: boolean;
+    /** Blocks text that tries to override the app's instructions to the model. */
+    blockInjection: boolean;
+    /** Words and phrases that may not appear, matched case-insensitively as whole words. */
+    blockedTerms: string[];
+}
+
+/**
+ * One piece of user text to check, named for the reason shown when it is blocked.
+ */
+export interface UserTextField {
+    /** What the text is, e.g. "Your idea" or "Meme text". */
+    label: string;
+    text: string;
+}
+
+export interface ModerationVerdict {
+    allowed: boolean;
+    /** Why the text was blocked, written for the user. */
+    reason?: string;
+    /** The label of the field that was blocked. */
+    field?: string;
+}
+
+export const DEFAULT_MODERATION_SETTINGS: ModerationSettings = {
+    enabled: true,
+    blockInjection: true,
+    blockedTerms: ['nude', 'naked', 'nsfw', 'topless', 'gore', 'decapitated', 'dismembered'],
+};
+
+const MODERATION_STORAGE_KEY = 'moderation-settings';
+
+// Phrasings that try to take over the prompt rather than describe an image, with what each one does.
+const INJECTION_PATTERNS: { pattern: RegExp; description: string }[] = [
+    {
+        pattern: /\b(ignore|disregard|forget|override|bypass)\b[^.\n]{0,40}\b(instructions?|prompts?|rules|guidelines|directions)\b/i,
+        description: "asks the model to ignore its instructions",
+    },
+    {
+        pattern: /\b(system|developer|hidden|original)\s+(prompt|message|instructions?)\b/i,
+        description: "refers to the app's hidden instructions",
+    },
+    {
+        pattern: /\b(reveal|print|repeat|show|output)\b[^.\n]{0,30}\b(your|the)\s+(prompt|instructions)\b/i,
+        description: "asks the model to reveal its instructions",
+    },
+    {
+        pattern: /\b(new|updated|real|actual)\s+instructions?\s*:/i,
+        description: "introduces new instructions",
+    },
+    {
+        pattern: /\byou\s+are\s+(now|no\s+longer)\b|\bfrom\s+now\s+on,?\s+you\b/i,
+        description: "tries to give the model a new role",
+    },
+    {
+        pattern: /<\/?\s*(system|assistant|instructions?)\s*>|^\s*(system|assistant)\s*:/im,
+        description: "contains chat role markers",
+    },
+];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Matches a term as a whole word or phrase, however its words are spaced.
+function termPattern(term: string): RegExp {
+    const words = term.trim().split(/\s+/).map(escapeRegExp);
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${words.join('\\s+')}(?=$|[^\\p{L}\\p{N}])`, 'iu');
+}
+
+
+// --- Checking ---
+
+/**
+ * Checks the user's text against the blocked terms and injection patterns. Runs locally, so
+ * nothing is sent anywhere and nothing is billed.
+ * @param fields The pieces of user text going into one request; empty ones are skipped.
+ * @param settings The settings to check with; defaults to the saved ones.
+ * @returns Whether the text may be sent, and if not, why.
+ */
+export function moderateUserText(fields: UserTextField[], settings: ModerationSettings = getModerationSettings()): ModerationVerdict {
+    if (!settings.enabled) {
+        return { allowed: true };
+    }
+    for (const { label, text } of fields) {
+        if (!text.trim()) continue;
+
+        const term = settings.blockedTerms.find(candidate => candidate.trim() && termPattern(candidate).test(text));
+        if (term) {
+            return { allowed: false, field: label, reason: `${label} contains a blocked term ("${term.trim()}").` };
+        }
+        if (settings.blockInjection) {
+            const injection = INJECTION_PATTERNS.find(({ pattern }) => pattern.test(text));
+            if (injection) {
+                return { allowed: false, field: label, reason: `${label} looks like a prompt injection: it ${injection.description}.` };
+            }
+        }
+    }
+    return { allowed: true };
+}
+
+/**
+ * Runs `moderateUserText` and throws if the text is blocked.
+ * @throws ApiError of kind 'blocked-input' whose message gives the reason.
+ */
+export function assertUserTextAllowed(fields: UserTextField[], settings?: ModerationSettings): void {
+    const verdict = moderateUserText(fields, settings);
+    if (!verdict.allowed) {
+        throw new ApiError('blocked-input', verdict.reason);
+    }
+}
+
+
+// --- Settings ---
+
+export function getModerationSettings(): ModerationSettings {
+    try {
+        const raw = localStorage.getItem(MODERATION_STORAGE_KEY);
+        return { ...DEFAULT_MODERATION_SETTINGS, ...(raw ? JSON.parse(raw) : {}) };
+    } catch (e) {
+        console.error("Failed to read moderation settings from localStorage", e);
+        return { ...DEFAULT_MODERATION_SETTINGS };
+    }
+}
+
+export function setModerationSettings(settings: ModerationSettings): void {
+    try {
+        localStorage.setItem(MODERATION_STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error("Failed to save moderation settings to localStorage", e);
+    }
+}
+
+export function resetModerationSettings(): void {
+    try {
+        localStorage.removeItem(MODERATION_STORAGE_KEY);
+    } catch (e) {
+        console.error("Failed to reset moderation settings in localStorage", e);
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ApiError } from './errors';
+import type { ApiErrorKind } from './errors';
+import type { Scenario } from './scenarios';
+import type { UsageEntry } from './usageLedger';
+
+/**
+ * The wire format shared by the proxy server (`server/proxy.ts`) and the proxy provider.
+ * Every route is a POST with a JSON body. JSON responses carry the result together with the
+ * usage of the model requests made to produce it, so the browser's ledger stays complete.
+ */
+export const PROXY_ROUTES = {
+    scenarios: '/scenarios',
+    scenarioStream: '/scenarios/stream',
+    styledImage: '/styled-image',
+    meme: '/meme',
+    editRegion: '/edit-region',
+    refine: '/refine',
+    analysis: '/analysis',
+    startVideo: '/video',
+    downloadVideo: '/video/download',
+} as const;
+
+export interface ProxyResult<T> {
+    result: T;
+    usage: UsageEntry[];
+}
+
+export interface ProxyErrorBody {
+    error: {
+        kind: ApiErrorKind;
+        message: string;
+        retryAfterMs?: number;
+        details?: string;
+    };
+}
+
+/**
+ * One newline-delimited JSON line of a scenario stream. A stream ends with a usage line on
+ * success or an error line on failure.
+ */
+export type ScenarioStreamLine =
+    | { scenario: Scenario }
+    | { usage: UsageEntry[] }
+    | ProxyErrorBody;
+
+// The HTTP status each error kind is returned with.
+const STATUS_BY_KIND: Record<ApiErrorKind, number> = {
+    'quota': 429,
+    'safety': 422,
+    'blocked-input': 422,
+    'invalid-input': 400,
+    'auth': 401,
+    'timeout': 504,
+    'cancelled': 499,
+    'network': 502,
+    'text-response': 502,
+    'invalid-output': 502,
+    'server': 502,
+    'unknown': 500,
+};
+
+export function statusForError(error: ApiError): number {
+    return STATUS_BY_KIND[error.kind];
+}
+
+export function toProxyErrorBody(error: ApiError): ProxyErrorBody {
+    return {
+        error: {
+            kind: error.kind,
+            message: error.message,
+            retryAfterMs: error.retryAfterMs,
+            details: error.details,
+        },
+    };
+}
+
+/**
+ * Rebuilds the ApiError a proxy error body describes.
+ * @param body The parsed response body, which may not be a proxy error at all.
+ * @param status The HTTP status, used when the body does not describe the error.
+ */
+export function fromProxyErrorBody(body: unknown, status: number): ApiError {
+    const error = (body as Partial<ProxyErrorBody> | null)?.error;
+    if (error && typeof error.kind === 'string' && typeof error.message === 'string') {
+        return new ApiError(error.kind, error.message, { retryAfterMs: error.retryAfterMs, details: error.details });
+    }
+    return new ApiError(status >= 500 ? 'server' : 'unknown', `The proxy server responded with status ${status}.`);
+}
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ApiError, classifyError } from './errors';
+import { PROXY_ROUTES, fromProxyErrorBody } from './proxyProtocol';
+import type { ProxyResult, ScenarioStreamLine } from './proxyProtocol';
+import { recordUsage } from './usageLedger';
+import type { UsageEntry } from './usageLedger';
+import type { Scenario } from './scenarios';
+import type {
+    GenerationProvider,
+    ImageCandidate,
+    ScenarioRequest,
+    StyledImageSources,
+    VideoOperationRef,
+} from './generationProvider';
+
+
+// --- Helper Functions ---
+
+function recordProxiedUsage(usage: UsageEntry[] | undefined) {
+    for (const entry of usage ?? []) {
+        void recordUsage(entry);
+    }
+}
+
+/**
+ * Posts a JSON body to a proxy route, turning error responses into the ApiError they describe.
+ * @returns The successful response, with its body unread.
+ */
+async function post(baseUrl: string, route: string, body: unknown, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(`${baseUrl}${route}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) {
+        const errorBody = await response.json().catch(() => null);
+        throw fromProxyErrorBody(errorBody, response.status);
+    }
+    return response;
+}
+
+/**
+ * Calls a proxy route that answers with a single JSON result, recording the usage it reports.
+ * @param operation A phrase naming the operation for error messages.
+ */
+async function call<T>(baseUrl: string, route: string, body: unknown, operation: string, signal: AbortSignal): Promise<T> {
+    try {
+        const response = await post(baseUrl, route, body, signal);
+        const { result, usage } = await response.json() as ProxyResult<T>;
+        recordProxiedUsage(usage);
+        return result;
+    } catch (error) {
+        throw classifyError(error, operation, signal);
+    }
+}
+
+/**
+ * Reads a newline-delimited JSON body line by line as it arrives.
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            buffered += decoder.decode(value, { stream: !done });
+            const lines = buffered.split('\n');
+            buffered = lines.pop() ?? '';
+            for (const line of lines) {
+                if (line.trim()) yield JSON.parse(line);
+            }
+            if (done) break;
+        }
+        if (buffered.trim()) yield JSON.parse(buffered);
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+
+// --- Operations ---
+
+async function* streamScenarios(baseUrl: string, request: ScenarioRequest, signal: AbortSignal): AsyncGenerator<Scenario> {
+    try {
+        const response = await post(baseUrl, PROXY_ROUTES.scenarioStream, { request }, signal);
+        if (!response.body) {
+            throw new ApiError('server', "The proxy server returned an empty scenario stream.");
+        }
+        for await (const line of readLines(response.body)) {
+            const message = line as ScenarioStreamLine;
+            if ('scenario' in message) {
+                yield message.scenario;
+            } else if ('usage' in message) {
+                recordProxiedUsage(message.usage);
+                return;
+            } else {
+                throw fromProxyErrorBody(message, 500);
+            }
+        }
+        throw new ApiError('network', "The connection to the proxy server closed before the scenarios were complete.");
+    } catch (error) {
+        throw classifyError(error, "Generating creative ideas", signal);
+    }
+}
+
+async function awaitVideoGeneration(baseUrl: string, job: VideoOperationRef, signal: AbortSignal): Promise<string> {
+    try {
+        const response = await post(baseUrl, PROXY_ROUTES.downloadVideo, { job }, signal);
+        return URL.createObjectURL(await response.blob());
+    } catch (error) {
+        throw classifyError(error, "Video generation", signal);
+    }
+}
+
+
+/**
+ * Creates a provider that sends every operation to the proxy server in `server/proxy.ts`,
+ * which holds the Gemini API key, so the key never reaches the browser. Rate limiting and
+ * retries happen on the server; usage it reports is recorded in this browser's ledger.
+ * @param baseUrl The URL the proxy's routes are served under, e.g. '/api'.
+ * @returns A GenerationProvider that calls the proxy server.
+ */
+export function createProxyProvider(baseUrl: string): GenerationProvider {
+    const root = baseUrl.replace(/\/+$/, '');
+    return {
+        name: 'proxy',
+        // The proxy serves the Gemini provider, so text operations run on its text model.
+        textModel: 'gemini-2.5-flash',
+        generateScenarios: (request, signal) =>
+            call<Scenario[]>(root, PROXY_ROUTES.scenarios, { request }, "Generating creative ideas", signal),
+        streamScenarios: (request, signal) => streamScenarios(root, request, signal),
+        generateStyledImage: (images: StyledImageSources, prompt, candidateCount, signal) =>
+            call<ImageCandidate[]>(root, PROXY_ROUTES.styledImage, { images, prompt, candidateCount }, "Image generation", signal),
+        generateMemeImage: (imageDataUrl, memeText, prompt, signal) =>
+            call<string>(root, PROXY_ROUTES.meme, { imageDataUrl, memeText, prompt }, "Meme generation", signal),
+        editImageRegion: (imageDataUrl, maskDataUrl, instruction, prompt, signal) =>
+            call<string>(root, PROXY_ROUTES.editRegion, { imageDataUrl, maskDataUrl, instruction, prompt }, "Region edit", signal),
+        refineImage: (imageDataUrl, history, instruction, prompt, signal) =>
+            call<string>(root, PROXY_ROUTES.refine, { imageDataUrl, history, instruction, prompt }, "Image refinement", signal),
+        analyzeImageContent: (imageDataUrls, prompt, signal) =>
+            call<string>(root, PROXY_ROUTES.analysis, { imageDataUrls, prompt }, "Image analysis", signal),
+        startVideoGeneration: (imageDataUrl, prompt, options, signal) =>
+            call<string>(root, PROXY_ROUTES.startVideo, { imageDataUrl, prompt, options }, "Video generation", signal),
+        awaitVideoGeneration: (job, signal) => awaitVideoGeneration(root, job, signal),
+    };
+}
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { classifyError } from './errors';
+
+/**
+ * Client-side limits for one model (or other rate-limited endpoint).
+ */
+export interface ModelLimits {
+    /** How many requests may be in flight at once. */
+    maxConcurrent: number;
+    /** The sustained request rate the token bucket refills at. */
+    requestsPerMinute: number;
+    /** The bucket size, i.e. how many requests may start back to back after an idle period. */
+    burst: number;
+}
+
+export const DEFAULT_MODEL_LIMITS: Record<string, ModelLimits> = {
+    'gemini-2.5-flash-image': { maxConcurrent: 2, requestsPerMinute: 10, burst: 3 },
+    'gemini-2.5-flash': { maxConcurrent: 4, requestsPerMinute: 15, burst: 5 },
+    'veo-3.1-fast-generate-preview': { maxConcurrent: 1, requestsPerMinute: 2, burst: 1 },
+    'veo-3.1-generate-preview': { maxConcurrent: 1, requestsPerMinute: 2, burst: 1 },
+    'operations': { maxConcurrent: 4, requestsPerMinute: 30, burst: 4 },
+};
+
+const FALLBACK_LIMITS: ModelLimits = { maxConcurrent: 2, requestsPerMinute: 10, burst: 2 };
+
+// How many times a request that hit a quota limit is put back in the queue before giving up.
+const MAX_QUOTA_REQUEUES = 3;
+
+interface QueuedTask {
+    run: () => Promise<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+    signal?: AbortSignal;
+    quotaRequeues: number;
+}
+
+interface ModelQueue {
+    limits: ModelLimits;
+    waiting: QueuedTask[];
+    active: number;
+    tokens: number;
+    lastRefill: number;
+    /** While in the future, no new requests are started for this model. */
+    pausedUntil: number;
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Queues API requests per model and starts them within a concurrency cap and a token-bucket rate.
+ * When a request fails with a quota error, that model's queue pauses for the API's retry-after
+ * hint and the request is put back at the front, so callers see a delay instead of a failure.
+ */
+export class RequestScheduler {
+    private readonly queues = new Map<string, ModelQueue>();
+
+    constructor(private readonly limits: Record<string, ModelLimits> = DEFAULT_MODEL_LIMITS) {}
+
+    /**
+     * Runs a request for the given model once the model's limits allow it.
+     * @param model The model (or endpoint key) whose limits apply.
+     * @param run Issues the request. May be called more than once if the request hits a quota limit.
+     * @param signal Removes the request from the queue if it aborts before starting.
+     * @returns The result of `run`.
+     */
+    schedule<T>(model: string, run: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason);
+                return;
+            }
+            const queue = this.getQueue(model);
+            const onAbort = () => {
+                const index = queue.waiting.indexOf(task);
+                if (index !== -1) {
+                    queue.waiting.splice(index, 1);
+                    reject(signal!.reason);
+                }
+            };
+            // The listener only matters while the task can still be waiting (including after a
+            // quota requeue), so it is removed once the task settles; a long-lived signal shared
+            // by many requests would otherwise collect one listener per request.
+            const task: QueuedTask = {
+                run,
+                resolve: value => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(value as T);
+                },
+                reject: reason => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(reason);
+                },
+                signal,
+                quotaRequeues: 0,
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            queue.waiting.push(task);
+            this.pump(model);
+        });
+    }
+
+    /**
+     * Like `schedule`, but the request keeps its concurrency slot after `run` resolves, until
+     * `release` is called. For streamed responses, which are still being read long after the
+     * call that starts them has returned.
+     * @param model The model (or endpoint key) whose limits apply.
+     * @param run Starts the request. May be called more than once if it hits a quota limit.
+     * @param signal Removes the request from the queue if it aborts before starting.
+     * @returns The result of `run`, and a function that frees the slot; call it exactly once, when done.
+     */
+    scheduleHeld<T>(model: string, run: () => Promise<T>, signal?: AbortSignal): Promise<{ value: T; release: () => void }> {
+        return new Promise((resolve, reject) => {
+            this.schedule(model, async () => {
+                const value = await run();
+                // The task, and with it the slot, stays active until the caller releases it.
+                await new Promise<void>(release => resolve({ value, release }));
+            }, signal).catch(reject);
+        });
+    }
+
+    /**
+     * The time until the model's queue resumes after a quota pause, or 0 if it is not paused.
+     */
+    getPauseRemainingMs(model: string): number {
+        const queue = this.queues.get(model);
+        return queue ? Math.max(0, queue.pausedUntil - Date.now()) : 0;
+    }
+
+    private getQueue(model: string): ModelQueue {
+        let queue = this.queues.get(model);
+        if (!queue) {
+            const limits = this.limits[model] ?? FALLBACK_LIMITS;
+            queue = {
+                limits,
+                waiting: [],
+                active: 0,
+                tokens: limits.burst,
+                lastRefill: Date.now(),
+                pausedUntil: 0,
+                timer: null,
+            };
+            this.queues.set(model, queue);
+        }
+        return queue;
+    }
+
+    private refill(queue: ModelQueue, now: number) {
+        const perMs = queue.limits.requestsPerMinute / 60_000;
+        queue.tokens = Math.min(queue.limits.burst, queue.tokens + (now - queue.lastRefill) * perMs);
+        queue.lastRefill = now;
+    }
+
+    private wakeAt(model: string, queue: ModelQueue, delayMs: number) {
+        if (queue.timer) clearTimeout(queue.timer);
+        queue.timer = setTimeout(() => {
+            queue.timer = null;
+            this.pump(model);
+        }, Math.max(0, Math.ceil(delayMs)));
+    }
+
+    /**
+     * Starts as many waiting requests as the model's limits currently allow.
+     */
+    private pump(model: string) {
+        const queue = this.getQueue(model);
+
+        while (queue.waiting.length > 0 && queue.active < queue.limits.maxConcurrent) {
+            const now = Date.now();
+            if (now < queue.pausedUntil) {
+                this.wakeAt(model, queue, queue.pausedUntil - now);
+                return;
+            }
+            this.refill(queue, now);
+            if (queue.tokens < 1) {
+                const perMs = queue.limits.requestsPerMinute / 60_000;
+                this.wakeAt(model, queue, (1 - queue.tokens) / perMs);
+                return;
+            }
+            queue.tokens -= 1;
+            this.execute(model, queue, queue.waiting.shift()!);
+        }
+    }
+
+    private execute(model: string, queue: ModelQueue, task: QueuedTask) {
+        queue.active++;
+        task.run()
+            .then(task.resolve, (error: unknown) => {
+                const apiError = classifyError(error, "Request", task.signal);
+                if (apiError.kind === 'quota' && task.quotaRequeues < MAX_QUOTA_REQUEUES) {
+                    const cooldown = apiError.retryAfterMs ?? 0;
+                    queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + cooldown);
+                    // Every token earned before the limit was hit is void once the API has pushed back.
+                    queue.tokens = 0;
+                    queue.lastRefill = queue.pausedUntil;
+                    task.quotaRequeues++;
+                    console.warn(`Quota limit hit for ${model}. Pausing its queue for ${Math.round(cooldown / 1000)}s.`);
+                    queue.waiting.unshift(task);
+                    return;
+                }
+                task.reject(error);
+            })
+            .finally(() => {
+                queue.active--;
+                this.pump(model);
+            });
+    }
+}
+
+/** The scheduler shared by every API call in the app. */
+export const requestScheduler = new RequestScheduler();
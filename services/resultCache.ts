@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createIdbStore } from '../lib/idbStore';
+import { dataUrlToBlob } from '../lib/imagePreprocessing';
+
+/** The operations whose results are cached. */
+export type CachedOperation = 'analysis' | 'scenarios';
+
+interface CacheEntry {
+    key: string;
+    operation: CachedOperation;
+    value: unknown;
+    /** The approximate stored size of `value`, used for the size limit. */
+    bytes: number;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+export interface ResultCacheStats {
+    entries: number;
+    bytes: number;
+}
+
+/** Least recently used entries are evicted once the cache grows past either limit. */
+export const RESULT_CACHE_MAX_ENTRIES = 500;
+export const RESULT_CACHE_MAX_BYTES = 5_000_000;
+
+const store = createIdbStore<CacheEntry>('past-forward-result-cache', 'entries');
+
+// Key schema version; bump to invalidate every existing entry.
+const KEY_VERSION = 1;
+
+
+// --- Keys ---
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Derives a content-addressed cache key. Images are hashed by their decoded bytes, so the same
+ * picture gives the same key however its data URL was produced.
+ * @param operation The cached operation.
+ * @param model The model that would serve the request.
+ * @param prompt The exact prompt text that would be sent.
+ * @param imageDataUrls The images that would be sent, in order.
+ * @param params Any other request settings that change the result, such as a requested count.
+ * @returns A hex SHA-256 digest.
+ */
+export async function resultCacheKey(
+    operation: CachedOperation,
+    model: string,
+    prompt: string,
+    imageDataUrls: string[] = [],
+    params: Record<string, string | number> = {}
+): Promise<string> {
+    const imageHashes = await Promise.all(imageDataUrls.map(async url =>
+        sha256Hex(await dataUrlToBlob(url).arrayBuffer())));
+    const sortedParams = Object.keys(params).sort().map(name => [name, params[name]]);
+    const material = JSON.stringify([KEY_VERSION, operation, model, prompt, imageHashes, sortedParams]);
+    return sha256Hex(new TextEncoder().encode(material));
+}
+
+
+// --- Access ---
+
+/**
+ * Looks up a cached result and marks it as recently used.
+ * Storage failures are logged and reported as a miss.
+ */
+export async function getCachedResult<T>(key: string): Promise<T | undefined> {
+    try {
+        const entry = await store.get(key);
+        if (!entry) return undefined;
+        await store.put(key, { ...entry, lastUsedAt: Date.now() });
+        return entry.value as T;
+    } catch (error) {
+        console.error("Failed to read from the result cache:", error);
+        return undefined;
+    }
+}
+
+/**
+ * Stores a result, then evicts least recently used entries until the cache is within its limits.
+ * Storage failures are logged and otherwise ignored; the result is simply not cached.
+ */
+export async function setCachedResult(key: string, operation: CachedOperation, value: unknown): Promise<void> {
+    const now = Date.now();
+    const entry: CacheEntry = {
+        key,
+        operation,
+        value,
+        bytes: JSON.stringify(value).length * 2,
+        createdAt: now,
+        lastUsedAt: now,
+    };
+    try {
+        await store.put(key, entry);
+        await evictOverflow();
+    } catch (error) {
+        console.error("Failed to write to the result cache:", error);
+    }
+}
+
+async function evictOverflow(): Promise<void> {
+    const entries = (await store.getAll()).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    let count = entries.length;
+
+    for (const entry of entries) {
+        if (count <= RESULT_CACHE_MAX_ENTRIES && totalBytes <= RESULT_CACHE_MAX_BYTES) break;
+        await store.delete(entry.key);
+        count--;
+        totalBytes -= entry.bytes;
+    }
+}
+
+/**
+ * Reports how much the cache currently holds.
+ */
+export async function getResultCacheStats(): Promise<ResultCacheStats> {
+    try {
+        const entries = await store.getAll();
+        return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0) };
+    } catch (error) {
+        console.error("Failed to read the result cache:", error);
+        return { entries: 0, bytes: 0 };
+    }
+}
+
+/**
+ * Removes every cached result.
+ */
+export async function clearResultCache(): Promise<void> {
+    await store.clear();
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ApiError } from './errors';
+
+/**
+ * One scene for a portrait, as structured by the creative-director prompt.
+ */
+export interface Scenario {
+    /** A short name for the scene, used as its label. */
+    title: string;
+    /** What happens in the scene and where. */
+    scene: string;
+    camera: string;
+    lighting: string;
+    mood: string;
+}
+
+export type ScenarioField = keyof Scenario;
+
+/** What each scenario field should contain; shared by the model's response schema and the validator. */
+export const SCENARIO_FIELDS: Record<ScenarioField, string> = {
+    title: "A short, evocative title for the scene (2-6 words).",
+    scene: "The subject, setting and action of the scene, in one or two sentences.",
+    camera: "Shot type, angle and lens, e.g. 'low-angle medium shot, 35mm'.",
+    lighting: "The lighting setup, e.g. 'warm golden-hour backlight'.",
+    mood: "The emotional tone of the scene.",
+};
+
+export const DEFAULT_SCENARIO_COUNT = 5;
+export const MAX_SCENARIO_COUNT = 10;
+
+/**
+ * Checks that a requested scenario count is a whole number within the supported range.
+ * @throws ApiError of kind 'invalid-input' if it is not.
+ */
+export function assertScenarioCount(count: number): void {
+    if (!Number.isInteger(count) || count < 1 || count > MAX_SCENARIO_COUNT) {
+        throw new ApiError('invalid-input', `The number of scenarios must be a whole number from 1 to ${MAX_SCENARIO_COUNT}, got ${count}.`);
+    }
+}
+
+// Lists what is wrong with one parsed scenario, if anything.
+function scenarioProblems(item: unknown, index: number): string[] {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        return [`scenario ${index + 1} is not an object`];
+    }
+    return (Object.keys(SCENARIO_FIELDS) as ScenarioField[])
+        .filter(field => {
+            const fieldValue = (item as Record<string, unknown>)[field];
+            return typeof fieldValue !== 'string' || !fieldValue.trim();
+        })
+        .map(field => `scenario ${index + 1} is missing "${field}"`);
+}
+
+function invalidScenariosError(problems: string[]): ApiError {
+    return new ApiError('invalid-output', `Generating creative ideas failed. The AI's scenarios did not match the expected format: ${problems.join('; ')}.`);
+}
+
+function tooFewScenariosProblem(expected: number, received: number): string {
+    return `expected ${expected} scenarios but got ${received}`;
+}
+
+function normalizeScenario(item: Record<ScenarioField, string>): Scenario {
+    return {
+        title: item.title.trim(),
+        scene: item.scene.trim(),
+        camera: item.camera.trim(),
+        lighting: item.lighting.trim(),
+        mood: item.mood.trim(),
+    };
+}
+
+/**
+ * Validates one scenario as it arrives from a streamed response.
+ * @param item The parsed JSON element.
+ * @param index The element's position in the response, used in error messages.
+ * @returns The scenario with its fields trimmed.
+ * @throws ApiError of kind 'invalid-output' if the scenario is malformed.
+ */
+export function validateScenario(item: unknown, index: number): Scenario {
+    const problems = scenarioProblems(item, index);
+    if (problems.length > 0) {
+        throw invalidScenariosError(problems);
+    }
+    return normalizeScenario(item as Record<ScenarioField, string>);
+}
+
+/**
+ * Validates a model's parsed scenario output.
+ * @param value The parsed JSON returned by the model.
+ * @param count How many scenarios were requested. Extra scenarios are dropped; too few is an error.
+ * @returns The scenarios, trimmed to `count`.
+ * @throws ApiError of kind 'invalid-output' listing every problem found.
+ */
+export function validateScenarios(value: unknown, count: number): Scenario[] {
+    if (!Array.isArray(value)) {
+        throw new ApiError('invalid-output', `Generating creative ideas failed. Expected a JSON array of scenarios but got ${value === null ? 'null' : typeof value}.`);
+    }
+
+    const problems = value.slice(0, count).flatMap(scenarioProblems);
+    if (value.length < count) {
+        problems.unshift(tooFewScenariosProblem(count, value.length));
+    }
+    if (problems.length > 0) {
+        throw invalidScenariosError(problems);
+    }
+
+    return value.slice(0, count).map(normalizeScenario);
+}
+
+/**
+ * The error for a response that ended before delivering every requested scenario.
+ */
+export function tooFewScenariosError(expected: number, received: number): ApiError {
+    return invalidScenariosError([tooFewScenariosProblem(expected, received)]);
+}
+
+/**
+ * Flattens a scenario into the text prompt used for image generation.
+ */
+export function scenarioToPrompt(scenario: Scenario): string {
+    const clause = (text: string) => text.replace(/[.\s]+$/, '');
+    return `${scenario.scene} Camera: ${clause(scenario.camera)}. Lighting: ${clause(scenario.lighting)}. Mood: ${clause(scenario.mood)}.`;
+}
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createIdbStore } from '../lib/idbStore';
+import type { ApiErrorKind } from './errors';
+
+/** The kinds of model request the ledger distinguishes. */
+export type UsageOperation = 'scenarios' | 'image' | 'meme' | 'edit' | 'refine' | 'analysis' | 'video';
+
+/**
+ * One request to a model, as recorded in the ledger.
+ */
+export interface UsageRecord {
+    id: string;
+    /** Identifies the page session the request was made in. */
+    sessionId: string;
+    timestamp: number;
+    provider: string;
+    model: string;
+    operation: UsageOperation;
+    promptTokens: number;
+    /** Response tokens, including any thinking tokens, which are billed as output. */
+    outputTokens: number;
+    totalTokens: number;
+    /** Seconds of generated video, for models billed per second. */
+    videoSeconds: number;
+    latencyMs: number;
+    /** 'success', or the kind of error the request failed with. */
+    outcome: 'success' | ApiErrorKind;
+}
+
+/** A request as reported by a provider; the ledger assigns the rest when it is recorded. */
+export type UsageEntry = Omit<UsageRecord, 'id' | 'sessionId' | 'timestamp'>;
+
+/**
+ * What one model costs, in US dollars.
+ */
+export interface ModelPrice {
+    inputPerMillionTokens: number;
+    outputPerMillionTokens: number;
+    perVideoSecond: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/** List prices at the time of writing; users can edit them in Settings. */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    'gemini-2.5-flash': { inputPerMillionTokens: 0.30, outputPerMillionTokens: 2.50, perVideoSecond: 0 },
+    'gemini-2.5-flash-image': { inputPerMillionTokens: 0.30, outputPerMillionTokens: 30, perVideoSecond: 0 },
+    'veo-3.1-fast-generate-preview': { inputPerMillionTokens: 0, outputPerMillionTokens: 0, perVideoSecond: 0.15 },
+    'veo-3.1-generate-preview': { inputPerMillionTokens: 0, outputPerMillionTokens: 0, perVideoSecond: 0.40 },
+};
+
+export interface UsageTotals {
+    calls: number;
+    failures: number;
+    promptTokens: number;
+    outputTokens: number;
+    videoSeconds: number;
+    costUsd: number;
+}
+
+export interface UsageSummary {
+    session: UsageTotals;
+    /** Totals per local calendar day (YYYY-MM-DD), most recent first. */
+    days: { day: string; totals: UsageTotals }[];
+    /** Totals per model across every recorded request. */
+    models: { model: string; totals: UsageTotals }[];
+}
+
+const PRICE_TABLE_STORAGE_KEY = 'usage-price-table';
+// Records older than this are dropped the first time a new record is written in a session.
+const RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+const store = createIdbStore<UsageRecord>('past-forward-usage', 'records');
+
+/** Identifies the current page session in the ledger. */
+export const USAGE_SESSION_ID = crypto.randomUUID();
+
+let hasPruned = false;
+
+
+// --- Recording ---
+
+/**
+ * Adds a request to the ledger. Storage failures are logged and otherwise ignored.
+ */
+export async function recordUsage(record: UsageEntry): Promise<void> {
+    const entry: UsageRecord = {
+        ...record,
+        id: crypto.randomUUID(),
+        sessionId: USAGE_SESSION_ID,
+        timestamp: Date.now(),
+    };
+    try {
+        await store.put(entry.id, entry);
+        if (!hasPruned) {
+            hasPruned = true;
+            const cutoff = Date.now() - RETENTION_MS;
+            for (const old of (await store.getAll()).filter(r => r.timestamp < cutoff)) {
+                await store.delete(old.id);
+            }
+        }
+    } catch (error) {
+        console.error("Failed to record usage:", error);
+    }
+}
+
+/**
+ * Lists every recorded request, oldest first.
+ */
+export async function listUsage(): Promise<UsageRecord[]> {
+    try {
+        return (await store.getAll()).sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error) {
+        console.error("Failed to read the usage ledger:", error);
+        return [];
+    }
+}
+
+export async function clearUsage(): Promise<void> {
+    await store.clear();
+}
+
+
+// --- Prices ---
+
+/**
+ * Returns the user's price table, falling back to the defaults for models they have not priced.
+ */
+export function getPriceTable(): PriceTable {
+    try {
+        const raw = localStorage.getItem(PRICE_TABLE_STORAGE_KEY);
+        return { ...DEFAULT_PRICE_TABLE, ...(raw ? JSON.parse(raw) : {}) };
+    } catch (e) {
+        console.error("Failed to read the price table from localStorage", e);
+        return { ...DEFAULT_PRICE_TABLE };
+    }
+}
+
+export function setPriceTable(prices: PriceTable): void {
+    try {
+        localStorage.setItem(PRICE_TABLE_STORAGE_KEY, JSON.stringify(prices));
+    } catch (e) {
+        console.error("Failed to save the price table to localStorage", e);
+    }
+}
+
+export function resetPriceTable(): void {
+    try {
+        localStorage.removeItem(PRICE_TABLE_STORAGE_KEY);
+    } catch (e) {
+        console.error("Failed to reset the price table in localStorage", e);
+    }
+}
+
+/**
+ * Estimates what a request cost. Models missing from the price table count as free.
+ */
+export function estimateCost(record: UsageRecord, prices: PriceTable): number {
+    const price = prices[record.model];
+    if (!price) return 0;
+    return (record.promptTokens * price.inputPerMillionTokens
+        + record.outputTokens * price.outputPerMillionTokens) / 1_000_000
+        + record.videoSeconds * price.perVideoSecond;
+}
+
+
+// --- Reporting ---
+
+function emptyTotals(): UsageTotals {
+    return { calls: 0, failures: 0, promptTokens: 0, outputTokens: 0, videoSeconds: 0, costUsd: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord, prices: PriceTable) {
+    totals.calls++;
+    if (record.outcome !== 'success') totals.failures++;
+    totals.promptTokens += record.promptTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.videoSeconds += record.videoSeconds;
+    totals.costUsd += estimateCost(record, prices);
+}
+
+// Formats a timestamp as the local calendar day, e.g. "2025-03-14".
+function localDay(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Totals the ledger for the current session, per day and per model.
+ */
+export function summarizeUsage(records: UsageRecord[], prices: PriceTable): UsageSummary {
+    const session = emptyTotals();
+    const days = new Map<string, UsageTotals>();
+    const models = new Map<string, UsageTotals>();
+
+    for (const record of records) {
+        if (record.sessionId === USAGE_SESSION_ID) {
+            addToTotals(session, record, prices);
+        }
+        const day = localDay(record.timestamp);
+        if (!days.has(day)) days.set(day, emptyTotals());
+        addToTotals(days.get(day)!, record, prices);
+        if (!models.has(record.model)) models.set(record.model, emptyTotals());
+        addToTotals(models.get(record.model)!, record, prices);
+    }
+
+    return {
+        session,
+        days: Array.from(days, ([day, totals]) => ({ day, totals })).sort((a, b) => b.day.localeCompare(a.day)),
+        models: Array.from(models, ([model, totals]) => ({ model, totals })),
+    };
+}
+
+function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders the ledger as CSV, one row per request, with its estimated cost.
+ */
+export function usageToCsv(records: UsageRecord[], prices: PriceTable): string {
+    const header = ['timestamp', 'session', 'provider', 'model', 'operation', 'outcome', 'latency_ms',
+        'prompt_tokens', 'output_tokens', 'total_tokens', 'video_seconds', 'estimated_cost_usd'];
+    const rows = records.map(record => [
+        new Date(record.timestamp).toISOString(),
+        record.sessionId,
+        record.provider,
+        record.model,
+        record.operation,
+        record.outcome,
+        record.latencyMs,
+        record.promptTokens,
+        record.outputTokens,
+        record.totalTokens,
+        record.videoSeconds,
+        estimateCost(record, prices).toFixed(6),
+    ]);
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+}
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createIdbStore } from '../lib/idbStore';
+import type { VideoOperationRef } from './generationProvider';
+
+/**
+ * A video generation that has been submitted but whose result has not been delivered yet.
+ * Persisted so that polling can resume after a page reload.
+ */
+export interface VideoJob extends VideoOperationRef {
+    /** A client-side identifier for the job. */
+    id: string;
+    /** The provider that started the job; only that provider can resume it. */
+    provider: string;
+    createdAt: number;
+}
+
+const store = createIdbStore<VideoJob>('past-forward-video-jobs', 'jobs');
+
+/**
+ * Saves an in-flight video job. Storage failures are logged and otherwise ignored,
+ * since the job itself is unaffected; it just won't survive a reload.
+ */
+export async function saveVideoJob(job: VideoJob): Promise<void> {
+    try {
+        await store.put(job.id, job);
+    } catch (error) {
+        console.error("Failed to persist video job:", error);
+    }
+}
+
+export async function deleteVideoJob(id: string): Promise<void> {
+    try {
+        await store.delete(id);
+    } catch (error) {
+        console.error("Failed to remove video job:", error);
+    }
+}
+
+/**
+ * Lists the saved jobs, oldest first.
+ */
+export async function listVideoJobs(): Promise<VideoJob[]> {
+    try {
+        const jobs = await store.getAll();
+        return jobs.sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+        console.error("Failed to read saved video jobs:", error);
+        return [];
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ApiError } from './errors';
+
+export type VideoAspectRatio = '16:9' | '9:16';
+export type VideoResolution = '720p' | '1080p';
+/** 'fast' trades some quality for speed and price; 'quality' uses the full model. */
+export type VideoModelTier = 'fast' | 'quality';
+
+/**
+ * The user-selectable settings for a video generation.
+ */
+export interface VideoOptions {
+    aspectRatio: VideoAspectRatio;
+    resolution: VideoResolution;
+    tier: VideoModelTier;
+    /** What the video should not contain; empty for none. */
+    negativePrompt: string;
+    /** How many alternative videos to generate; each is a separate request. */
+    numberOfVideos: number;
+}
+
+/**
+ * What a video model accepts.
+ */
+export interface VideoModelCapabilities {
+    model: string;
+    label: string;
+    aspectRatios: readonly VideoAspectRatio[];
+    /** The resolutions the model can render at each aspect ratio. */
+    resolutions: Readonly<Record<VideoAspectRatio, readonly VideoResolution[]>>;
+    supportsNegativePrompt: boolean;
+    /** Seconds per generated clip. */
+    durationSeconds: number;
+}
+
+export const VIDEO_MODELS: Record<VideoModelTier, VideoModelCapabilities> = {
+    fast: {
+        model: 'veo-3.1-fast-generate-preview',
+        label: 'Fast',
+        aspectRatios: ['9:16', '16:9'],
+        resolutions: { '9:16': ['720p', '1080p'], '16:9': ['720p', '1080p'] },
+        supportsNegativePrompt: true,
+        durationSeconds: 8,
+    },
+    quality: {
+        model: 'veo-3.1-generate-preview',
+        label: 'Quality',
+        aspectRatios: ['9:16', '16:9'],
+        resolutions: { '9:16': ['720p', '1080p'], '16:9': ['720p', '1080p'] },
+        supportsNegativePrompt: true,
+        durationSeconds: 8,
+    },
+};
+
+export const DEFAULT_VIDEO_OPTIONS: VideoOptions = {
+    aspectRatio: '9:16',
+    resolution: '720p',
+    tier: 'fast',
+    negativePrompt: '',
+    numberOfVideos: 1,
+};
+
+export const MAX_VIDEO_COUNT = 4;
+export const MAX_NEGATIVE_PROMPT_LENGTH = 500;
+
+/**
+ * Lists what is wrong with a set of video options for the model tier they select.
+ * @returns Human-readable problems; empty if the options can be submitted.
+ */
+export function videoOptionProblems(options: VideoOptions): string[] {
+    const capabilities = VIDEO_MODELS[options.tier] as VideoModelCapabilities | undefined;
+    if (!capabilities) {
+        return [`unknown model tier "${options.tier}"`];
+    }
+
+    const problems: string[] = [];
+    if (!capabilities.aspectRatios.includes(options.aspectRatio)) {
+        problems.push(`the ${capabilities.label} model does not support the ${options.aspectRatio} aspect ratio`);
+    } else if (!capabilities.resolutions[options.aspectRatio].includes(options.resolution)) {
+        problems.push(`the ${capabilities.label} model cannot render ${options.aspectRatio} video at ${options.resolution}`);
+    }
+    if (options.negativePrompt.trim()) {
+        if (!capabilities.supportsNegativePrompt) {
+            problems.push(`the ${capabilities.label} model does not accept a negative prompt`);
+        } else if (options.negativePrompt.length > MAX_NEGATIVE_PROMPT_LENGTH) {
+            problems.push(`the negative prompt must be at most ${MAX_NEGATIVE_PROMPT_LENGTH} characters`);
+        }
+    }
+    if (!Number.isInteger(options.numberOfVideos) || options.numberOfVideos < 1 || options.numberOfVideos > MAX_VIDEO_COUNT) {
+        problems.push(`the number of videos must be a whole number from 1 to ${MAX_VIDEO_COUNT}`);
+    }
+    return problems;
+}
+
+/**
+ * Checks video options against the selected model before anything is submitted.
+ * @throws ApiError of kind 'invalid-input' listing every problem found.
+ */
+export function assertVideoOptions(options: VideoOptions): void {
+    const problems = videoOptionProblems(options);
+    if (problems.length > 0) {
+        throw new ApiError('invalid-input', `These video settings can't be used: ${problems.join('; ')}.`);
+    }
+}
@@ -4,15 +4,25 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // In proxy mode the key stays with `npm run proxy` and is never inlined into the bundle.
+    const useProxy = env.GENERATION_PROVIDER?.trim().toLowerCase() === 'proxy';
+    const apiKey = useProxy ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // The proxy spends the server-side key for anyone who can reach `/api`, so in proxy
+        // mode the dev server is only reachable from this machine.
+        host: useProxy ? '127.0.0.1' : '0.0.0.0',
+        proxy: {
+          '/api': `http://127.0.0.1:${env.PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.GENERATION_PROVIDER': JSON.stringify(env.GENERATION_PROVIDER),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL)
       },
       resolve: {
         alias: {